@@ -4,17 +4,22 @@
  * Helix Router CLI
  *
  * Usage:
- *   helix-router start [--port 8403]
+ *   helix-router start [--port 8403] [--config <file>]
  *   helix-router stats
- *   helix-router config
+ *   helix-router config [--config <file>] [--validate]
+ *   helix-router train [--log <file>] [--labels <file>] [--out <file>] [--config <file>]
+ *   helix-router experiments [--log <file>] [--name <experiment>]
  */
 
 import { startServer, HelixServer } from "./src/server.js";
-import { homedir } from "node:os";
-import { join } from "node:path";
-import { readFileSync, existsSync } from "node:fs";
-
-const CONFIG_FILE = join(homedir(), ".openclaw", "helix-router", "config.json");
+import { LOG_FILE } from "./src/logger.js";
+import { predict, readTrainingSamples, saveModel, trainModel } from "./src/learned-model.js";
+import { DEFAULT_MODEL_FILE } from "./src/evaluators/learned.js";
+import { CONFIG_FILE, resolveConfig } from "./src/config.js";
+import { scoreBands, tierOrder } from "./src/tiers.js";
+import { ConfigValidationError, formatPath, redactSecrets, validateConfig } from "./src/config-validation.js";
+import { EXPERIMENTS_LOG, formatExperimentReport, readExperimentLog, summarizeExperiments } from "./src/experiments.js";
+import { existsSync } from "node:fs";
 
 function printHelp(): void {
   console.log(`
@@ -26,12 +31,33 @@ Usage:
 Commands:
   start     Start the router server
   stats     Show routing statistics
-  config    Show current configuration
+  config    Show the effective configuration
+  train     Train the learned evaluator from routing.log
+  experiments  Compare the arms of shadow and split experiments
   help      Show this help message
 
 Options for 'start':
   --port <n>     Server port (default: 8403)
+  --config <f>   Path to config file (default: ~/.openclaw/helix-router/config.json)
+
+Options for 'config':
   --config <f>   Path to config file
+  --validate     Report whether the configuration is valid
+
+Configuration precedence (later wins):
+  defaults < config file < environment variables < plugin config < command-line flags
+  Strings in the config file may reference environment variables as \${NAME}.
+
+Options for 'train':
+  --log <f>      Routing log to learn from (default: ~/.openclaw/helix-router/routing.log)
+  --labels <f>   JSONL feedback labels: {"prompt", "task_type"?, "score"?, "tier"?}
+  --out <f>      Model file to write (default: ~/.openclaw/helix-router/router-model.json)
+  --epochs <n>   Training passes (default: 10)
+  --config <f>   Config file whose tier ladder scores labels that name a tier
+
+Options for 'experiments':
+  --log <f>      Experiments log (default: ~/.openclaw/helix-router/experiments.log)
+  --name <e>     Only report this experiment
 
 Environment Variables:
   HELIX_PRO_URL      PRO provider base URL
@@ -44,14 +70,135 @@ Environment Variables:
   HELIX_LOW_KEY      LOW provider API key
   HELIX_LOW_MODEL    LOW provider model ID
   HELIX_PORT         Server port
+  HELIX_PRO_THRESHOLD / HELIX_MID_THRESHOLD  Routing score thresholds
+  HELIX_TIERS        Tier names, cheapest first (default low,mid,pro)
+  HELIX_<TIER>_MIN_SCORE  Lowest score routed to a tier
+  HELIX_LOG_PROMPTS  Log prompt text for training (true/false)
+  HELIX_EXPERIMENTS  JSON file with the experiments list
+  HELIX_QUALITY_ESCALATION  Retry poor answers on the next tier up (true/false, default false)
+  HELIX_QUALITY_CHECKS  Answer checks that retry on the next tier up (comma-separated)
+  HELIX_SESSIONS     Hold conversations at their session tier (true/false, default false)
+  HELIX_SESSION_DEESCALATE_AFTER  Simpler turns a session holds its tier for
+  HELIX_TOOL_LOOPS   Route tool-result turns with their user turn's tier (true/false, default false)
+  HELIX_TOOL_LOOP_ESCALATE_AFTER  Tool-result turns before an agent loop moves one tier up
 
 Examples:
   helix-router start
   helix-router start --port 8404
   HELIX_MID_MODEL=gpt-4o helix-router start
+  helix-router config --validate
+  helix-router train --labels feedback.jsonl
+  helix-router experiments --name mid-shadow
 `);
 }
 
+/**
+ * Value following a flag, if present
+ */
+function option(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index > -1 ? args[index + 1] : undefined;
+}
+
+/**
+ * Print the merged configuration with keys redacted, and any errors in it
+ */
+function showConfig(args: string[]): void {
+  const file = option(args, "--config") ?? CONFIG_FILE;
+  console.log(existsSync(file) ? `Configuration file: ${file}` : `No configuration file at ${file}; using defaults.`);
+  console.log("");
+
+  let config;
+  try {
+    config = resolveConfig({ file });
+  } catch (e) {
+    reportErrors(e);
+    return;
+  }
+
+  const errors = validateConfig(config);
+  if (errors.length > 0) {
+    reportErrors(new ConfigValidationError(errors));
+  } else if (args.includes("--validate")) {
+    console.log("Configuration is valid.");
+    console.log("");
+  }
+
+  console.log("Effective configuration:");
+  console.log(JSON.stringify(redactSecrets(config), null, 2));
+}
+
+function reportErrors(error: unknown): void {
+  if (!(error instanceof ConfigValidationError)) {
+    console.error(`Error: ${(error as Error).message}`);
+  } else {
+    console.error(`${error.errors.length} configuration error(s):`);
+    for (const { path, message } of error.errors) {
+      console.error(`  - ${formatPath(path)}: ${message}`);
+    }
+    console.error("");
+  }
+  process.exitCode = 1;
+}
+
+function train(args: string[]): void {
+  const logFile = option(args, "--log") ?? LOG_FILE;
+  const labelsFile = option(args, "--labels");
+  const outFile = option(args, "--out") ?? DEFAULT_MODEL_FILE;
+  const epochs = parseInt(option(args, "--epochs") ?? "") || undefined;
+
+  // Labels naming a tier are scored by the configured ladder
+  let bands;
+  try {
+    const config = resolveConfig({ file: option(args, "--config") ?? CONFIG_FILE });
+    bands = scoreBands(tierOrder(config.routing), config.tiers ?? {}, config.routing ?? {});
+  } catch (error) {
+    reportErrors(error);
+    return;
+  }
+
+  const samples = readTrainingSamples(logFile, labelsFile, bands);
+  if (samples.length === 0) {
+    console.log(`No training samples in ${logFile}${labelsFile ? ` or ${labelsFile}` : ""}.`);
+    console.log("Prompt text is only logged with HELIX_LOG_PROMPTS=true (or logging.prompts in config).");
+    process.exitCode = 1;
+    return;
+  }
+  console.log(`Training on ${samples.length} samples`);
+
+  // Hold out a tenth of the data to report accuracy, then train on all of it
+  if (samples.length >= 50) {
+    const holdout = samples.filter((_, i) => i % 10 === 0);
+    const model = trainModel(samples.filter((_, i) => i % 10 !== 0), { epochs });
+    const predictions = holdout.map((sample) => ({ sample, prediction: predict(model, sample.prompt) }));
+    const labelled = predictions.filter(({ sample }) => sample.taskType);
+    const scored = predictions.filter(({ sample }) => sample.score !== undefined);
+    const accuracy = labelled.filter(({ sample, prediction }) => prediction.taskType === sample.taskType).length;
+    const error = scored.reduce((sum, { sample, prediction }) => sum + Math.abs(prediction.score - sample.score!), 0);
+    console.log(`Holdout task accuracy: ${labelled.length ? Math.round((accuracy / labelled.length) * 100) : 0}%`);
+    console.log(`Holdout score error: ${scored.length ? (error / scored.length).toFixed(1) : "n/a"} points`);
+  }
+
+  const model = trainModel(samples, { epochs });
+  saveModel(model, outFile);
+  console.log(`Model written to ${outFile} (${Object.keys(model.weights).length} features)`);
+  console.log(`Use it with HELIX_EVALUATOR=learned or evaluator.strategy "learned".`);
+}
+
+function reportExperiments(args: string[]): void {
+  const logFile = option(args, "--log") ?? EXPERIMENTS_LOG;
+  const name = option(args, "--name");
+
+  const entries = readExperimentLog(logFile).filter((entry) => !name || entry.experiment === name);
+  if (entries.length === 0) {
+    console.log(`No experiment results${name ? ` for ${name}` : ""} in ${logFile}.`);
+    console.log("Configure experiments in config.json (or HELIX_EXPERIMENTS) and send some traffic first.");
+    process.exitCode = 1;
+    return;
+  }
+  console.log(formatExperimentReport(summarizeExperiments(entries)));
+}
+
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
   const command = args[0] ?? "help";
@@ -60,6 +207,7 @@ async function main(): Promise<void> {
     case "start": {
       const portIndex = args.indexOf("--port");
       const port = portIndex > -1 ? parseInt(args[portIndex + 1]) : undefined;
+      const configFile = option(args, "--config");
 
       console.log("╔═══════════════════════════════════════════════════════════════╗");
       console.log("║                    Helix Router v1.0.0                        ║");
@@ -67,10 +215,13 @@ async function main(): Promise<void> {
       console.log("╚═══════════════════════════════════════════════════════════════╝");
       console.log("");
 
-      const server = await startServer({ port });
+      const server = await startServer({ port, configFile });
       console.log("");
       console.log("Routes:");
       console.log("  • /v1/chat/completions  - Main chat endpoint");
+      console.log("  • /v1/messages         - Anthropic Messages endpoint");
+      console.log("  • /v1/responses        - OpenAI Responses endpoint");
+      console.log("  • /v1/completions      - Legacy completions endpoint");
       console.log("  • /v1/models           - List available models");
       console.log("  • /health              - Health check");
       console.log("  • /stats               - Routing statistics");
@@ -95,34 +246,17 @@ async function main(): Promise<void> {
     }
 
     case "config": {
-      if (existsSync(CONFIG_FILE)) {
-        console.log(`Configuration file: ${CONFIG_FILE}`);
-        console.log(readFileSync(CONFIG_FILE, "utf-8"));
-      } else {
-        console.log("No configuration file found.");
-        console.log("");
-        console.log("Default configuration:");
-        console.log(JSON.stringify({
-          providers: {
-            pro: {
-              baseUrl: "http://192.168.1.60:8310/v1",
-              model: "kiro-proxy/pro",
-            },
-            mid: {
-              baseUrl: "http://192.168.1.60:8310/v1",
-              model: "kiro-proxy/mid",
-            },
-            low: {
-              baseUrl: "http://192.168.1.60:8310/v1",
-              model: "kiro-proxy/low",
-            },
-          },
-          routing: {
-            proThreshold: 75,
-            midThreshold: 35,
-          },
-        }, null, 2));
-      }
+      showConfig(args);
+      break;
+    }
+
+    case "train": {
+      train(args);
+      break;
+    }
+
+    case "experiments": {
+      reportExperiments(args);
       break;
     }
 
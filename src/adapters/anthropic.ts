@@ -0,0 +1,40 @@
+/**
+ * Anthropic Messages adapter
+ */
+
+import type { AnthropicMessagesResponse } from "../types.js";
+import type { UpstreamAdapter } from "./index.js";
+import {
+  anthropicEventsToChunks,
+  anthropicResponseToChat,
+  chatRequestToAnthropic,
+} from "../anthropic-messages.js";
+import { chatJsonResponse, chatStreamResponse, readSseEvents } from "./stream.js";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export const anthropicAdapter: UpstreamAdapter = {
+  buildRequest(provider, request) {
+    return {
+      url: `${provider.baseUrl}/messages`,
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": provider.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: chatRequestToAnthropic(request, provider.model),
+    };
+  },
+
+  async toChatResponse(response, request) {
+    if (request.stream && response.body) {
+      return chatStreamResponse(
+        anthropicEventsToChunks(readSseEvents(response.body), request.model),
+        response.status
+      );
+    }
+
+    const data = await response.json() as AnthropicMessagesResponse;
+    return chatJsonResponse(anthropicResponseToChat(data), response.status);
+  },
+};
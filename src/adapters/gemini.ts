@@ -0,0 +1,289 @@
+/**
+ * Google Gemini generateContent adapter
+ */
+
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  StreamChunk,
+  ToolCall,
+} from "../types.js";
+import type { UpstreamAdapter } from "./index.js";
+import { contentText, parseDataUrl, parseToolArguments } from "../message-utils.js";
+import {
+  chatJsonResponse,
+  chatStreamResponse,
+  createChunk,
+  generateCompletionId,
+  readSseEvents,
+} from "./stream.js";
+
+interface GeminiPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  fileData?: { mimeType?: string; fileUri: string };
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: GeminiContent;
+    finishReason?: string;
+  }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  modelVersion?: string;
+}
+
+// ============= Request Conversion =============
+
+function toGeminiRequest(request: ChatCompletionRequest): Record<string, unknown> {
+  const system: string[] = [];
+  const contents: GeminiContent[] = [];
+  const toolNames = new Map<string, string>();
+
+  // Gemini expects alternating roles, so consecutive parts are merged
+  const append = (role: GeminiContent["role"], parts: GeminiPart[]) => {
+    if (parts.length === 0) return;
+    const previous = contents[contents.length - 1];
+    if (previous && previous.role === role) {
+      previous.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+
+  for (const message of request.messages) {
+    switch (message.role) {
+      case "system":
+        system.push(contentText(message.content));
+        break;
+      case "assistant": {
+        const parts: GeminiPart[] = [];
+        const text = contentText(message.content);
+        if (text) parts.push({ text });
+        for (const call of message.tool_calls ?? []) {
+          toolNames.set(call.id, call.function.name);
+          parts.push({ functionCall: { name: call.function.name, args: parseToolArguments(call.function.arguments) } });
+        }
+        append("model", parts);
+        break;
+      }
+      case "tool": {
+        const text = contentText(message.content);
+        append("user", [{
+          functionResponse: {
+            name: toolNames.get(message.tool_call_id ?? "") ?? message.name ?? "tool",
+            response: { result: parseResult(text) },
+          },
+        }]);
+        break;
+      }
+      default:
+        append("user", toGeminiParts(message.content));
+    }
+  }
+
+  const generationConfig: Record<string, unknown> = {};
+  if (request.temperature !== undefined) generationConfig.temperature = request.temperature;
+  if (request.top_p !== undefined) generationConfig.topP = request.top_p;
+  if (request.max_tokens !== undefined) generationConfig.maxOutputTokens = request.max_tokens;
+  if (request.stop?.length) generationConfig.stopSequences = request.stop;
+  if (request.response_format?.type === "json_object" || request.response_format?.type === "json_schema") {
+    generationConfig.responseMimeType = "application/json";
+  }
+
+  const body: Record<string, unknown> = { contents, generationConfig };
+  if (system.length > 0) {
+    body.systemInstruction = { parts: [{ text: system.join("\n\n") }] };
+  }
+
+  if (request.tools?.length) {
+    body.tools = [{
+      functionDeclarations: request.tools.map((tool) => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        parameters: tool.function.parameters,
+      })),
+    }];
+  }
+
+  if (request.tool_choice) {
+    body.toolConfig = {
+      functionCallingConfig: typeof request.tool_choice === "string"
+        ? { mode: request.tool_choice === "required" ? "ANY" : request.tool_choice === "none" ? "NONE" : "AUTO" }
+        : { mode: "ANY", allowedFunctionNames: [request.tool_choice.function.name] },
+    };
+  }
+
+  return body;
+}
+
+function toGeminiParts(content: ChatMessage["content"]): GeminiPart[] {
+  if (content == null) return [];
+  if (typeof content === "string") {
+    return content ? [{ text: content }] : [];
+  }
+
+  const parts: GeminiPart[] = [];
+  for (const part of content) {
+    if (part.type === "text" && part.text) {
+      parts.push({ text: part.text });
+    } else if (part.type === "image_url" && part.image_url) {
+      const image = parseDataUrl(part.image_url.url);
+      parts.push(image
+        ? { inlineData: { mimeType: image.mediaType, data: image.data } }
+        : { fileData: { fileUri: part.image_url.url } });
+    }
+  }
+  return parts;
+}
+
+function parseResult(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// ============= Response Conversion =============
+
+function toFinishReason(reason: string | undefined, hasToolCalls: boolean): string | null {
+  if (!reason) return null;
+  if (hasToolCalls) return "tool_calls";
+  switch (reason) {
+    case "MAX_TOKENS":
+      return "length";
+    case "SAFETY":
+    case "RECITATION":
+    case "BLOCKLIST":
+    case "PROHIBITED_CONTENT":
+    case "SPII":
+      return "content_filter";
+    default:
+      return "stop";
+  }
+}
+
+function toUsage(data: GeminiResponse): ChatCompletionResponse["usage"] {
+  const promptTokens = data.usageMetadata?.promptTokenCount ?? 0;
+  const completionTokens = data.usageMetadata?.candidatesTokenCount ?? 0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: data.usageMetadata?.totalTokenCount ?? promptTokens + completionTokens,
+  };
+}
+
+function toChatCompletion(data: GeminiResponse, model: string): ChatCompletionResponse {
+  const candidate = data.candidates?.[0];
+  const parts = candidate?.content?.parts ?? [];
+
+  const toolCalls: ToolCall[] = parts
+    .filter((part) => part.functionCall)
+    .map((part, index) => ({
+      id: `call_${index}`,
+      type: "function",
+      function: {
+        name: part.functionCall!.name,
+        arguments: JSON.stringify(part.functionCall!.args ?? {}),
+      },
+    }));
+
+  const message: ChatMessage = {
+    role: "assistant",
+    content: parts.map((part) => part.text ?? "").join(""),
+  };
+  if (toolCalls.length > 0) message.tool_calls = toolCalls;
+
+  return {
+    id: generateCompletionId(),
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: data.modelVersion ?? model,
+    choices: [{
+      index: 0,
+      message,
+      finish_reason: toFinishReason(candidate?.finishReason, toolCalls.length > 0) ?? "stop",
+    }],
+    usage: toUsage(data),
+  };
+}
+
+async function* toChunks(body: ReadableStream<Uint8Array>, model: string): AsyncGenerator<StreamChunk> {
+  const id = generateCompletionId();
+  let toolCount = 0;
+  let started = false;
+
+  for await (const { data } of readSseEvents(body)) {
+    let response: GeminiResponse;
+    try {
+      response = JSON.parse(data) as GeminiResponse;
+    } catch {
+      continue;
+    }
+
+    if (!started) {
+      started = true;
+      yield createChunk(id, model, { role: "assistant", content: "" });
+    }
+
+    const candidate = response.candidates?.[0];
+    for (const part of candidate?.content?.parts ?? []) {
+      if (part.text) {
+        yield createChunk(id, model, { content: part.text });
+      } else if (part.functionCall) {
+        const index = toolCount++;
+        yield createChunk(id, model, {
+          tool_calls: [{
+            index,
+            id: `call_${index}`,
+            type: "function",
+            function: { name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args ?? {}) },
+          }],
+        });
+      }
+    }
+
+    if (candidate?.finishReason) {
+      yield {
+        ...createChunk(id, model, {}, toFinishReason(candidate.finishReason, toolCount > 0)),
+        usage: toUsage(response),
+      };
+    }
+  }
+}
+
+export const geminiAdapter: UpstreamAdapter = {
+  buildRequest(provider, request) {
+    const method = request.stream ? "streamGenerateContent?alt=sse" : "generateContent";
+    return {
+      url: `${provider.baseUrl}/models/${provider.model}:${method}`,
+      headers: {
+        "Content-Type": "application/json",
+        "x-goog-api-key": provider.apiKey,
+      },
+      body: toGeminiRequest(request),
+    };
+  },
+
+  async toChatResponse(response, request) {
+    if (request.stream && response.body) {
+      return chatStreamResponse(toChunks(response.body, request.model), response.status);
+    }
+
+    const data = await response.json() as GeminiResponse;
+    return chatJsonResponse(toChatCompletion(data, request.model), response.status);
+  },
+};
@@ -0,0 +1,50 @@
+/**
+ * Upstream Adapters
+ *
+ * Each adapter converts internal OpenAI chat completion requests into an
+ * upstream's native wire format, and converts its responses and stream
+ * chunks back. The adapter is selected by ProviderConfig.api.
+ */
+
+import type { ChatCompletionRequest, ProviderApi, ProviderConfig } from "../types.js";
+import { openaiAdapter } from "./openai.js";
+import { anthropicAdapter } from "./anthropic.js";
+import { geminiAdapter } from "./gemini.js";
+import { ollamaAdapter } from "./ollama.js";
+
+export interface UpstreamRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface UpstreamAdapter {
+  /**
+   * Build the native HTTP request for a chat completion
+   */
+  buildRequest(provider: ProviderConfig, request: ChatCompletionRequest): UpstreamRequest;
+
+  /**
+   * Convert a successful native response into an OpenAI-compatible one
+   * (JSON, or `data:` SSE frames when the request was streaming)
+   */
+  toChatResponse(response: Response, request: ChatCompletionRequest): Response | Promise<Response>;
+}
+
+const ADAPTERS: Record<ProviderApi, UpstreamAdapter> = {
+  "openai-completions": openaiAdapter,
+  "anthropic-messages": anthropicAdapter,
+  "google-generative-ai": geminiAdapter,
+  "ollama": ollamaAdapter,
+};
+
+/**
+ * Get the adapter for a provider's API, defaulting to OpenAI-compatible
+ */
+export function getAdapter(api: ProviderApi | undefined): UpstreamAdapter {
+  const adapter = ADAPTERS[api ?? "openai-completions"];
+  if (!adapter) {
+    throw new Error(`Unsupported provider api: ${api}`);
+  }
+  return adapter;
+}
@@ -0,0 +1,189 @@
+/**
+ * Ollama native chat adapter (/api/chat)
+ */
+
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  StreamChunk,
+  ToolCall,
+} from "../types.js";
+import type { UpstreamAdapter } from "./index.js";
+import { contentText, parseDataUrl, parseToolArguments } from "../message-utils.js";
+import {
+  chatJsonResponse,
+  chatStreamResponse,
+  createChunk,
+  generateCompletionId,
+  readLines,
+} from "./stream.js";
+
+interface OllamaMessage {
+  role: string;
+  content: string;
+  images?: string[];
+  tool_calls?: Array<{ function: { name: string; arguments: Record<string, unknown> } }>;
+}
+
+interface OllamaChatResponse {
+  model?: string;
+  message?: OllamaMessage;
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+// ============= Request Conversion =============
+
+function toOllamaRequest(request: ChatCompletionRequest, model: string): Record<string, unknown> {
+  const messages: OllamaMessage[] = request.messages.map((message) => {
+    const converted: OllamaMessage = {
+      role: message.role,
+      content: contentText(message.content),
+    };
+
+    if (Array.isArray(message.content)) {
+      const images = message.content
+        .map((part) => (part.image_url ? parseDataUrl(part.image_url.url)?.data : undefined))
+        .filter((data): data is string => !!data);
+      if (images.length > 0) converted.images = images;
+    }
+
+    if (message.tool_calls?.length) {
+      converted.tool_calls = message.tool_calls.map((call) => ({
+        function: { name: call.function.name, arguments: parseToolArguments(call.function.arguments) },
+      }));
+    }
+
+    return converted;
+  });
+
+  const options: Record<string, unknown> = {};
+  if (request.temperature !== undefined) options.temperature = request.temperature;
+  if (request.top_p !== undefined) options.top_p = request.top_p;
+  if (request.max_tokens !== undefined) options.num_predict = request.max_tokens;
+  if (request.stop?.length) options.stop = request.stop;
+  if (request.frequency_penalty !== undefined) options.frequency_penalty = request.frequency_penalty;
+  if (request.presence_penalty !== undefined) options.presence_penalty = request.presence_penalty;
+
+  const body: Record<string, unknown> = {
+    model,
+    messages,
+    stream: request.stream ?? false,
+    options,
+  };
+
+  if (request.tools?.length) body.tools = request.tools;
+  if (request.response_format?.type === "json_object" || request.response_format?.type === "json_schema") {
+    body.format = "json";
+  }
+
+  return body;
+}
+
+// ============= Response Conversion =============
+
+function toToolCalls(message: OllamaMessage | undefined): ToolCall[] {
+  return (message?.tool_calls ?? []).map((call, index) => ({
+    id: `call_${index}`,
+    type: "function",
+    function: {
+      name: call.function.name,
+      arguments: JSON.stringify(call.function.arguments ?? {}),
+    },
+  }));
+}
+
+function toFinishReason(data: OllamaChatResponse, hasToolCalls: boolean): string {
+  if (hasToolCalls) return "tool_calls";
+  return data.done_reason === "length" ? "length" : "stop";
+}
+
+function toUsage(data: OllamaChatResponse): ChatCompletionResponse["usage"] {
+  const promptTokens = data.prompt_eval_count ?? 0;
+  const completionTokens = data.eval_count ?? 0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+}
+
+function toChatCompletion(data: OllamaChatResponse, model: string): ChatCompletionResponse {
+  const toolCalls = toToolCalls(data.message);
+  const message: ChatMessage = { role: "assistant", content: data.message?.content ?? "" };
+  if (toolCalls.length > 0) message.tool_calls = toolCalls;
+
+  return {
+    id: generateCompletionId(),
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: data.model ?? model,
+    choices: [{ index: 0, message, finish_reason: toFinishReason(data, toolCalls.length > 0) }],
+    usage: toUsage(data),
+  };
+}
+
+async function* toChunks(body: ReadableStream<Uint8Array>, model: string): AsyncGenerator<StreamChunk> {
+  const id = generateCompletionId();
+  let toolCount = 0;
+  let started = false;
+
+  for await (const line of readLines(body)) {
+    let data: OllamaChatResponse;
+    try {
+      data = JSON.parse(line) as OllamaChatResponse;
+    } catch {
+      continue;
+    }
+
+    if (!started) {
+      started = true;
+      yield createChunk(id, model, { role: "assistant", content: "" });
+    }
+
+    if (data.message?.content) {
+      yield createChunk(id, model, { content: data.message.content });
+    }
+
+    for (const call of toToolCalls(data.message)) {
+      const index = toolCount++;
+      yield createChunk(id, model, {
+        tool_calls: [{ index, id: `call_${index}`, type: "function", function: call.function }],
+      });
+    }
+
+    if (data.done) {
+      yield {
+        ...createChunk(id, model, {}, toFinishReason(data, toolCount > 0)),
+        usage: toUsage(data),
+      };
+    }
+  }
+}
+
+export const ollamaAdapter: UpstreamAdapter = {
+  buildRequest(provider, request) {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (provider.apiKey) {
+      headers["Authorization"] = `Bearer ${provider.apiKey}`;
+    }
+
+    return {
+      url: `${provider.baseUrl}/api/chat`,
+      headers,
+      body: toOllamaRequest(request, provider.model),
+    };
+  },
+
+  async toChatResponse(response, request) {
+    if (request.stream && response.body) {
+      return chatStreamResponse(toChunks(response.body, request.model), response.status);
+    }
+
+    const data = await response.json() as OllamaChatResponse;
+    return chatJsonResponse(toChatCompletion(data, request.model), response.status);
+  },
+};
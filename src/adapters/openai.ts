@@ -0,0 +1,22 @@
+/**
+ * OpenAI-compatible adapter (passthrough)
+ */
+
+import type { UpstreamAdapter } from "./index.js";
+
+export const openaiAdapter: UpstreamAdapter = {
+  buildRequest(provider, request) {
+    return {
+      url: `${provider.baseUrl}/chat/completions`,
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${provider.apiKey}`,
+      },
+      body: request,
+    };
+  },
+
+  toChatResponse(response) {
+    return response;
+  },
+};
@@ -0,0 +1,112 @@
+/**
+ * Stream helpers shared by the upstream adapters
+ *
+ * Reads line-delimited and SSE bodies, and re-encodes converted chunks as
+ * OpenAI-style `data:` frames so the proxy only ever sees one format.
+ */
+
+import type { ChatCompletionResponse, StreamChunk } from "../types.js";
+
+/**
+ * Yield each non-empty line of a streamed body
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (line.trim()) yield line;
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) yield buffer;
+}
+
+/**
+ * Yield server-sent events as { event, data } pairs
+ */
+export async function* readSseEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event?: string; data: string }> {
+  let event: string | undefined;
+
+  for await (const line of readLines(body)) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("event:")) {
+      event = trimmed.slice(6).trim();
+    } else if (trimmed.startsWith("data:")) {
+      yield { event, data: trimmed.slice(5).trim() };
+      event = undefined;
+    }
+  }
+}
+
+/**
+ * Build a chat completion chunk
+ */
+export function createChunk(
+  id: string,
+  model: string,
+  delta: StreamChunk["choices"][number]["delta"],
+  finishReason: string | null = null
+): StreamChunk {
+  return {
+    id,
+    object: "chat.completion.chunk",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+/**
+ * Wrap converted chunks in an OpenAI-style SSE response
+ */
+export function chatStreamResponse(chunks: AsyncIterable<StreamChunk>, status: number): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const chunk of chunks) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+        }
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+
+  return new Response(stream, {
+    status,
+    headers: { "Content-Type": "text/event-stream" },
+  });
+}
+
+/**
+ * Wrap a converted completion in a JSON response
+ */
+export function chatJsonResponse(data: ChatCompletionResponse, status: number): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Generate an ID for completions synthesized from non-OpenAI upstreams
+ */
+export function generateCompletionId(): string {
+  return `chatcmpl-${Date.now()}${Math.random().toString(36).substr(2, 6)}`;
+}
@@ -0,0 +1,659 @@
+/**
+ * Anthropic Messages API Translation
+ *
+ * Converts Anthropic Messages requests into the internal OpenAI chat
+ * completion shape, and converts responses and stream chunks back.
+ * The reverse direction is used by the native Anthropic upstream adapter.
+ */
+
+import type {
+  AnthropicContentBlock,
+  AnthropicImageBlock,
+  AnthropicMessagesRequest,
+  AnthropicMessagesResponse,
+  AnthropicStopReason,
+  AnthropicStreamEvent,
+  AnthropicTextBlock,
+  AnthropicToolUseBlock,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  StreamChunk,
+  ToolCall,
+  ToolCallDelta,
+} from "./types.js";
+import { contentText, parseDataUrl, parseToolArguments } from "./message-utils.js";
+
+type ContentPart = Exclude<ChatMessage["content"], string | null>[number];
+
+// ============= Request Translation =============
+
+/**
+ * Convert an Anthropic Messages request into a chat completion request.
+ * Throws when `system` or a message's `content` is neither a string nor
+ * an array of blocks.
+ */
+export function anthropicToChatRequest(request: AnthropicMessagesRequest): ChatCompletionRequest {
+  if (request.system !== undefined && typeof request.system !== "string" && !Array.isArray(request.system)) {
+    throw new Error("system must be a string or an array of content blocks");
+  }
+  request.messages.forEach((message, index) => {
+    if (typeof message?.content !== "string" && !Array.isArray(message?.content)) {
+      throw new Error(`messages.${index}.content must be a string or an array of content blocks`);
+    }
+  });
+
+  const messages: ChatMessage[] = [];
+
+  if (request.system) {
+    const system = typeof request.system === "string"
+      ? request.system
+      : request.system.map((block) => block.text).join("\n");
+    if (system) {
+      messages.push({ role: "system", content: system });
+    }
+  }
+
+  for (const message of request.messages) {
+    if (typeof message.content === "string") {
+      messages.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === "assistant") {
+      messages.push(convertAssistantBlocks(message.content));
+    } else {
+      messages.push(...convertUserBlocks(message.content));
+    }
+  }
+
+  const chatRequest: ChatCompletionRequest = {
+    model: request.model,
+    messages,
+    max_tokens: request.max_tokens,
+    stream: request.stream,
+  };
+
+  if (request.temperature !== undefined) chatRequest.temperature = request.temperature;
+  if (request.top_p !== undefined) chatRequest.top_p = request.top_p;
+  if (request.stop_sequences?.length) chatRequest.stop = request.stop_sequences;
+  if (request.metadata?.user_id) chatRequest.user = request.metadata.user_id;
+
+  if (request.tools?.length) {
+    chatRequest.tools = request.tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description ?? "",
+        parameters: tool.input_schema,
+      },
+    }));
+  }
+
+  if (request.tool_choice) {
+    switch (request.tool_choice.type) {
+      case "any":
+        chatRequest.tool_choice = "required";
+        break;
+      case "tool":
+        chatRequest.tool_choice = { type: "function", function: { name: request.tool_choice.name ?? "" } };
+        break;
+      default:
+        chatRequest.tool_choice = request.tool_choice.type;
+    }
+  }
+
+  return chatRequest;
+}
+
+/**
+ * Assistant blocks become one message: text content plus tool calls
+ */
+function convertAssistantBlocks(blocks: AnthropicContentBlock[]): ChatMessage {
+  const text = blocks
+    .filter((block): block is AnthropicTextBlock => block.type === "text")
+    .map((block) => block.text)
+    .join("");
+
+  const toolCalls: ToolCall[] = blocks
+    .filter((block): block is AnthropicToolUseBlock => block.type === "tool_use")
+    .map((block) => ({
+      id: block.id,
+      type: "function",
+      function: {
+        name: block.name,
+        arguments: JSON.stringify(block.input ?? {}),
+      },
+    }));
+
+  const message: ChatMessage = { role: "assistant", content: text };
+  if (toolCalls.length > 0) {
+    message.tool_calls = toolCalls;
+  }
+  return message;
+}
+
+/**
+ * User blocks become tool messages (one per tool_result) followed by a
+ * user message carrying any text and image parts
+ */
+function convertUserBlocks(blocks: AnthropicContentBlock[]): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  const parts: ContentPart[] = [];
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case "tool_result": {
+        const content = typeof block.content === "string"
+          ? block.content
+          : (block.content ?? [])
+              .map((inner) => (inner.type === "text" ? inner.text : "[image]"))
+              .join("\n");
+        messages.push({
+          role: "tool",
+          tool_call_id: block.tool_use_id,
+          content: block.is_error ? `Error: ${content}` : content,
+        });
+        break;
+      }
+      case "text":
+        parts.push({ type: "text", text: block.text });
+        break;
+      case "image":
+        parts.push({ type: "image_url", image_url: { url: imageBlockUrl(block) } });
+        break;
+    }
+  }
+
+  if (parts.length > 0) {
+    const textOnly = parts.every((part) => part.type === "text");
+    messages.push({
+      role: "user",
+      content: textOnly ? parts.map((part) => part.text).join("\n") : parts,
+    });
+  }
+
+  return messages;
+}
+
+function imageBlockUrl(block: AnthropicImageBlock): string {
+  return block.source.type === "base64"
+    ? `data:${block.source.media_type};base64,${block.source.data}`
+    : block.source.url;
+}
+
+// ============= Response Translation =============
+
+/**
+ * Anthropic error type for an HTTP status
+ */
+export function anthropicErrorType(status: number): string {
+  switch (status) {
+    case 400:
+      return "invalid_request_error";
+    case 401:
+      return "authentication_error";
+    case 403:
+      return "permission_error";
+    case 429:
+      return "rate_limit_error";
+    default:
+      return "api_error";
+  }
+}
+
+/**
+ * Map an OpenAI finish_reason onto an Anthropic stop_reason
+ */
+export function toAnthropicStopReason(finishReason: string | null | undefined): AnthropicStopReason | null {
+  switch (finishReason) {
+    case "stop":
+      return "end_turn";
+    case "length":
+      return "max_tokens";
+    case "tool_calls":
+    case "function_call":
+      return "tool_use";
+    case "content_filter":
+      return "refusal";
+    case null:
+    case undefined:
+      return null;
+    default:
+      return "end_turn";
+  }
+}
+
+/**
+ * Convert a chat completion response into an Anthropic Messages response
+ */
+export function chatResponseToAnthropic(
+  response: ChatCompletionResponse,
+  model: string
+): AnthropicMessagesResponse {
+  const choice = response.choices?.[0];
+  const content: AnthropicMessagesResponse["content"] = [];
+
+  const text = choice?.message?.content ? contentText(choice.message.content) : "";
+  if (text) {
+    content.push({ type: "text", text });
+  }
+
+  for (const call of choice?.message?.tool_calls ?? []) {
+    content.push({
+      type: "tool_use",
+      id: call.id,
+      name: call.function.name,
+      input: parseToolArguments(call.function.arguments),
+    });
+  }
+
+  return {
+    id: toMessageId(response.id),
+    type: "message",
+    role: "assistant",
+    model,
+    content,
+    stop_reason: toAnthropicStopReason(choice?.finish_reason),
+    stop_sequence: null,
+    usage: {
+      input_tokens: response.usage?.prompt_tokens ?? 0,
+      output_tokens: response.usage?.completion_tokens ?? 0,
+    },
+  };
+}
+
+function toMessageId(id: string | undefined): string {
+  return id?.startsWith("msg_") ? id : `msg_${id ?? Date.now().toString(36)}`;
+}
+
+// ============= Stream Translation =============
+
+/**
+ * Turns a sequence of chat completion chunks into Anthropic stream events.
+ * Feed every chunk to push(), then call finish() once the stream ends.
+ */
+export class AnthropicStreamTranslator {
+  private model: string;
+  private messageId: string;
+  private started = false;
+  private blockIndex = -1;
+  private openBlock: { kind: "text" } | { kind: "tool"; toolIndex: number } | null = null;
+  private stopReason: AnthropicStopReason | null = null;
+  private inputTokens = 0;
+  private outputTokens = 0;
+
+  /**
+   * `inputTokens` estimates the prompt for message_start, which is sent
+   * before the upstream reports usage
+   */
+  constructor(model: string, messageId: string, inputTokens = 0) {
+    this.model = model;
+    this.messageId = toMessageId(messageId);
+    this.inputTokens = inputTokens;
+  }
+
+  /**
+   * Translate one chunk into zero or more events
+   */
+  push(chunk: StreamChunk): AnthropicStreamEvent[] {
+    const events: AnthropicStreamEvent[] = this.ensureStarted();
+
+    if (chunk.usage) {
+      this.inputTokens = chunk.usage.prompt_tokens ?? this.inputTokens;
+      this.outputTokens = chunk.usage.completion_tokens ?? this.outputTokens;
+    }
+
+    const choice = chunk.choices?.[0];
+    if (!choice) return events;
+
+    const delta = choice.delta ?? {};
+    if (typeof delta.content === "string" && delta.content.length > 0) {
+      if (this.openBlock?.kind !== "text") {
+        events.push(...this.closeBlock());
+        this.blockIndex++;
+        this.openBlock = { kind: "text" };
+        events.push({
+          type: "content_block_start",
+          index: this.blockIndex,
+          content_block: { type: "text", text: "" },
+        });
+      }
+      events.push({
+        type: "content_block_delta",
+        index: this.blockIndex,
+        delta: { type: "text_delta", text: delta.content },
+      });
+    }
+
+    for (const call of delta.tool_calls ?? []) {
+      const toolIndex = call.index;
+      if (this.openBlock?.kind !== "tool" || this.openBlock.toolIndex !== toolIndex) {
+        events.push(...this.closeBlock());
+        this.blockIndex++;
+        this.openBlock = { kind: "tool", toolIndex };
+        events.push({
+          type: "content_block_start",
+          index: this.blockIndex,
+          content_block: {
+            type: "tool_use",
+            id: call.id ?? `toolu_${this.messageId}_${toolIndex}`,
+            name: call.function?.name ?? "",
+            input: {},
+          },
+        });
+      }
+      if (call.function?.arguments) {
+        events.push({
+          type: "content_block_delta",
+          index: this.blockIndex,
+          delta: { type: "input_json_delta", partial_json: call.function.arguments },
+        });
+      }
+    }
+
+    if (choice.finish_reason && this.stopReason === null) {
+      this.stopReason = toAnthropicStopReason(choice.finish_reason);
+    }
+
+    return events;
+  }
+
+  /**
+   * Close any open block and emit the terminal message events
+   */
+  finish(): AnthropicStreamEvent[] {
+    const events = [...this.ensureStarted(), ...this.closeBlock()];
+    events.push({
+      type: "message_delta",
+      delta: { stop_reason: this.stopReason ?? "end_turn", stop_sequence: null },
+      usage: { input_tokens: this.inputTokens, output_tokens: this.outputTokens },
+    });
+    events.push({ type: "message_stop" });
+    return events;
+  }
+
+  private ensureStarted(): AnthropicStreamEvent[] {
+    if (this.started) return [];
+    this.started = true;
+    return [{
+      type: "message_start",
+      message: {
+        id: this.messageId,
+        type: "message",
+        role: "assistant",
+        model: this.model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { input_tokens: this.inputTokens, output_tokens: 0 },
+      },
+    }];
+  }
+
+  private closeBlock(): AnthropicStreamEvent[] {
+    if (!this.openBlock) return [];
+    this.openBlock = null;
+    return [{ type: "content_block_stop", index: this.blockIndex }];
+  }
+}
+
+// ============= Upstream Direction =============
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Convert a chat completion request into an Anthropic Messages request
+ */
+export function chatRequestToAnthropic(request: ChatCompletionRequest, model: string): AnthropicMessagesRequest {
+  const system: string[] = [];
+  const messages: AnthropicMessagesRequest["messages"] = [];
+
+  // Anthropic requires alternating roles, so consecutive blocks of the
+  // same role (e.g. several tool results) are merged into one message
+  const append = (role: "user" | "assistant", blocks: AnthropicContentBlock[]) => {
+    if (blocks.length === 0) return;
+    const previous = messages[messages.length - 1];
+    if (previous && previous.role === role && Array.isArray(previous.content)) {
+      previous.content.push(...blocks);
+    } else {
+      messages.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of request.messages) {
+    switch (message.role) {
+      case "system":
+        system.push(contentText(message.content));
+        break;
+      case "tool":
+        append("user", [{
+          type: "tool_result",
+          tool_use_id: message.tool_call_id ?? "",
+          content: contentText(message.content),
+        }]);
+        break;
+      case "assistant": {
+        const blocks: AnthropicContentBlock[] = [];
+        const text = contentText(message.content);
+        if (text) blocks.push({ type: "text", text });
+        for (const call of message.tool_calls ?? []) {
+          blocks.push({
+            type: "tool_use",
+            id: call.id,
+            name: call.function.name,
+            input: parseToolArguments(call.function.arguments),
+          });
+        }
+        append("assistant", blocks);
+        break;
+      }
+      default:
+        append("user", toAnthropicBlocks(message.content));
+    }
+  }
+
+  const anthropicRequest: AnthropicMessagesRequest = {
+    model,
+    messages,
+    max_tokens: request.max_tokens ?? DEFAULT_MAX_TOKENS,
+  };
+
+  if (system.length > 0) anthropicRequest.system = system.join("\n\n");
+  if (request.stream) anthropicRequest.stream = true;
+  if (request.temperature !== undefined) anthropicRequest.temperature = request.temperature;
+  if (request.top_p !== undefined) anthropicRequest.top_p = request.top_p;
+  if (request.stop?.length) anthropicRequest.stop_sequences = request.stop;
+
+  if (request.tools?.length) {
+    anthropicRequest.tools = request.tools.map((tool) => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters,
+    }));
+  }
+
+  if (request.tool_choice) {
+    if (typeof request.tool_choice === "string") {
+      anthropicRequest.tool_choice = {
+        type: request.tool_choice === "required" ? "any" : request.tool_choice === "none" ? "none" : "auto",
+      };
+    } else {
+      anthropicRequest.tool_choice = { type: "tool", name: request.tool_choice.function.name };
+    }
+  }
+
+  return anthropicRequest;
+}
+
+/**
+ * Convert OpenAI content (string or parts) into Anthropic blocks
+ */
+function toAnthropicBlocks(content: ChatMessage["content"]): AnthropicContentBlock[] {
+  if (content == null) return [];
+  if (typeof content === "string") {
+    return content ? [{ type: "text", text: content }] : [];
+  }
+
+  const blocks: AnthropicContentBlock[] = [];
+  for (const part of content) {
+    if (part.type === "text" && part.text) {
+      blocks.push({ type: "text", text: part.text });
+    } else if (part.type === "image_url" && part.image_url) {
+      const image = parseDataUrl(part.image_url.url);
+      blocks.push({
+        type: "image",
+        source: image
+          ? { type: "base64", media_type: image.mediaType, data: image.data }
+          : { type: "url", url: part.image_url.url },
+      });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Map an Anthropic stop_reason onto an OpenAI finish_reason
+ */
+export function fromAnthropicStopReason(stopReason: string | null | undefined): string | null {
+  switch (stopReason) {
+    case "max_tokens":
+      return "length";
+    case "tool_use":
+      return "tool_calls";
+    case "refusal":
+      return "content_filter";
+    case null:
+    case undefined:
+      return null;
+    default:
+      return "stop";
+  }
+}
+
+/**
+ * Convert an Anthropic Messages response into a chat completion response
+ */
+export function anthropicResponseToChat(response: AnthropicMessagesResponse): ChatCompletionResponse {
+  const text = response.content
+    .filter((block): block is AnthropicTextBlock => block.type === "text")
+    .map((block) => block.text)
+    .join("");
+
+  const toolCalls: ToolCall[] = response.content
+    .filter((block): block is AnthropicToolUseBlock => block.type === "tool_use")
+    .map((block) => ({
+      id: block.id,
+      type: "function",
+      function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+    }));
+
+  const message: ChatMessage = { role: "assistant", content: text };
+  if (toolCalls.length > 0) message.tool_calls = toolCalls;
+
+  const inputTokens = response.usage?.input_tokens ?? 0;
+  const outputTokens = response.usage?.output_tokens ?? 0;
+
+  return {
+    id: response.id,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: response.model,
+    choices: [{
+      index: 0,
+      message,
+      finish_reason: fromAnthropicStopReason(response.stop_reason) ?? "stop",
+    }],
+    usage: {
+      prompt_tokens: inputTokens,
+      completion_tokens: outputTokens,
+      total_tokens: inputTokens + outputTokens,
+    },
+  };
+}
+
+/**
+ * Convert a stream of Anthropic events into chat completion chunks
+ */
+export async function* anthropicEventsToChunks(
+  events: AsyncIterable<{ data: string }>,
+  fallbackModel: string
+): AsyncGenerator<StreamChunk> {
+  let id = "";
+  let model = fallbackModel;
+  let inputTokens = 0;
+  let toolCount = 0;
+  const toolIndexByBlock = new Map<number, number>();
+
+  const chunk = (
+    delta: StreamChunk["choices"][number]["delta"],
+    finishReason: string | null = null
+  ): StreamChunk => ({
+    id,
+    object: "chat.completion.chunk",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  for await (const { data } of events) {
+    let event: AnthropicStreamEvent;
+    try {
+      event = JSON.parse(data) as AnthropicStreamEvent;
+    } catch {
+      continue;
+    }
+
+    switch (event.type) {
+      case "message_start":
+        id = event.message.id;
+        model = event.message.model ?? model;
+        inputTokens = event.message.usage?.input_tokens ?? 0;
+        yield chunk({ role: "assistant", content: "" });
+        break;
+      case "content_block_start":
+        if (event.content_block.type === "tool_use") {
+          const toolIndex = toolCount++;
+          toolIndexByBlock.set(event.index, toolIndex);
+          const call: ToolCallDelta = {
+            index: toolIndex,
+            id: event.content_block.id,
+            type: "function",
+            function: { name: event.content_block.name, arguments: "" },
+          };
+          yield chunk({ tool_calls: [call] });
+        }
+        break;
+      case "content_block_delta":
+        // Thinking and signature deltas have no chat completion equivalent
+        if (event.delta.type === "text_delta") {
+          yield chunk({ content: event.delta.text });
+        } else if (event.delta.type === "input_json_delta") {
+          const toolIndex = toolIndexByBlock.get(event.index);
+          if (toolIndex !== undefined) {
+            yield chunk({ tool_calls: [{ index: toolIndex, function: { arguments: event.delta.partial_json } }] });
+          }
+        }
+        break;
+      case "message_delta": {
+        const outputTokens = event.usage?.output_tokens ?? 0;
+        yield {
+          ...chunk({}, fromAnthropicStopReason(event.delta.stop_reason) ?? "stop"),
+          usage: {
+            prompt_tokens: inputTokens,
+            completion_tokens: outputTokens,
+            total_tokens: inputTokens + outputTokens,
+          },
+        };
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Format an event as an SSE frame
+ */
+export function formatAnthropicEvent(event: AnthropicStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
@@ -0,0 +1,354 @@
+/**
+ * Spend Budgets
+ *
+ * Tracks spend against daily and monthly limits, globally, per tier and per
+ * user. Spend is persisted so limits survive restarts; writes are batched
+ * off the request path and replace the state file atomically. As a shared budget
+ * nears exhaustion routing is capped at MID, then LOW, then refused; an
+ * exhausted tier budget steps the request down to the next cheaper tier.
+ * Ladders without MID or LOW cap one tier below the top, then at the
+ * cheapest tier.
+ */
+
+import type {
+  BudgetLimits,
+  BudgetPeriod,
+  BudgetStatus,
+  BudgetUsage,
+  BudgetsConfig,
+  RouteTier,
+} from "./types.js";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { LOG_DIR } from "./logger.js";
+import { BudgetExceededError } from "./errors.js";
+import { formatUsd } from "./pricing.js";
+import { DEFAULT_TIER_ORDER } from "./tiers.js";
+
+const BUDGET_FILE = join(LOG_DIR, "budget.json");
+
+const PERIODS: BudgetPeriod[] = ["daily", "monthly"];
+
+// Recorded spend is written at most this often
+const SAVE_DELAY_MS = 1000;
+
+// Trackers holding spend not yet written, flushed when the process exits
+const unsaved = new Set<BudgetTracker>();
+process.on("exit", () => {
+  for (const tracker of unsaved) tracker.flush();
+});
+
+interface SpendTotals {
+  global: number;
+  tiers: Partial<Record<RouteTier, number>>;
+  users: Record<string, number>;
+}
+
+interface BudgetState {
+  day: string; // YYYY-MM-DD, UTC
+  month: string; // YYYY-MM, UTC
+  daily: SpendTotals;
+  monthly: SpendTotals;
+}
+
+export interface BudgetCeiling {
+  tier: RouteTier;
+  reasons: string[];
+}
+
+export class BudgetTracker {
+  private config: BudgetsConfig;
+  private logger: { warn: (msg: string) => void };
+  private statePath: string;
+  private state: BudgetState;
+  private order: RouteTier[]; // cheapest first
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    config: BudgetsConfig = {},
+    logger: { warn: (msg: string) => void },
+    statePath = BUDGET_FILE,
+    order: RouteTier[] = DEFAULT_TIER_ORDER
+  ) {
+    this.config = config;
+    this.logger = logger;
+    this.statePath = statePath;
+    this.order = order;
+    this.state = this.load();
+  }
+
+  /**
+   * Whether any limit is configured
+   */
+  isEnabled(): boolean {
+    const { global, tiers, users, defaultUser } = this.config;
+    return hasLimit(global) ||
+      hasLimit(defaultUser) ||
+      Object.values(tiers ?? {}).some(hasLimit) ||
+      Object.values(users ?? {}).some(hasLimit);
+  }
+
+  /**
+   * Highest tier at or below `tier`, among `allowed`, that the budgets allow
+   * for a request. Throws BudgetExceededError when no tier has headroom left.
+   */
+  ceiling(tier: RouteTier, userId?: string, allowed: RouteTier[] = this.order): BudgetCeiling {
+    this.rollover();
+    const reasons: string[] = [];
+
+    const shared = [...this.usageFor("global", this.config.global), ...this.userUsage(userId)];
+    const exhausted = shared.find((usage) => usage.fraction >= 1);
+    if (exhausted) {
+      throw new BudgetExceededError(
+        `${describeUsage(exhausted)} budget exhausted (${formatUsd(exhausted.spent)} of ${formatUsd(exhausted.limit)})`,
+        secondsUntilReset(exhausted.period)
+      );
+    }
+
+    let index = this.order.indexOf(tier);
+    const tightest = shared.reduce<BudgetUsage | undefined>(
+      (max, usage) => (!max || usage.fraction > max.fraction ? usage : max),
+      undefined
+    );
+    if (tightest) {
+      const cap = tightest.fraction >= (this.config.capLowAt ?? 0.95) ? this.capTier("low", 0)
+        : tightest.fraction >= (this.config.capMidAt ?? 0.8) ? this.capTier("mid", this.order.length - 2)
+        : this.order[this.order.length - 1];
+      if (this.order.indexOf(cap) < index) {
+        index = this.order.indexOf(cap);
+        reasons.push(`${describeUsage(tightest)} budget ${Math.round(tightest.fraction * 100)}% used -> cap ${cap.toUpperCase()}`);
+      }
+    }
+
+    let retryAfter = secondsUntilReset("daily");
+    for (; index >= 0; index--) {
+      const candidate = this.order[index];
+      if (!allowed.includes(candidate)) continue;
+      const spent = this.usageFor(`tier:${candidate}`, this.config.tiers?.[candidate])
+        .find((usage) => usage.fraction >= 1);
+      if (!spent) {
+        return { tier: candidate, reasons };
+      }
+      reasons.push(`${describeUsage(spent)} budget exhausted`);
+      retryAfter = Math.min(retryAfter, secondsUntilReset(spent.period));
+    }
+
+    throw new BudgetExceededError(`No tier has budget left (${reasons.join("; ")})`, retryAfter);
+  }
+
+  /**
+   * Add a request's cost to every matching budget. It is persisted within
+   * SAVE_DELAY_MS, or by flush().
+   */
+  record(tier: RouteTier, cost: number, userId?: string): void {
+    if (cost <= 0) return;
+    this.rollover();
+
+    for (const period of PERIODS) {
+      const totals = this.state[period];
+      totals.global += cost;
+      totals.tiers[tier] = (totals.tiers[tier] ?? 0) + cost;
+      if (userId) {
+        totals.users[userId] = (totals.users[userId] ?? 0) + cost;
+      }
+    }
+
+    this.scheduleSave();
+  }
+
+  /**
+   * Current spend against every configured limit
+   */
+  getStatus(): BudgetStatus {
+    this.rollover();
+
+    const usage = [...this.usageFor("global", this.config.global)];
+    for (const tier of [...this.order].reverse()) {
+      usage.push(...this.usageFor(`tier:${tier}`, this.config.tiers?.[tier]));
+    }
+
+    const users = new Set([
+      ...Object.keys(this.config.users ?? {}),
+      ...(this.config.defaultUser ? Object.keys(this.state.monthly.users) : []),
+    ]);
+    for (const userId of users) {
+      usage.push(...this.userUsage(userId));
+    }
+
+    let maxTier: RouteTier | null;
+    try {
+      maxTier = this.ceiling(this.order[this.order.length - 1]).tier;
+    } catch {
+      maxTier = null;
+    }
+
+    return { day: this.state.day, month: this.state.month, maxTier, usage };
+  }
+
+  /**
+   * Format budget status for display
+   */
+  formatStatus(): string {
+    const status = this.getStatus();
+    if (status.usage.length === 0) {
+      return "**Budgets:** none configured";
+    }
+
+    return [
+      `**Budgets** (${status.day} UTC)`,
+      ...status.usage.map((usage) =>
+        `- ${describeUsage(usage)}: ${formatUsd(usage.spent)} / ${formatUsd(usage.limit)} ` +
+        `(${Math.round(usage.fraction * 100)}%)`
+      ),
+      `- Highest tier allowed: ${status.maxTier?.toUpperCase() ?? "none (exhausted)"}`,
+    ].join("\n");
+  }
+
+  /**
+   * Re-read persisted spend, picking up changes from other processes.
+   * Spend recorded here is written first.
+   */
+  reload(): void {
+    this.flush();
+    this.state = this.load();
+  }
+
+  /**
+   * Write spend recorded since the last save now
+   */
+  flush(): void {
+    if (!unsaved.has(this)) return;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    unsaved.delete(this);
+    this.save();
+  }
+
+  /**
+   * A budget cap: the named tier when configured, else the tier at
+   * `fallback` in the ladder
+   */
+  private capTier(name: RouteTier, fallback: number): RouteTier {
+    return this.order.includes(name) ? name : this.order[Math.max(0, fallback)];
+  }
+
+  private userUsage(userId: string | undefined): BudgetUsage[] {
+    if (!userId) return [];
+    return this.usageFor(`user:${userId}`, this.config.users?.[userId] ?? this.config.defaultUser);
+  }
+
+  private usageFor(scope: string, limits: BudgetLimits | undefined): BudgetUsage[] {
+    if (!limits) return [];
+
+    const usage: BudgetUsage[] = [];
+    for (const period of PERIODS) {
+      const limit = limits[period];
+      if (limit === undefined) continue;
+      const spent = this.spentFor(scope, period);
+      usage.push({ scope, period, spent, limit, fraction: limit > 0 ? spent / limit : 1 });
+    }
+    return usage;
+  }
+
+  private spentFor(scope: string, period: BudgetPeriod): number {
+    const totals = this.state[period];
+    if (scope === "global") return totals.global;
+    if (scope.startsWith("tier:")) return totals.tiers[scope.slice(5) as RouteTier] ?? 0;
+    return totals.users[scope.slice(5)] ?? 0;
+  }
+
+  /**
+   * Reset totals whose period has ended
+   */
+  private rollover(): void {
+    const now = new Date().toISOString();
+    const day = now.slice(0, 10);
+    const month = now.slice(0, 7);
+
+    if (this.state.day !== day) {
+      this.state.day = day;
+      this.state.daily = emptyTotals();
+    }
+    if (this.state.month !== month) {
+      this.state.month = month;
+      this.state.monthly = emptyTotals();
+    }
+  }
+
+  private load(): BudgetState {
+    const now = new Date().toISOString();
+    const fresh: BudgetState = {
+      day: now.slice(0, 10),
+      month: now.slice(0, 7),
+      daily: emptyTotals(),
+      monthly: emptyTotals(),
+    };
+
+    if (!existsSync(this.statePath)) return fresh;
+
+    try {
+      const saved = JSON.parse(readFileSync(this.statePath, "utf-8")) as Partial<BudgetState>;
+      return {
+        day: saved.day ?? fresh.day,
+        month: saved.month ?? fresh.month,
+        daily: { ...emptyTotals(), ...saved.daily },
+        monthly: { ...emptyTotals(), ...saved.monthly },
+      };
+    } catch (error) {
+      this.logger.warn(`[Helix] Could not read budget state, starting fresh: ${error}`);
+      return fresh;
+    }
+  }
+
+  private scheduleSave(): void {
+    unsaved.add(this);
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  // Written to a temp file and renamed over the state, so a crash mid-write
+  // leaves the previous state intact
+  private save(): void {
+    const temp = `${this.statePath}.${process.pid}.tmp`;
+    try {
+      const dir = dirname(this.statePath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      writeFileSync(temp, JSON.stringify(this.state, null, 2), "utf-8");
+      renameSync(temp, this.statePath);
+    } catch (error) {
+      this.logger.warn(`[Helix] Could not persist budget state: ${error}`);
+    }
+  }
+}
+
+function emptyTotals(): SpendTotals {
+  return { global: 0, tiers: {}, users: {} };
+}
+
+function hasLimit(limits: BudgetLimits | undefined): boolean {
+  return limits?.daily !== undefined || limits?.monthly !== undefined;
+}
+
+function describeUsage(usage: BudgetUsage): string {
+  const scope = usage.scope.startsWith("tier:") ? usage.scope.slice(5).toUpperCase() : usage.scope;
+  return `${scope} ${usage.period}`;
+}
+
+/**
+ * Seconds until a budget period resets (UTC)
+ */
+function secondsUntilReset(period: BudgetPeriod): number {
+  const now = new Date();
+  const reset = period === "daily"
+    ? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+    : Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  return Math.max(1, Math.ceil((reset - now.getTime()) / 1000));
+}
@@ -0,0 +1,73 @@
+/**
+ * Tier Capabilities
+ *
+ * Works out which capabilities a request needs (images, tools, JSON schema
+ * output, reasoning) and which ones each tier offers. Vision and reasoning
+ * use the `input` and `reasoning` fields of the model definitions.
+ */
+
+import type { Capability, ChatCompletionRequest, RouteTier, TierSettings, TiersConfig } from "./types.js";
+
+export const CAPABILITIES: Capability[] = ["vision", "tools", "json_schema", "reasoning"];
+
+// Capabilities used when a tier does not declare its own; other tiers take MID's
+export const DEFAULT_TIER_CAPABILITIES: Record<
+  RouteTier,
+  Required<Pick<TierSettings, "input" | "reasoning" | "tools" | "jsonSchema">>
+> = {
+  pro: { input: ["text", "image"], reasoning: true, tools: true, jsonSchema: true },
+  mid: { input: ["text", "image"], reasoning: false, tools: true, jsonSchema: true },
+  low: { input: ["text"], reasoning: false, tools: true, jsonSchema: false },
+};
+
+/**
+ * Capabilities a request needs from the model that serves it
+ */
+export function requiredCapabilities(request: ChatCompletionRequest): Capability[] {
+  const needs: Capability[] = [];
+
+  const hasImage = request.messages.some((message) =>
+    Array.isArray(message.content) && message.content.some((part) => part.type === "image_url")
+  );
+  if (hasImage) needs.push("vision");
+
+  const usesTools = !!request.tools?.length ||
+    request.messages.some((message) => message.role === "tool" || !!message.tool_calls?.length);
+  if (usesTools) needs.push("tools");
+
+  if (request.response_format?.type === "json_schema") needs.push("json_schema");
+  if (request.reasoning_effort) needs.push("reasoning");
+
+  return needs;
+}
+
+/**
+ * Capabilities a tier offers, falling back to the defaults
+ */
+export function tierCapabilities(tiers: TiersConfig, tier: RouteTier): Capability[] {
+  const defaults = DEFAULT_TIER_CAPABILITIES[tier] ?? DEFAULT_TIER_CAPABILITIES.mid;
+  const settings = { ...defaults, ...definedOnly(tiers[tier]) };
+  const offered: Capability[] = [];
+  if (settings.input.includes("image")) offered.push("vision");
+  if (settings.tools) offered.push("tools");
+  if (settings.jsonSchema) offered.push("json_schema");
+  if (settings.reasoning) offered.push("reasoning");
+  return offered;
+}
+
+/**
+ * Model definition fields (`input`, `reasoning`) for a tier
+ */
+export function tierModelFields(tiers: TiersConfig, tier: RouteTier): { input: string[]; reasoning: boolean } {
+  const offered = tierCapabilities(tiers, tier);
+  return {
+    input: offered.includes("vision") ? ["text", "image"] : ["text"],
+    reasoning: offered.includes("reasoning"),
+  };
+}
+
+function definedOnly(settings: TierSettings | undefined): Partial<TierSettings> {
+  return Object.fromEntries(
+    Object.entries(settings ?? {}).filter(([, value]) => value !== undefined)
+  ) as Partial<TierSettings>;
+}
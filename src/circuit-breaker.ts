@@ -0,0 +1,185 @@
+/**
+ * Circuit Breaker
+ *
+ * Tracks recent outcomes per upstream provider and stops sending traffic
+ * to providers that keep failing or responding too slowly.
+ *
+ * closed    -> normal operation, outcomes are recorded
+ * open      -> provider is skipped until openDurationMs has elapsed
+ * half_open -> a limited number of probe requests decide whether to close
+ */
+
+import type {
+  CircuitBreakerOptions,
+  CircuitState,
+  ProviderConfig,
+  ProviderHealthSnapshot,
+} from "./types.js";
+import { providerLabel } from "./upstream.js";
+
+const DEFAULT_OPTIONS: Required<CircuitBreakerOptions> = {
+  windowSize: 20,
+  minRequests: 5,
+  failureRateThreshold: 0.5,
+  slowCallMs: 30000,
+  openDurationMs: 30000,
+  halfOpenMaxCalls: 1,
+};
+
+interface Outcome {
+  ok: boolean;
+  latencyMs: number;
+}
+
+export class CircuitBreaker {
+  private options: Required<CircuitBreakerOptions>;
+  private state: CircuitState = "closed";
+  private outcomes: Outcome[] = [];
+  private openedAt = 0;
+  private halfOpenInFlight = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Current state, moving open -> half_open once the cool-down has passed
+   */
+  getState(): CircuitState {
+    if (this.state === "open" && Date.now() - this.openedAt >= this.options.openDurationMs) {
+      this.state = "half_open";
+      this.halfOpenInFlight = 0;
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a request could be sent right now (does not reserve a probe slot)
+   */
+  isAvailable(): boolean {
+    const state = this.getState();
+    if (state === "closed") return true;
+    if (state === "half_open") return this.halfOpenInFlight < this.options.halfOpenMaxCalls;
+    return false;
+  }
+
+  /**
+   * Reserve permission to send a request. Half-open breakers only let a
+   * limited number of probes through.
+   */
+  tryAcquire(): boolean {
+    if (!this.isAvailable()) return false;
+    if (this.state === "half_open") {
+      this.halfOpenInFlight++;
+    }
+    return true;
+  }
+
+  /**
+   * Record the outcome of a request. Slow successes count as failures.
+   */
+  record(ok: boolean, latencyMs: number): void {
+    const success = ok && latencyMs <= this.options.slowCallMs;
+
+    if (this.state === "half_open") {
+      this.halfOpenInFlight = Math.max(0, this.halfOpenInFlight - 1);
+      if (success) {
+        this.close();
+      } else {
+        this.open();
+      }
+      return;
+    }
+
+    this.outcomes.push({ ok: success, latencyMs });
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+
+    if (
+      this.state === "closed" &&
+      this.outcomes.length >= this.options.minRequests &&
+      this.getFailureRate() >= this.options.failureRateThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  /**
+   * Failure rate over the recent window (0-1)
+   */
+  getFailureRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    const failures = this.outcomes.filter((o) => !o.ok).length;
+    return failures / this.outcomes.length;
+  }
+
+  /**
+   * Average latency over the recent window
+   */
+  getAvgLatencyMs(): number {
+    if (this.outcomes.length === 0) return 0;
+    const total = this.outcomes.reduce((sum, o) => sum + o.latencyMs, 0);
+    return Math.round(total / this.outcomes.length);
+  }
+
+  private open(): void {
+    this.state = "open";
+    this.openedAt = Date.now();
+    this.halfOpenInFlight = 0;
+  }
+
+  private close(): void {
+    this.state = "closed";
+    this.outcomes = [];
+    this.halfOpenInFlight = 0;
+  }
+}
+
+/**
+ * Registry of circuit breakers, one per provider
+ */
+export class ProviderHealth {
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private options: CircuitBreakerOptions;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Get (or create) the breaker for a provider
+   */
+  get(provider: ProviderConfig): CircuitBreaker {
+    const key = providerLabel(provider);
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.options);
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Whether any provider in a chain can currently take traffic
+   */
+  isChainAvailable(chain: ProviderConfig[]): boolean {
+    return chain.some((provider) => this.get(provider).isAvailable());
+  }
+
+  /**
+   * Health snapshot for each provider in a chain
+   */
+  describeChain(chain: ProviderConfig[]): ProviderHealthSnapshot[] {
+    return chain.map((provider) => {
+      const breaker = this.get(provider);
+      return {
+        provider: providerLabel(provider),
+        model: provider.model,
+        state: breaker.getState(),
+        failureRate: Math.round(breaker.getFailureRate() * 100) / 100,
+        avgLatencyMs: breaker.getAvgLatencyMs(),
+      };
+    });
+  }
+}
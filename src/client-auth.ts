@@ -0,0 +1,67 @@
+/**
+ * Client Authentication
+ *
+ * Resolves the API key on an incoming request to the client's label and
+ * policy. Keys are looked up by SHA-256 digest so comparisons do not leak
+ * key prefixes through timing.
+ */
+
+import type { IncomingHttpHeaders } from "node:http";
+import { createHash } from "node:crypto";
+import type { ClientKeyConfig, RequestContext } from "./types.js";
+import { AuthenticationError } from "./errors.js";
+
+export class ClientAuthenticator {
+  private keys = new Map<string, ClientKeyConfig>();
+
+  constructor(keys: ClientKeyConfig[] = []) {
+    for (const entry of keys) {
+      this.keys.set(digest(entry.key), entry);
+    }
+  }
+
+  /**
+   * Whether any client keys are configured. Without keys the server is open.
+   */
+  isEnabled(): boolean {
+    return this.keys.size > 0;
+  }
+
+  /**
+   * Resolve the request's key to a context. Throws AuthenticationError when
+   * keys are configured and the request has none or an unknown one.
+   */
+  authenticate(headers: IncomingHttpHeaders): RequestContext {
+    if (!this.isEnabled()) return {};
+
+    const key = extractApiKey(headers);
+    if (!key) {
+      throw new AuthenticationError("Missing API key; send it as a Bearer token or in x-api-key");
+    }
+
+    const entry = this.keys.get(digest(key));
+    if (!entry) {
+      throw new AuthenticationError("Invalid API key");
+    }
+
+    const { key: _key, label, ...policy } = entry;
+    return { userId: label, policy };
+  }
+}
+
+/**
+ * Read a client key from `Authorization: Bearer` or Anthropic's `x-api-key`
+ */
+export function extractApiKey(headers: IncomingHttpHeaders): string | undefined {
+  const authorization = headers.authorization;
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim() || undefined;
+  }
+
+  const apiKey = headers["x-api-key"];
+  return (Array.isArray(apiKey) ? apiKey[0] : apiKey)?.trim() || undefined;
+}
+
+function digest(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
@@ -1,13 +1,18 @@
 /**
  * Complexity Evaluator
  *
- * Uses LOW model to evaluate task complexity.
- * Returns structured JSON with scoring dimensions.
+ * The "llm" evaluation strategy: uses LOW model to evaluate task complexity.
+ * Returns structured JSON with scoring dimensions. A local heuristic
+ * answers first and the LOW model is only called when the heuristic's
+ * confidence is below the configured bar.
+ *
+ * Also exports the scoring and prompt hashing shared by other strategies.
  */
 
 import type {
   ChatMessage,
   ComplexityEvaluation,
+  ProviderChain,
   ProviderConfig,
   TaskType,
   ReasoningDepth,
@@ -15,6 +20,15 @@ import type {
   AccuracyRequirement,
   TokenSize,
 } from "./types.js";
+import { fetchWithFailover, toProviderChain } from "./upstream.js";
+import type { ProviderHealth } from "./circuit-breaker.js";
+import { countMessageTokens, tokenSizeFor } from "./tokenizer.js";
+import { classifyHeuristically } from "./heuristic-classifier.js";
+import { buildEvaluatorInput, DEFAULT_EVALUATOR_INPUT_BUDGET, formatEvaluatorPrompt } from "./evaluator-input.js";
+import type { EvaluationResult, Evaluator } from "./evaluators/index.js";
+
+// Heuristic confidence needed to skip the LOW-model call
+export const DEFAULT_HEURISTIC_CONFIDENCE = 0.85;
 
 // ============= System Prompt for Complexity Evaluation =============
 
@@ -120,41 +134,78 @@ const ACCURACY_SCORES: Record<AccuracyRequirement, number> = {
   high: 20,
 };
 
+/**
+ * Score an evaluation from its dimensions (0-100)
+ */
+export function scoreEvaluation(evaluation: Omit<ComplexityEvaluation, "complexity_score">): number {
+  const reasoningScore = REASONING_DEPTH_SCORES[evaluation.reasoning_depth];
+  const taskScore = TASK_TYPE_SCORES[evaluation.task_type];
+  const constraintScore = CONSTRAINT_LEVEL_SCORES[evaluation.constraint_level];
+  const accuracyScore = ACCURACY_SCORES[evaluation.required_accuracy];
+
+  return Math.min(100, reasoningScore + taskScore + constraintScore + accuracyScore);
+}
+
+/**
+ * Generate a hash for the prompt to use as cache key
+ */
+export function hashPrompt(messages: ChatMessage[]): string {
+  const content = messages
+    .filter((m) => m.role === "user")
+    .map((m) => (typeof m.content === "string" ? m.content : JSON.stringify(m.content)))
+    .join("|");
+  
+  // Simple hash function
+  let hash = 0;
+  for (let i = 0; i < content.length; i++) {
+    const char = content.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  return Math.abs(hash).toString(16);
+}
+
+/**
+ * Default evaluation (conservative MID)
+ */
+export function defaultEvaluation(): ComplexityEvaluation {
+  return {
+    reasoning_depth: "medium",
+    task_type: "other",
+    constraint_level: "medium",
+    required_accuracy: "medium",
+    estimated_token_size: "medium",
+    complexity_score: 50,
+    confidence: 0.6,
+  };
+}
+
 // ============= Complexity Evaluator Class =============
 
-export class ComplexityEvaluator {
-  private lowProvider: ProviderConfig;
+export class ComplexityEvaluator implements Evaluator {
+  readonly name = "llm";
+  private lowProviders: ProviderConfig[];
   private cache: Map<string, { evaluation: ComplexityEvaluation; timestamp: number }> = new Map();
   private cacheTtlMs: number;
-  private logger: { info: (msg: string) => void; error: (msg: string) => void };
+  private logger: { info: (msg: string) => void; error: (msg: string) => void; warn: (msg: string) => void };
+  private health?: ProviderHealth;
+  private heuristicConfidence: number;
+  private inputBudget: number;
 
   constructor(
-    lowProvider: ProviderConfig,
-    logger: { info: (msg: string) => void; error: (msg: string) => void },
-    cacheTtlMs = 3600000 // 1 hour default
+    lowProvider: ProviderChain,
+    logger: { info: (msg: string) => void; error: (msg: string) => void; warn: (msg: string) => void },
+    cacheTtlMs = 3600000, // 1 hour default
+    health?: ProviderHealth,
+    heuristicConfidence = DEFAULT_HEURISTIC_CONFIDENCE, // above 0.95 disables the heuristic
+    inputBudget = DEFAULT_EVALUATOR_INPUT_BUDGET // tokens of conversation in the evaluation prompt
   ) {
-    this.lowProvider = lowProvider;
+    this.lowProviders = toProviderChain(lowProvider);
     this.cacheTtlMs = cacheTtlMs;
     this.logger = logger;
-  }
-
-  /**
-   * Generate a hash for the prompt to use as cache key
-   */
-  private hashPrompt(messages: ChatMessage[]): string {
-    const content = messages
-      .filter((m) => m.role === "user")
-      .map((m) => (typeof m.content === "string" ? m.content : JSON.stringify(m.content)))
-      .join("|");
-    
-    // Simple hash function
-    let hash = 0;
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash).toString(16);
+    this.health = health;
+    this.heuristicConfidence = heuristicConfidence;
+    this.inputBudget = inputBudget;
   }
 
   /**
@@ -257,27 +308,11 @@ export class ComplexityEvaluator {
   }
 
   /**
-   * Recalculate score from dimensions (for validation)
+   * Evaluate complexity locally when the heuristic is confident enough,
+   * otherwise using LOW model
    */
-  private recalculateScore(evaluation: ComplexityEvaluation): number {
-    const reasoningScore = REASONING_DEPTH_SCORES[evaluation.reasoning_depth];
-    const taskScore = TASK_TYPE_SCORES[evaluation.task_type];
-    const constraintScore = CONSTRAINT_LEVEL_SCORES[evaluation.constraint_level];
-    const accuracyScore = ACCURACY_SCORES[evaluation.required_accuracy];
-
-    return Math.min(100, reasoningScore + taskScore + constraintScore + accuracyScore);
-  }
-
-  /**
-   * Evaluate complexity using LOW model
-   */
-  async evaluate(messages: ChatMessage[]): Promise<{
-    evaluation: ComplexityEvaluation;
-    latencyMs: number;
-    cached: boolean;
-    promptHash: string;
-  }> {
-    const promptHash = this.hashPrompt(messages);
+  async evaluate(messages: ChatMessage[]): Promise<EvaluationResult> {
+    const promptHash = hashPrompt(messages);
     
     // Check cache
     const cached = this.getCached(promptHash);
@@ -288,46 +323,41 @@ export class ComplexityEvaluator {
         latencyMs: 0,
         cached: true,
         promptHash,
+        strategy: this.name,
+        source: "cache",
       };
     }
 
-    // Build evaluation prompt
-    const lastUserMessage = messages
-      .filter((m) => m.role === "user")
-      .pop();
-    
-    const contextMessages = messages.slice(0, -1);
-    
-    let userPrompt: string;
-    if (contextMessages.length > 0) {
-      const contextStr = contextMessages
-        .map((m) => `${m.role}: ${typeof m.content === "string" ? m.content : JSON.stringify(m.content)}`)
-        .join("\n");
-      userPrompt = `Evaluate the cognitive complexity of the following conversation:
-
-Conversation:
-${contextStr}
-
-Latest User Request:
-${typeof lastUserMessage?.content === "string" ? lastUserMessage.content : JSON.stringify(lastUserMessage?.content)}`;
-    } else {
-      userPrompt = `Evaluate the cognitive complexity of the following user request:
-
-${typeof lastUserMessage?.content === "string" ? lastUserMessage.content : JSON.stringify(lastUserMessage?.content)}`;
+    // Try the local heuristic before paying for a LOW-model round trip
+    const heuristicStart = Date.now();
+    const guess = classifyHeuristically(messages);
+    if (guess.confidence >= this.heuristicConfidence) {
+      const evaluation: ComplexityEvaluation = { ...guess, complexity_score: scoreEvaluation(guess) };
+      this.logger.info(
+        `[Helix] Heuristic evaluation: score=${evaluation.complexity_score} ` +
+        `task=${evaluation.task_type} confidence=${evaluation.confidence.toFixed(2)}`
+      );
+      return {
+        evaluation,
+        latencyMs: Date.now() - heuristicStart,
+        cached: false,
+        promptHash,
+        strategy: this.name,
+        source: "heuristic",
+      };
     }
 
+    // Build evaluation prompt within the input budget
+    const userPrompt = formatEvaluatorPrompt(buildEvaluatorInput(messages, this.inputBudget));
+
     const startTime = Date.now();
 
     try {
-      // Call LOW model
-      const response = await fetch(`${this.lowProvider.baseUrl}/chat/completions`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${this.lowProvider.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: this.lowProvider.model,
+      // Call LOW model, failing over along the LOW chain
+      const { response } = await fetchWithFailover(
+        this.lowProviders,
+        (provider) => ({
+          model: provider.model,
           messages: [
             { role: "system", content: COMPLEXITY_SYSTEM_PROMPT },
             { role: "user", content: userPrompt },
@@ -335,7 +365,9 @@ ${typeof lastUserMessage?.content === "string" ? lastUserMessage.content : JSON.
           temperature: 0.1, // Low temperature for consistent scoring
           max_tokens: 200,
         }),
-      });
+        this.logger,
+        this.health
+      );
 
       const latencyMs = Date.now() - startTime;
 
@@ -363,15 +395,20 @@ ${typeof lastUserMessage?.content === "string" ? lastUserMessage.content : JSON.
         // Return default MID evaluation on validation failure
         this.logger.error("[Helix] Evaluation validation failed, defaulting to MID");
         return {
-          evaluation: this.getDefaultEvaluation(),
+          evaluation: defaultEvaluation(),
           latencyMs,
           cached: false,
           promptHash,
+          strategy: this.name,
+          source: "default",
         };
       }
 
+      // Prompt size is measured locally rather than guessed by the evaluator
+      evaluation.estimated_token_size = tokenSizeFor(countMessageTokens(messages));
+
       // Recalculate score for consistency
-      evaluation.complexity_score = this.recalculateScore(evaluation);
+      evaluation.complexity_score = scoreEvaluation(evaluation);
 
       // Cache the result
       this.setCache(promptHash, evaluation);
@@ -386,6 +423,8 @@ ${typeof lastUserMessage?.content === "string" ? lastUserMessage.content : JSON.
         latencyMs,
         cached: false,
         promptHash,
+        strategy: this.name,
+        source: "llm",
       };
     } catch (error) {
       const latencyMs = Date.now() - startTime;
@@ -393,26 +432,13 @@ ${typeof lastUserMessage?.content === "string" ? lastUserMessage.content : JSON.
       
       // Return default MID evaluation on failure
       return {
-        evaluation: this.getDefaultEvaluation(),
+        evaluation: defaultEvaluation(),
         latencyMs,
         cached: false,
         promptHash,
+        strategy: this.name,
+        source: "default",
       };
     }
   }
-
-  /**
-   * Default evaluation (conservative MID)
-   */
-  private getDefaultEvaluation(): ComplexityEvaluation {
-    return {
-      reasoning_depth: "medium",
-      task_type: "other",
-      constraint_level: "medium",
-      required_accuracy: "medium",
-      estimated_token_size: "medium",
-      complexity_score: 50,
-      confidence: 0.6,
-    };
-  }
 }
@@ -0,0 +1,533 @@
+/**
+ * Configuration Validation
+ *
+ * Checks a merged configuration before it is used, so that a bad edit to
+ * config.json is reported field by field instead of surfacing as odd routes
+ * or failed requests. Shapes and types come from the configSchema in
+ * openclaw.plugin.json; ranges and cross-field rules are checked here. Also
+ * describes what changed between two configurations, with secrets redacted,
+ * for reload logs.
+ */
+
+import type { ExperimentConfig, ProviderApi, RouteTier, TiersConfig } from "./types.js";
+import { DEFAULT_TIER_ORDER, findTierErrors } from "./tiers.js";
+import { defaultRoutingRules, findRuleErrors } from "./routing-rules.js";
+import { findExperimentErrors } from "./experiments.js";
+import { qualityCheckNames } from "./quality-checks.js";
+import manifest from "../openclaw.plugin.json";
+
+const PROVIDER_APIS: ProviderApi[] = ["openai-completions", "anthropic-messages", "google-generative-ai", "ollama"];
+
+// Fields whose values are never logged
+const SECRET_FIELDS = new Set(["apiKey", "key"]);
+
+export type ConfigPath = Array<string | number>;
+
+export interface ConfigError {
+  path: ConfigPath;
+  message: string;
+}
+
+export class ConfigValidationError extends Error {
+  readonly errors: ConfigError[];
+
+  constructor(errors: ConfigError[]) {
+    super(`Invalid configuration:\n${errors.map((error) => `  - ${formatPath(error.path)}: ${error.message}`).join("\n")}`);
+    this.name = "ConfigValidationError";
+    this.errors = errors;
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Validate a merged configuration, returning every problem found
+ */
+export function validateConfig(config: unknown): ConfigError[] {
+  const errors: ConfigError[] = [];
+  checkSchema((path, message) => errors.push({ path, message }), [], config, CONFIG_SCHEMA);
+
+  // One message per field: skip anything under a path already reported
+  const error = (path: ConfigPath, message: string) => {
+    if (!errors.some((reported) => isWithin(path, reported.path))) {
+      errors.push({ path, message });
+    }
+  };
+
+  if (!isObject(config)) {
+    error([], "expected an object");
+    return errors;
+  }
+
+  // Tiers named by routing.tiers, cheapest first
+  const order = isObject(config.routing) && Array.isArray(config.routing.tiers) && config.routing.tiers.length > 0
+    ? config.routing.tiers as RouteTier[]
+    : DEFAULT_TIER_ORDER;
+  const checkTier = (path: ConfigPath, value: unknown) => {
+    if (value !== undefined && !order.includes(value as RouteTier)) {
+      error(path, `expected one of ${order.join(", ")}`);
+    }
+  };
+
+  // Providers
+  if (!isObject(config.providers)) {
+    error(["providers"], `expected an object with ${order.join(", ")}`);
+  } else {
+    for (const tier of order) {
+      const chain = config.providers[tier];
+      const providers = Array.isArray(chain) ? chain : [chain];
+      if (providers.length === 0) {
+        error(["providers", tier], "needs at least one provider");
+      }
+      providers.forEach((provider, index) => {
+        const path: ConfigPath = Array.isArray(chain) ? ["providers", tier, index] : ["providers", tier];
+        if (!isObject(provider)) {
+          error(path, provider === undefined ? "is required" : "expected a provider object");
+          return;
+        }
+        if (provider.baseUrl === undefined) {
+          error([...path, "baseUrl"], "is required");
+        } else if (typeof provider.baseUrl !== "string" || !isUrl(provider.baseUrl)) {
+          error([...path, "baseUrl"], "expected an http(s) URL");
+        }
+        if (provider.model === undefined) {
+          error([...path, "model"], "is required");
+        } else if (typeof provider.model !== "string" || !provider.model) {
+          error([...path, "model"], "expected a model name");
+        }
+        if (provider.apiKey !== undefined && typeof provider.apiKey !== "string") {
+          error([...path, "apiKey"], "expected a string");
+        }
+        if (provider.api !== undefined && !PROVIDER_APIS.includes(provider.api as ProviderApi)) {
+          error([...path, "api"], `expected one of ${PROVIDER_APIS.join(", ")}`);
+        }
+      });
+    }
+  }
+
+  // Routing
+  if (isObject(config.routing)) {
+    const { proThreshold, midThreshold, defaultRoute, tiers, rules } = config.routing;
+    checkNumber(error, ["routing", "proThreshold"], proThreshold, 0, 100);
+    checkNumber(error, ["routing", "midThreshold"], midThreshold, 0, 100);
+    if (typeof proThreshold === "number" && typeof midThreshold === "number" && midThreshold > proThreshold) {
+      error(["routing", "midThreshold"], `must not exceed proThreshold (${proThreshold})`);
+    }
+    checkTier(["routing", "defaultRoute"], defaultRoute);
+    if (Array.isArray(tiers) && tiers.length === 0) {
+      error(["routing", "tiers"], "needs at least one tier");
+    }
+    if (rules !== undefined && !Array.isArray(rules)) {
+      error(["routing", "rules"], "expected an array of rules");
+    }
+  } else {
+    checkObject(error, ["routing"], config.routing);
+  }
+
+  // The rules the router will run: the configured ones, or the defaults for this ladder
+  const rules = isObject(config.routing) && config.routing.rules !== undefined
+    ? config.routing.rules
+    : defaultRoutingRules(order);
+  if (Array.isArray(rules)) {
+    for (const { index, message } of findRuleErrors(rules, order)) {
+      error(["routing", "rules", index], message);
+    }
+  }
+
+  // Cache
+  if (isObject(config.cache)) {
+    checkNumber(error, ["cache", "ttlMs"], config.cache.ttlMs, 0);
+  } else {
+    checkObject(error, ["cache"], config.cache);
+  }
+
+  // Tiers
+  if (isObject(config.tiers)) {
+    for (const [tier, settings] of Object.entries(config.tiers)) {
+      const path = ["tiers", tier];
+      if (!order.includes(tier as RouteTier)) {
+        error(path, `unknown tier, expected one of ${order.join(", ")}`);
+        continue;
+      }
+      if (!isObject(settings)) {
+        error(path, "expected an object");
+        continue;
+      }
+      checkNumber(error, [...path, "minScore"], settings.minScore, 0, 100);
+      if (isObject(settings.cost)) {
+        checkNumber(error, [...path, "cost", "input"], settings.cost.input, 0);
+        checkNumber(error, [...path, "cost", "output"], settings.cost.output, 0);
+      } else {
+        checkObject(error, [...path, "cost"], settings.cost);
+      }
+      checkNumber(error, [...path, "contextWindow"], settings.contextWindow, 1);
+      checkNumber(error, [...path, "maxTokens"], settings.maxTokens, 1);
+      checkRateLimit(error, [...path, "rateLimit"], settings.rateLimit);
+    }
+  } else {
+    checkObject(error, ["tiers"], config.tiers);
+  }
+  for (const { path, message } of findTierErrors(
+    order,
+    isObject(config.tiers) ? config.tiers as TiersConfig : {},
+    isObject(config.routing) ? config.routing : {}
+  )) {
+    error(path, message);
+  }
+
+  // Budgets
+  if (isObject(config.budgets)) {
+    const { global, tiers, users, defaultUser, capMidAt, capLowAt } = config.budgets;
+    checkBudget(error, ["budgets", "global"], global);
+    checkBudget(error, ["budgets", "defaultUser"], defaultUser);
+    for (const [scope, limits] of Object.entries(isObject(tiers) ? tiers : {})) {
+      checkTier(["budgets", "tiers", scope], scope);
+      checkBudget(error, ["budgets", "tiers", scope], limits);
+    }
+    for (const [user, limits] of Object.entries(isObject(users) ? users : {})) {
+      checkBudget(error, ["budgets", "users", user], limits);
+    }
+    checkNumber(error, ["budgets", "capMidAt"], capMidAt, 0, 1);
+    checkNumber(error, ["budgets", "capLowAt"], capLowAt, 0, 1);
+  } else {
+    checkObject(error, ["budgets"], config.budgets);
+  }
+
+  // Client keys
+  if (config.clientKeys !== undefined) {
+    if (!Array.isArray(config.clientKeys)) {
+      error(["clientKeys"], "expected an array");
+    } else {
+      const seen = new Set<unknown>();
+      config.clientKeys.forEach((client, index) => {
+        const path = ["clientKeys", index];
+        if (!isObject(client)) {
+          error(path, "expected an object with key and label");
+          return;
+        }
+        if (typeof client.key !== "string" || !client.key) {
+          error([...path, "key"], "expected a non-empty string");
+        } else if (seen.has(client.key)) {
+          error([...path, "key"], "duplicates an earlier key");
+        }
+        seen.add(client.key);
+        if (typeof client.label !== "string" || !client.label) {
+          error([...path, "label"], "expected a non-empty string");
+        }
+        checkTier([...path, "maxTier"], client.maxTier);
+        if (client.allowedTiers !== undefined) {
+          if (!Array.isArray(client.allowedTiers)) {
+            error([...path, "allowedTiers"], "expected an array of tiers");
+          } else {
+            client.allowedTiers.forEach((tier, i) => checkTier([...path, "allowedTiers", i], tier));
+          }
+        }
+        checkRateLimit(error, [...path, "rateLimit"], client.rateLimit);
+        if (client.onRateLimit !== undefined && client.onRateLimit !== "reject" && client.onRateLimit !== "demote") {
+          error([...path, "onRateLimit"], "expected \"reject\" or \"demote\"");
+        }
+      });
+    }
+  }
+
+  checkRateLimit(error, ["rateLimit"], config.rateLimit);
+
+  // Evaluator
+  if (isObject(config.evaluator)) {
+    const { strategy, heuristicConfidence, inputBudget } = config.evaluator;
+    if (strategy !== undefined && typeof strategy !== "string") {
+      error(["evaluator", "strategy"], "expected a strategy name");
+    }
+    checkNumber(error, ["evaluator", "heuristicConfidence"], heuristicConfidence, 0, 1);
+    checkNumber(error, ["evaluator", "inputBudget"], inputBudget, 1);
+  } else {
+    checkObject(error, ["evaluator"], config.evaluator);
+  }
+
+  // Answer quality
+  if (isObject(config.quality)) {
+    const { checks, refusalPatterns } = config.quality;
+    if (Array.isArray(checks)) {
+      const known = qualityCheckNames();
+      checks.forEach((check, index) => {
+        if (typeof check === "string" && !known.includes(check)) {
+          error(["quality", "checks", index], `unknown check, expected one of ${known.join(", ")}`);
+        }
+      });
+    }
+    if (Array.isArray(refusalPatterns)) {
+      refusalPatterns.forEach((pattern, index) => {
+        if (typeof pattern !== "string") return;
+        try {
+          new RegExp(pattern, "i");
+        } catch (e) {
+          error(["quality", "refusalPatterns", index], `invalid regular expression: ${(e as Error).message}`);
+        }
+      });
+    }
+  }
+
+  // Sessions
+  if (isObject(config.sessions)) {
+    checkNumber(error, ["sessions", "deescalateAfter"], config.sessions.deescalateAfter, 0);
+    checkNumber(error, ["sessions", "ttlMs"], config.sessions.ttlMs, 1);
+    checkNumber(error, ["sessions", "maxSessions"], config.sessions.maxSessions, 1);
+  }
+
+  // Tool loops
+  if (isObject(config.toolLoops)) {
+    const { escalateAfter, escalateOnErrors, errorPatterns } = config.toolLoops;
+    checkNumber(error, ["toolLoops", "escalateAfter"], escalateAfter, 0);
+    checkNumber(error, ["toolLoops", "escalateOnErrors"], escalateOnErrors, 1);
+    if (Array.isArray(errorPatterns)) {
+      errorPatterns.forEach((pattern, index) => {
+        if (typeof pattern !== "string") return;
+        try {
+          new RegExp(pattern, "i");
+        } catch (e) {
+          error(["toolLoops", "errorPatterns", index], `invalid regular expression: ${(e as Error).message}`);
+        }
+      });
+    }
+  }
+
+  // Experiments
+  if (Array.isArray(config.experiments)) {
+    config.experiments.forEach((experiment, index) => {
+      if (!isObject(experiment) || !isObject(experiment.thresholds)) return;
+      const path = ["experiments", index, "thresholds"];
+      checkNumber(error, [...path, "proThreshold"], experiment.thresholds.proThreshold, 0, 100);
+      checkNumber(error, [...path, "midThreshold"], experiment.thresholds.midThreshold, 0, 100);
+    });
+    for (const { path, message } of findExperimentErrors(
+      config.experiments as ExperimentConfig[],
+      order,
+      isObject(config.tiers) ? config.tiers as TiersConfig : {},
+      isObject(config.routing) ? config.routing : {}
+    )) {
+      error(path, message);
+    }
+  } else if (config.experiments !== undefined) {
+    error(["experiments"], "expected an array of experiments");
+  }
+
+  // Server
+  if (isObject(config.server)) {
+    checkNumber(error, ["server", "port"], config.server.port, 1, 65535);
+  }
+
+  return errors;
+}
+
+/**
+ * Copy of a configuration with every secret replaced, for printing
+ */
+export function redactSecrets<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value, (field, fieldValue) =>
+    SECRET_FIELDS.has(field) && typeof fieldValue === "string" && fieldValue ? "***" : fieldValue
+  )) as T;
+}
+
+/**
+ * Leaf-by-leaf differences between two configurations, secrets redacted
+ */
+export function describeChanges(previous: unknown, next: unknown): string[] {
+  const changes: string[] = [];
+  const walk = (before: unknown, after: unknown, path: ConfigPath) => {
+    if (isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)) {
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+      for (const key of keys) {
+        walk(
+          (before as Fields)[key],
+          (after as Fields)[key],
+          [...path, Array.isArray(after) ? Number(key) : key]
+        );
+      }
+      return;
+    }
+    if (JSON.stringify(before) === JSON.stringify(after)) return;
+    changes.push(isSecret(path)
+      ? `${formatPath(path)}: changed`
+      : `${formatPath(path)}: ${formatValue(path, before)} -> ${formatValue(path, after)}`);
+  };
+  walk(previous, next, []);
+  return changes;
+}
+
+/**
+ * Describe each error alongside the running value and the rejected one
+ */
+export function describeErrors(errors: ConfigError[], running: unknown, rejected: unknown): string[] {
+  return errors.map((error) =>
+    `${formatPath(error.path)}: ${error.message} ` +
+    `(running: ${formatValue(error.path, valueAt(running, error.path))}, ` +
+    `rejected: ${formatValue(error.path, valueAt(rejected, error.path))})`
+  );
+}
+
+export function formatPath(path: ConfigPath): string {
+  if (path.length === 0) return "(root)";
+  return path.reduce<string>((text, segment) =>
+    typeof segment === "number" ? `${text}[${segment}]` : text ? `${text}.${segment}` : segment, "");
+}
+
+function formatValue(path: ConfigPath, value: unknown): string {
+  if (value === undefined) return "unset";
+  if (isSecret(path)) return "\"***\"";
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function isSecret(path: ConfigPath): boolean {
+  return SECRET_FIELDS.has(String(path[path.length - 1]));
+}
+
+// Whether a path is the same as, or nested under, another
+function isWithin(path: ConfigPath, parent: ConfigPath): boolean {
+  return parent.length <= path.length && parent.every((segment, i) => segment === path[i]);
+}
+
+function valueAt(root: unknown, path: ConfigPath): unknown {
+  let value = root;
+  for (const segment of path) {
+    if (!isContainer(value)) return undefined;
+    value = (value as Fields)[segment];
+  }
+  return value;
+}
+
+// ============= Schema Checks =============
+
+// The subset of JSON Schema that the manifest's configSchema uses
+interface Schema {
+  type?: string;
+  properties?: Record<string, Schema>;
+  additionalProperties?: Schema | boolean;
+  items?: Schema;
+  required?: string[];
+  enum?: unknown[];
+  oneOf?: Schema[];
+  $ref?: string;
+  definitions?: Record<string, Schema>;
+}
+
+const CONFIG_SCHEMA = manifest.configSchema as Schema;
+
+type Report = (path: ConfigPath, message: string) => void;
+
+function checkSchema(error: Report, path: ConfigPath, value: unknown, schema: Schema): void {
+  schema = resolveRef(schema);
+
+  // The manifest's alternatives differ by type, so the value's type picks one
+  if (schema.oneOf) {
+    const options = schema.oneOf.map(resolveRef);
+    const option = options.find((candidate) => matchesType(value, candidate.type));
+    if (option) {
+      checkSchema(error, path, value, option);
+    } else {
+      error(path, `expected ${options.map((candidate) => describeType(candidate.type)).join(" or ")}`);
+    }
+    return;
+  }
+
+  if (!matchesType(value, schema.type)) {
+    error(path, `expected ${describeType(schema.type)}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    error(path, `expected one of ${schema.enum.join(", ")}`);
+    return;
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => checkSchema(error, [...path, index], item, schema.items!));
+  }
+  if (isObject(value)) {
+    for (const field of schema.required ?? []) {
+      if (value[field] === undefined) error([...path, field], "is required");
+    }
+    for (const [field, fieldValue] of Object.entries(value)) {
+      if (fieldValue === undefined) continue;
+      const fieldSchema = schema.properties?.[field] ?? schema.additionalProperties;
+      if (fieldSchema === false) {
+        error([...path, field], "is not a known setting");
+      } else if (typeof fieldSchema === "object") {
+        checkSchema(error, [...path, field], fieldValue, fieldSchema);
+      }
+    }
+  }
+}
+
+function resolveRef(schema: Schema): Schema {
+  if (!schema.$ref) return schema;
+  const name = schema.$ref.replace("#/definitions/", "");
+  const target = CONFIG_SCHEMA.definitions?.[name];
+  if (!target) throw new Error(`Unknown schema reference ${schema.$ref}`);
+  return target;
+}
+
+function matchesType(value: unknown, type: string | undefined): boolean {
+  switch (type) {
+    case undefined: return true;
+    case "object": return isObject(value);
+    case "array": return Array.isArray(value);
+    case "integer": return Number.isInteger(value);
+    case "number": return typeof value === "number" && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+function describeType(type: string | undefined): string {
+  return type === "object" || type === "array" || type === "integer" ? `an ${type}` : `a ${type}`;
+}
+
+// ============= Field Checks =============
+
+// Types are the schema's job; these check ranges
+function checkNumber(error: Report, path: ConfigPath, value: unknown, min: number, max?: number): void {
+  if (typeof value !== "number") return;
+  if (!Number.isFinite(value) || value < min || (max !== undefined && value > max)) {
+    error(path, max !== undefined ? `expected a number from ${min} to ${max}` : `expected a number >= ${min}`);
+  }
+}
+
+function checkObject(error: Report, path: ConfigPath, value: unknown): void {
+  if (value !== undefined && !isObject(value)) {
+    error(path, "expected an object");
+  }
+}
+
+function checkRateLimit(error: Report, path: ConfigPath, value: unknown): void {
+  if (!isObject(value)) {
+    checkObject(error, path, value);
+    return;
+  }
+  checkNumber(error, [...path, "rpm"], value.rpm, 0);
+  checkNumber(error, [...path, "tpm"], value.tpm, 0);
+}
+
+function checkBudget(error: Report, path: ConfigPath, value: unknown): void {
+  if (!isObject(value)) {
+    checkObject(error, path, value);
+    return;
+  }
+  checkNumber(error, [...path, "daily"], value.daily, 0);
+  checkNumber(error, [...path, "monthly"], value.monthly, 0);
+}
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isContainer(value: unknown): value is object {
+  return typeof value === "object" && value !== null;
+}
+
+function isUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Config File Watcher
+ *
+ * Watches a config file and calls back once per burst of changes. The
+ * parent directory is watched rather than the file, so editors that save by
+ * writing a new file and renaming it over the old one are still seen.
+ */
+
+import { watch, existsSync, mkdirSync, type FSWatcher } from "node:fs";
+import { basename, dirname } from "node:path";
+
+// Editors often write a file in several steps; wait for them to settle
+const DEFAULT_DEBOUNCE_MS = 250;
+
+export class ConfigWatcher {
+  private path: string;
+  private onChange: () => void;
+  private debounceMs: number;
+  private watcher: FSWatcher | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(path: string, onChange: () => void, debounceMs = DEFAULT_DEBOUNCE_MS) {
+    this.path = path;
+    this.onChange = onChange;
+    this.debounceMs = debounceMs;
+  }
+
+  /**
+   * Start watching. The watcher does not keep the process alive.
+   */
+  start(): void {
+    if (this.watcher) return;
+
+    const directory = dirname(this.path);
+    if (!existsSync(directory)) {
+      mkdirSync(directory, { recursive: true });
+    }
+
+    const file = basename(this.path);
+    this.watcher = watch(directory, (_event, changed) => {
+      if (changed && changed.toString() !== file) return;
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.onChange();
+      }, this.debounceMs);
+    });
+    this.watcher.unref();
+  }
+
+  /**
+   * Stop watching and drop any pending change
+   */
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.watcher?.close();
+    this.watcher = null;
+  }
+}
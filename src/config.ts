@@ -0,0 +1,362 @@
+/**
+ * Configuration Loader
+ *
+ * One loader for the plugin, the standalone server and the CLI. Sources are
+ * merged in a fixed order, each overriding the last:
+ *
+ *   defaults < config.json < HELIX_* env vars < plugin config < CLI flags
+ *
+ * Strings in config.json and the plugin config may reference environment
+ * variables as `${NAME}`, so secrets need not be written to disk. The merged
+ * result is checked with validateConfig before it is returned.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type {
+  ClientKeyConfig,
+  EvaluatorConfig,
+  ExperimentConfig,
+  HelixRouterConfig,
+  RouteTier,
+  RoutingRule,
+  TierSettings,
+} from "./types.js";
+import { LOG_DIR } from "./logger.js";
+import { DEFAULT_TIER_ORDER, tierEnvName } from "./tiers.js";
+import { ConfigValidationError, validateConfig, type ConfigError, type ConfigPath } from "./config-validation.js";
+
+export const CONFIG_FILE = join(LOG_DIR, "config.json");
+
+// Default provider configuration (your bifrost setup)
+export const DEFAULT_CONFIG: HelixRouterConfig = {
+  providers: {
+    pro: { baseUrl: "http://192.168.1.60:8310/v1", apiKey: "", model: "kiro-proxy/pro" },
+    mid: { baseUrl: "http://192.168.1.60:8310/v1", apiKey: "", model: "kiro-proxy/mid" },
+    low: { baseUrl: "http://192.168.1.60:8310/v1", apiKey: "", model: "kiro-proxy/low" },
+  },
+  routing: {
+    proThreshold: 75,
+    midThreshold: 35,
+  },
+  cache: {
+    enabled: true,
+    ttlMs: 3600000,
+  },
+};
+
+// Any part of a configuration; arrays are always given whole
+export type ConfigLayer = DeepPartial<HelixRouterConfig>;
+
+type DeepPartial<T> = T extends Array<unknown>
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+export interface ConfigSources {
+  file?: string | null; // path to config.json, null to skip it (default: CONFIG_FILE)
+  env?: NodeJS.ProcessEnv; // default: process.env
+  plugin?: ConfigLayer;
+  cli?: ConfigLayer;
+}
+
+/**
+ * Merge every source into one configuration and validate it. Throws
+ * ConfigValidationError naming each offending path.
+ */
+export function loadConfig(sources: ConfigSources = {}): HelixRouterConfig {
+  const config = resolveConfig(sources);
+  const errors = validateConfig(config);
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors);
+  }
+  return config;
+}
+
+/**
+ * Merge every source into one configuration without validating the result.
+ * Still throws ConfigValidationError for an unreadable source, an invalid
+ * env var or a `${NAME}` reference to an unset variable.
+ */
+export function resolveConfig(sources: ConfigSources = {}): HelixRouterConfig {
+  const env = sources.env ?? process.env;
+  const errors: ConfigError[] = [];
+
+  const file = sources.file === null ? null : readConfigFile(sources.file ?? CONFIG_FILE);
+  const plugin = sources.plugin && interpolate(sources.plugin, env, [], errors);
+  const layers = [
+    DEFAULT_CONFIG,
+    file && interpolate(file, env, [], errors),
+    configFromEnv(env, errors, [...namedTiers(file), ...namedTiers(plugin)]),
+    plugin,
+    sources.cli,
+  ];
+
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors);
+  }
+  return mergeConfig(...layers) as HelixRouterConfig;
+}
+
+/**
+ * Read a config file; null when there is none. Throws when it is not a JSON
+ * object.
+ */
+export function readConfigFile(path: string): ConfigLayer | null {
+  if (!existsSync(path)) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (e) {
+    throw new Error(`${path} is not valid JSON: ${(e as Error).message}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${path} must contain a JSON object`);
+  }
+  return parsed as ConfigLayer;
+}
+
+/**
+ * Deep-merge configuration layers, later ones winning. Objects merge field
+ * by field; arrays and everything else replace. Unset values are skipped, so
+ * a layer only overrides what it sets. A single provider patches a single
+ * provider or the first entry of a failover list, while a failover list
+ * replaces the whole chain.
+ */
+export function mergeConfig(...layers: Array<ConfigLayer | null | undefined>): ConfigLayer {
+  const merge = (base: unknown, override: unknown): unknown => {
+    if (override === undefined) return base;
+    if (!isObject(override)) return override;
+    if (Array.isArray(base) && base.length > 0) {
+      return [merge(base[0], override), ...base.slice(1)];
+    }
+    const merged: Record<string, unknown> = isObject(base) ? { ...base } : {};
+    for (const [key, value] of Object.entries(override)) {
+      const next = merge(merged[key], value);
+      if (next !== undefined) merged[key] = next;
+    }
+    // An object holding only unset values leaves the base alone
+    return isObject(base) || Object.keys(merged).length > 0 ? merged : base;
+  };
+  return layers.reduce<ConfigLayer>((config, layer) => merge(config, layer ?? undefined) as ConfigLayer, {});
+}
+
+// ============= Interpolation =============
+
+/**
+ * Replace `${NAME}` in every string with the environment variable's value.
+ * An unset variable is reported at the path of the string using it.
+ */
+function interpolate<T>(value: T, env: NodeJS.ProcessEnv, path: ConfigPath, errors: ConfigError[]): T {
+  if (typeof value === "string") {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (reference, name: string) => {
+      const resolved = env[name];
+      if (resolved === undefined) {
+        errors.push({ path, message: `references unset environment variable ${name}` });
+        return reference;
+      }
+      return resolved;
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolate(item, env, [...path, index], errors)) as T;
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolate(item, env, [...path, key], errors)])
+    ) as T;
+  }
+  return value;
+}
+
+// ============= Environment =============
+
+/**
+ * The configuration set by HELIX_* environment variables. Only variables
+ * that are set contribute; an unparsable value is reported under its name.
+ * Per-tier variables are read for the default tiers, those in HELIX_TIERS
+ * and any named in `tierNames`.
+ */
+export function configFromEnv(
+  env: NodeJS.ProcessEnv,
+  errors: ConfigError[] = [],
+  tierNames: RouteTier[] = []
+): ConfigLayer {
+  const text = (name: string): string | undefined => env[name]?.trim() || undefined;
+  const number = (name: string, parse: (value: string) => number = parseFloat): number | undefined => {
+    const value = text(name);
+    if (value === undefined) return undefined;
+    const parsed = parse(value);
+    if (Number.isNaN(parsed)) {
+      errors.push({ path: [name], message: `expected a number, got "${value}"` });
+      return undefined;
+    }
+    return parsed;
+  };
+  const integer = (name: string) => number(name, (value) => parseInt(value, 10));
+  const flag = (name: string): boolean | undefined => {
+    const value = text(name)?.toLowerCase();
+    return value === undefined ? undefined : value === "true" || value === "1";
+  };
+
+  // Tier names, cheapest first ("nano,low,mid,pro,ultra")
+  const order = text("HELIX_TIERS")?.split(",").map((tier) => tier.trim()).filter(Boolean);
+
+  const providers: ConfigLayer["providers"] = {};
+  const tiers: ConfigLayer["tiers"] = {};
+  for (const tier of new Set([...DEFAULT_TIER_ORDER, ...(order ?? []), ...tierNames])) {
+    const prefix = `HELIX_${tierEnvName(tier)}`;
+    // Only the fields that are set, so a key alone patches a file's provider
+    const provider = Object.fromEntries(
+      Object.entries({
+        baseUrl: text(`${prefix}_URL`),
+        apiKey: text(`${prefix}_KEY`),
+        model: text(`${prefix}_MODEL`),
+      }).filter(([, value]) => value !== undefined)
+    );
+    if (Object.keys(provider).length > 0) providers[tier] = provider;
+    tiers[tier] = tierFromEnv(prefix, number, integer, flag);
+  }
+
+  const embeddingUrl = text("HELIX_EMBEDDING_URL");
+  return {
+    providers,
+    routing: {
+      proThreshold: number("HELIX_PRO_THRESHOLD"),
+      midThreshold: number("HELIX_MID_THRESHOLD"),
+      tiers: order,
+      rules: jsonFileFromEnv<RoutingRule[]>("HELIX_ROUTING_RULES", text("HELIX_ROUTING_RULES"), errors),
+    },
+    tiers,
+    budgets: {
+      global: {
+        daily: number("HELIX_BUDGET_DAILY"),
+        monthly: number("HELIX_BUDGET_MONTHLY"),
+      },
+    },
+    clientKeys: clientKeysFromEnv(text("HELIX_CLIENT_KEYS")),
+    rateLimit: {
+      rpm: integer("HELIX_RATE_LIMIT_RPM"),
+      tpm: integer("HELIX_RATE_LIMIT_TPM"),
+    },
+    evaluator: {
+      strategy: text("HELIX_EVALUATOR"),
+      heuristicConfidence: number("HELIX_HEURISTIC_CONFIDENCE"),
+      inputBudget: integer("HELIX_EVALUATOR_INPUT_BUDGET"),
+      embedding: embeddingUrl
+        ? {
+            baseUrl: embeddingUrl,
+            apiKey: env.HELIX_EMBEDDING_KEY,
+            model: text("HELIX_EMBEDDING_MODEL") ?? "text-embedding-3-small",
+            examplesFile: text("HELIX_EMBEDDING_EXAMPLES"),
+          }
+        : undefined,
+      ensemble: ensembleFromEnv(text("HELIX_EVALUATOR_ENSEMBLE")),
+      learned: {
+        modelFile: text("HELIX_LEARNED_MODEL"),
+        minConfidence: number("HELIX_LEARNED_MIN_CONFIDENCE"),
+      },
+    },
+    logging: {
+      prompts: flag("HELIX_LOG_PROMPTS"),
+    },
+    quality: {
+      enabled: flag("HELIX_QUALITY_ESCALATION"),
+      checks: text("HELIX_QUALITY_CHECKS")?.split(",").map((check) => check.trim()).filter(Boolean),
+    },
+    sessions: {
+      enabled: flag("HELIX_SESSIONS"),
+      deescalateAfter: integer("HELIX_SESSION_DEESCALATE_AFTER"),
+      ttlMs: integer("HELIX_SESSION_TTL_MS"),
+    },
+    toolLoops: {
+      enabled: flag("HELIX_TOOL_LOOPS"),
+      escalateAfter: integer("HELIX_TOOL_LOOP_ESCALATE_AFTER"),
+      escalateOnErrors: integer("HELIX_TOOL_LOOP_ESCALATE_ON_ERRORS"),
+    },
+    experiments: jsonFileFromEnv<ExperimentConfig[]>("HELIX_EXPERIMENTS", text("HELIX_EXPERIMENTS"), errors),
+    server: {
+      port: integer("HELIX_PORT"),
+    },
+  };
+}
+
+/**
+ * A tier's score band, pricing (USD per million tokens), limits and
+ * capability flags (HELIX_{TIER}_VISION, _TOOLS, _JSON_SCHEMA, _REASONING =
+ * true/false)
+ */
+function tierFromEnv(
+  prefix: string,
+  number: (name: string) => number | undefined,
+  integer: (name: string) => number | undefined,
+  flag: (name: string) => boolean | undefined
+): DeepPartial<TierSettings> {
+  const input = number(`${prefix}_COST_INPUT`);
+  const output = number(`${prefix}_COST_OUTPUT`);
+  const vision = flag(`${prefix}_VISION`);
+  return {
+    minScore: number(`${prefix}_MIN_SCORE`),
+    cost: input === undefined && output === undefined ? undefined : { input: input ?? 0, output: output ?? 0 },
+    contextWindow: integer(`${prefix}_CONTEXT_WINDOW`),
+    maxTokens: integer(`${prefix}_MAX_TOKENS`),
+    input: vision === undefined ? undefined : vision ? ["text", "image"] : ["text"],
+    tools: flag(`${prefix}_TOOLS`),
+    jsonSchema: flag(`${prefix}_JSON_SCHEMA`),
+    reasoning: flag(`${prefix}_REASONING`),
+  };
+}
+
+/**
+ * Client keys from HELIX_CLIENT_KEYS ("label:key,label:key")
+ */
+function clientKeysFromEnv(value: string | undefined): ClientKeyConfig[] | undefined {
+  if (!value) return undefined;
+
+  return value.split(",").map((entry) => {
+    const separator = entry.indexOf(":");
+    return separator > 0
+      ? { label: entry.slice(0, separator).trim(), key: entry.slice(separator + 1).trim() }
+      : { label: `key-${entry.trim().slice(-4)}`, key: entry.trim() };
+  });
+}
+
+/**
+ * Ensemble members from HELIX_EVALUATOR_ENSEMBLE ("llm:2,heuristic:1")
+ */
+function ensembleFromEnv(value: string | undefined): EvaluatorConfig["ensemble"] {
+  if (!value) return undefined;
+
+  return {
+    members: value.split(",").map((entry) => {
+      const [strategy, weight] = entry.split(":").map((part) => part.trim());
+      return { strategy, weight: parseFloat(weight ?? "") || 1 };
+    }),
+  };
+}
+
+/**
+ * Contents of the JSON file named by an environment variable, such as the
+ * routing rules in HELIX_ROUTING_RULES
+ */
+function jsonFileFromEnv<T>(variable: string, path: string | undefined, errors: ConfigError[]): T | undefined {
+  if (!path) return undefined;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as T;
+  } catch (e) {
+    errors.push({ path: [variable], message: `could not read ${path}: ${(e as Error).message}` });
+    return undefined;
+  }
+}
+
+// Tier names a layer declares, ignoring a malformed list (validation reports it)
+function namedTiers(layer: ConfigLayer | null | undefined): RouteTier[] {
+  const tiers = layer?.routing?.tiers;
+  return Array.isArray(tiers) ? tiers.filter((tier) => typeof tier === "string") : [];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
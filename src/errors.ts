@@ -0,0 +1,91 @@
+/**
+ * Router Errors
+ *
+ * Errors raised by the router itself rather than by an upstream. Each
+ * carries the HTTP status, error type and headers the server should answer
+ * with.
+ */
+
+export class HelixRouterError extends Error {
+  readonly status: number;
+  readonly type: string;
+  readonly headers: Record<string, string>;
+
+  constructor(message: string, status: number, type: string, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = "HelixRouterError";
+    this.status = status;
+    this.type = type;
+    this.headers = headers;
+  }
+}
+
+/**
+ * A spend budget has no headroom left for any tier
+ */
+export class BudgetExceededError extends HelixRouterError {
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message, 429, "budget_exceeded", { "Retry-After": String(retryAfterSeconds) });
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * Missing or unknown client API key
+ */
+export class AuthenticationError extends HelixRouterError {
+  constructor(message: string) {
+    super(message, 401, "authentication_error", { "WWW-Authenticate": "Bearer" });
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * The client's key policy does not allow the request
+ */
+export class PermissionDeniedError extends HelixRouterError {
+  constructor(message: string) {
+    super(message, 403, "permission_error");
+    this.name = "PermissionDeniedError";
+  }
+}
+
+/**
+ * The client has exceeded its rate limit
+ */
+export class RateLimitError extends HelixRouterError {
+  constructor(message: string, retryAfterSeconds: number, headers: Record<string, string> = {}) {
+    super(message, 429, "rate_limit_exceeded", { ...headers, "Retry-After": String(retryAfterSeconds) });
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * The prompt and requested output do not fit any tier's context window
+ */
+export class ContextLengthExceededError extends HelixRouterError {
+  constructor(message: string) {
+    super(message, 400, "context_length_exceeded");
+    this.name = "ContextLengthExceededError";
+  }
+}
+
+/**
+ * No permitted tier offers a capability the request needs
+ */
+export class UnsupportedCapabilityError extends HelixRouterError {
+  constructor(message: string) {
+    super(message, 400, "unsupported_capability");
+    this.name = "UnsupportedCapabilityError";
+  }
+}
+
+/**
+ * The request cannot be translated for any provider it could go to
+ */
+export class InvalidRequestError extends HelixRouterError {
+  constructor(message: string) {
+    super(message, 400, "invalid_request_error");
+    this.name = "InvalidRequestError";
+  }
+}
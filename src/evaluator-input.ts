@@ -0,0 +1,139 @@
+/**
+ * Evaluator Input
+ *
+ * Assembles what the LOW model sees when scoring a conversation, within a
+ * token budget: the latest user message in full, then as much of the
+ * recent conversation as still fits, newest first. Images and tool
+ * payloads are replaced by short placeholders, and conversation features
+ * (turns, attachments, tool use, size) are passed as structured hints
+ * instead of raw content.
+ */
+
+import type { ChatMessage } from "./types.js";
+import { countMessageTokens, countTextTokens } from "./tokenizer.js";
+
+// Tokens of conversation sent to the LOW model when evaluator.inputBudget is unset
+export const DEFAULT_EVALUATOR_INPUT_BUDGET = 2000;
+
+// A single earlier message never takes more than this share of the budget
+const MAX_MESSAGE_SHARE = 0.25;
+
+// Context stops once less than this is left, rather than adding a stub
+const MIN_CONTEXT_TOKENS = 16;
+
+export interface ConversationHints {
+  turns: number; // user and assistant messages
+  attachments: number; // images and other non-text parts
+  toolCalls: number;
+  toolResults: number;
+  promptTokens: number; // whole conversation, images at their typical cost
+  omittedMessages: number; // earlier messages left out of the excerpt
+}
+
+export interface EvaluatorInput {
+  request: string; // latest user message, placeholders for attachments
+  context: string[]; // earlier messages that fit the budget, oldest first
+  hints: ConversationHints;
+}
+
+/**
+ * Pick the latest user message and the recent context that fits
+ * `budgetTokens`. The latest message is always kept whole, even when it
+ * alone exceeds the budget.
+ */
+export function buildEvaluatorInput(
+  messages: ChatMessage[],
+  budgetTokens = DEFAULT_EVALUATOR_INPUT_BUDGET
+): EvaluatorInput {
+  const latest = messages.map((message) => message.role).lastIndexOf("user");
+  const request = latest >= 0 ? messageText(messages[latest]) : "";
+
+  const context: string[] = [];
+  const earlier = latest >= 0 ? messages.slice(0, latest) : messages;
+  let remaining = budgetTokens - countTextTokens(request);
+  const perMessage = Math.max(1, Math.floor(budgetTokens * MAX_MESSAGE_SHARE));
+  for (let index = earlier.length - 1; index >= 0 && remaining >= MIN_CONTEXT_TOKENS; index--) {
+    const line = truncateToTokens(`${earlier[index].role}: ${messageText(earlier[index])}`, Math.min(perMessage, remaining));
+    context.unshift(line);
+    remaining -= countTextTokens(line);
+  }
+
+  return {
+    request,
+    context,
+    hints: {
+      turns: messages.filter((message) => message.role === "user" || message.role === "assistant").length,
+      attachments: messages.reduce(
+        (count, message) => count + (Array.isArray(message.content)
+          ? message.content.filter((part) => part.type !== "text").length
+          : 0),
+        0
+      ),
+      toolCalls: messages.reduce((count, message) => count + (message.tool_calls?.length ?? 0), 0),
+      toolResults: messages.filter((message) => message.role === "tool").length,
+      promptTokens: countMessageTokens(messages),
+      omittedMessages: earlier.length - context.length,
+    },
+  };
+}
+
+/**
+ * The evaluation prompt for an assembled input
+ */
+export function formatEvaluatorPrompt(input: EvaluatorInput): string {
+  const features = `Conversation features:\n${JSON.stringify(input.hints)}`;
+  if (input.context.length === 0 && input.hints.omittedMessages === 0) {
+    return `Evaluate the cognitive complexity of the following user request:
+
+${input.request}
+
+${features}`;
+  }
+
+  const omitted = input.hints.omittedMessages > 0
+    ? `[${input.hints.omittedMessages} earlier messages omitted]\n`
+    : "";
+  return `Evaluate the cognitive complexity of the following conversation:
+
+Conversation:
+${omitted}${input.context.join("\n")}
+
+Latest User Request:
+${input.request}
+
+${features}`;
+}
+
+/**
+ * Message content with attachments, tool calls and tool results reduced to
+ * placeholders
+ */
+function messageText(message: ChatMessage): string {
+  if (message.role === "tool") {
+    return `[tool result, ${plainText(message.content).length} chars]`;
+  }
+  const calls = (message.tool_calls ?? []).map((call) => `[called tool ${call.function.name}]`);
+  return [plainText(message.content), ...calls].filter(Boolean).join(" ");
+}
+
+// Text parts joined, with a placeholder for every other part
+function plainText(content: ChatMessage["content"]): string {
+  if (content == null) return "";
+  if (typeof content === "string") return content;
+  return content
+    .map((part) => part.type === "text" ? part.text ?? "" : part.type === "image_url" ? "[image]" : `[${part.type}]`)
+    .join(" ");
+}
+
+/**
+ * Cut text to roughly `maxTokens`, marking the cut
+ */
+function truncateToTokens(text: string, maxTokens: number): string {
+  // Only a head that could fit is tokenized
+  let cut = text.slice(0, maxTokens * 4);
+  if (cut.length === text.length && countTextTokens(text) <= maxTokens) return text;
+  while (cut && countTextTokens(cut) + 1 > maxTokens) {
+    cut = cut.slice(0, Math.floor(cut.length * 0.8));
+  }
+  return `${cut}…`;
+}
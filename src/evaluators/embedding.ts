@@ -0,0 +1,152 @@
+/**
+ * Embedding nearest-neighbour evaluation strategy
+ *
+ * Embeds the latest user message with an OpenAI-compatible /embeddings
+ * endpoint and labels it by weighted vote of the k most similar labelled
+ * examples. Examples are embedded once, on first use.
+ */
+
+import { readFileSync } from "node:fs";
+import type { ChatMessage, EmbeddingEvaluatorConfig, LabeledExample } from "../types.js";
+import type { EvaluationResult, Evaluator } from "./index.js";
+import { combineVotes } from "./vote.js";
+import { defaultEvaluation, hashPrompt, scoreEvaluation } from "../complexity-evaluator.js";
+import { contentText } from "../message-utils.js";
+import { countMessageTokens, tokenSizeFor } from "../tokenizer.js";
+
+const DEFAULT_NEIGHBOURS = 5;
+const EMBEDDING_BATCH_SIZE = 64;
+
+interface IndexedExample {
+  example: LabeledExample;
+  vector: number[];
+}
+
+export class EmbeddingEvaluator implements Evaluator {
+  readonly name = "embedding";
+  private config: EmbeddingEvaluatorConfig;
+  private logger: { info: (msg: string) => void; error: (msg: string) => void };
+  private index: Promise<IndexedExample[]> | null = null;
+
+  constructor(
+    config: EmbeddingEvaluatorConfig,
+    logger: { info: (msg: string) => void; error: (msg: string) => void }
+  ) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  async evaluate(messages: ChatMessage[]): Promise<EvaluationResult> {
+    const startTime = Date.now();
+    const promptHash = hashPrompt(messages);
+
+    try {
+      const examples = await this.getIndex();
+      if (examples.length === 0) {
+        throw new Error("no labelled examples configured");
+      }
+
+      const lastUser = [...messages].reverse().find((message) => message.role === "user");
+      const [vector] = await this.embed([lastUser ? contentText(lastUser.content) : ""]);
+
+      const neighbours = examples
+        .map((entry) => ({ ...entry, similarity: cosineSimilarity(vector, entry.vector) }))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, this.config.k ?? DEFAULT_NEIGHBOURS);
+
+      const { agreement, ...dimensions } = combineVotes(neighbours.map((neighbour) => ({
+        dimensions: neighbour.example,
+        weight: Math.max(0, neighbour.similarity),
+      })));
+      const closeness = neighbours.reduce((sum, neighbour) => sum + neighbour.similarity, 0) / neighbours.length;
+      const estimated = {
+        ...dimensions,
+        estimated_token_size: tokenSizeFor(countMessageTokens(messages)),
+        confidence: Number(Math.max(0, Math.min(1, closeness * agreement)).toFixed(2)),
+      };
+
+      return {
+        evaluation: { ...estimated, complexity_score: scoreEvaluation(estimated) },
+        latencyMs: Date.now() - startTime,
+        cached: false,
+        promptHash,
+        strategy: this.name,
+        source: "embedding",
+      };
+    } catch (error) {
+      this.logger.error(`[Helix] Embedding evaluation failed: ${error}`);
+      return {
+        evaluation: defaultEvaluation(),
+        latencyMs: Date.now() - startTime,
+        cached: false,
+        promptHash,
+        strategy: this.name,
+        source: "default",
+      };
+    }
+  }
+
+  /**
+   * Embed the labelled examples once; a failed attempt is retried next time
+   */
+  private getIndex(): Promise<IndexedExample[]> {
+    if (!this.index) {
+      this.index = this.buildIndex().catch((error) => {
+        this.index = null;
+        throw error;
+      });
+    }
+    return this.index;
+  }
+
+  private async buildIndex(): Promise<IndexedExample[]> {
+    const examples = [...(this.config.examples ?? []), ...readExamplesFile(this.config.examplesFile)];
+    const indexed: IndexedExample[] = [];
+    for (let i = 0; i < examples.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = examples.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const vectors = await this.embed(batch.map((example) => example.prompt));
+      batch.forEach((example, j) => indexed.push({ example, vector: vectors[j] }));
+    }
+    this.logger.info(`[Helix] Embedded ${indexed.length} labelled examples`);
+    return indexed;
+  }
+
+  private async embed(input: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.config.apiKey) {
+      headers["Authorization"] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/embeddings`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ model: this.config.model, input }),
+    });
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: ${response.status}`);
+    }
+
+    const data = await response.json() as { data: Array<{ index: number; embedding: number[] }> };
+    return [...data.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
+
+function readExamplesFile(path: string | undefined): LabeledExample[] {
+  if (!path) return [];
+  return readFileSync(path, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as LabeledExample);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
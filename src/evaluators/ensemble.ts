@@ -0,0 +1,73 @@
+/**
+ * Ensemble evaluation strategy: runs several evaluators in parallel and
+ * combines their dimensions by vote, each weighted by its configured weight
+ * times its own confidence. Members that threw or fell back to the
+ * default evaluation do not vote.
+ */
+
+import type { ChatMessage } from "../types.js";
+import type { EvaluationResult, Evaluator } from "./index.js";
+import { combineVotes } from "./vote.js";
+import { defaultEvaluation, hashPrompt, scoreEvaluation } from "../complexity-evaluator.js";
+
+export interface EnsembleMember {
+  evaluator: Evaluator;
+  weight: number;
+}
+
+export class EnsembleEvaluator implements Evaluator {
+  readonly name = "ensemble";
+  private members: EnsembleMember[];
+
+  constructor(members: EnsembleMember[]) {
+    this.members = members;
+  }
+
+  async evaluate(messages: ChatMessage[]): Promise<EvaluationResult> {
+    const settled = await Promise.allSettled(this.members.map(async (member) => ({
+      weight: member.weight,
+      result: await member.evaluator.evaluate(messages),
+    })));
+    const results = settled.flatMap((outcome) => (outcome.status === "fulfilled" ? [outcome.value] : []));
+
+    const voters = results.filter(({ result, weight }) => result.source !== "default" && weight > 0);
+    const latencyMs = Math.max(0, ...results.map(({ result }) => result.latencyMs));
+    const promptHash = results[0]?.result.promptHash ?? hashPrompt(messages);
+
+    if (voters.length === 0) {
+      return {
+        evaluation: defaultEvaluation(),
+        latencyMs,
+        cached: false,
+        promptHash,
+        strategy: this.name,
+        source: "default",
+      };
+    }
+
+    const { agreement, ...dimensions } = combineVotes(voters.map(({ result, weight }) => ({
+      dimensions: result.evaluation,
+      weight: weight * result.evaluation.confidence,
+    })));
+    const totalWeight = voters.reduce((sum, { weight }) => sum + weight, 0);
+    const confidence = voters.reduce(
+      (sum, { result, weight }) => sum + result.evaluation.confidence * weight,
+      0
+    ) / totalWeight;
+    const estimated = {
+      ...dimensions,
+      // Members measure prompt size the same way, so any one will do
+      estimated_token_size: voters[0].result.evaluation.estimated_token_size,
+      confidence: Number((confidence * agreement).toFixed(2)),
+    };
+
+    return {
+      evaluation: { ...estimated, complexity_score: scoreEvaluation(estimated) },
+      latencyMs,
+      cached: voters.every(({ result }) => result.cached),
+      promptHash,
+      strategy: this.name,
+      source: "ensemble",
+    };
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Heuristic evaluation strategy: the local pre-classifier on its own,
+ * never calling a model
+ */
+
+import type { ChatMessage } from "../types.js";
+import type { EvaluationResult, Evaluator } from "./index.js";
+import { classifyHeuristically } from "../heuristic-classifier.js";
+import { hashPrompt, scoreEvaluation } from "../complexity-evaluator.js";
+
+export class HeuristicEvaluator implements Evaluator {
+  readonly name = "heuristic";
+
+  async evaluate(messages: ChatMessage[]): Promise<EvaluationResult> {
+    const startTime = Date.now();
+    const guess = classifyHeuristically(messages);
+    return {
+      evaluation: { ...guess, complexity_score: scoreEvaluation(guess) },
+      latencyMs: Date.now() - startTime,
+      cached: false,
+      promptHash: hashPrompt(messages),
+      strategy: this.name,
+      source: "heuristic",
+    };
+  }
+}
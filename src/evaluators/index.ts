@@ -0,0 +1,101 @@
+/**
+ * Evaluation Strategies
+ *
+ * An evaluator turns a conversation into a ComplexityEvaluation. The
+ * strategy is selected by EvaluatorConfig.strategy from a registry holding
+ * the built-in strategies (llm, heuristic, embedding, ensemble, learned);
+ * embedders can register their own or hand HelixProxy an Evaluator instance.
+ */
+
+import type {
+  ChatMessage,
+  ComplexityEvaluation,
+  EvaluationSource,
+  EvaluatorConfig,
+  ProviderChain,
+} from "../types.js";
+import type { ProviderHealth } from "../circuit-breaker.js";
+import { ComplexityEvaluator } from "../complexity-evaluator.js";
+import { HeuristicEvaluator } from "./heuristic.js";
+import { EmbeddingEvaluator } from "./embedding.js";
+import { EnsembleEvaluator } from "./ensemble.js";
+import { LearnedEvaluator } from "./learned.js";
+
+export interface EvaluationResult {
+  evaluation: ComplexityEvaluation;
+  latencyMs: number;
+  cached: boolean;
+  promptHash: string;
+  strategy: string; // name of the evaluator that produced the result
+  source: EvaluationSource;
+}
+
+export interface Evaluator {
+  readonly name: string;
+
+  /**
+   * Evaluate a conversation. Implementations should not throw; on failure
+   * they return a default evaluation with source "default".
+   */
+  evaluate(messages: ChatMessage[]): Promise<EvaluationResult>;
+}
+
+// Everything a strategy may need to build itself
+export interface EvaluatorContext {
+  lowProvider: ProviderChain;
+  logger: { info: (msg: string) => void; error: (msg: string) => void; warn: (msg: string) => void };
+  cacheTtlMs: number;
+  health?: ProviderHealth;
+  config: EvaluatorConfig;
+}
+
+export type EvaluatorFactory = (context: EvaluatorContext) => Evaluator;
+
+const EVALUATORS = new Map<string, EvaluatorFactory>([
+  ["llm", (context) => new ComplexityEvaluator(
+    context.lowProvider,
+    context.logger,
+    context.cacheTtlMs,
+    context.health,
+    context.config.heuristicConfidence,
+    context.config.inputBudget
+  )],
+  ["heuristic", () => new HeuristicEvaluator()],
+  ["embedding", (context) => {
+    if (!context.config.embedding) {
+      throw new Error("evaluator.embedding must be configured for the embedding strategy");
+    }
+    return new EmbeddingEvaluator(context.config.embedding, context.logger);
+  }],
+  ["ensemble", (context) => {
+    const members = context.config.ensemble?.members ?? [];
+    if (members.length === 0) {
+      throw new Error("evaluator.ensemble.members must list at least one strategy");
+    }
+    return new EnsembleEvaluator(members.map((member) => {
+      if (member.strategy === "ensemble") {
+        throw new Error("An ensemble cannot contain another ensemble");
+      }
+      return { evaluator: createEvaluator(member.strategy, context), weight: member.weight ?? 1 };
+    }));
+  }],
+  ["learned", (context) => new LearnedEvaluator(context.config.learned, context.logger, createEvaluator("llm", context))],
+]);
+
+/**
+ * Register an evaluation strategy, replacing any with the same name
+ */
+export function registerEvaluator(name: string, factory: EvaluatorFactory): void {
+  EVALUATORS.set(name, factory);
+}
+
+/**
+ * Build the evaluator for a strategy, defaulting to the LLM evaluator
+ */
+export function createEvaluator(strategy: string | undefined, context: EvaluatorContext): Evaluator {
+  const factory = EVALUATORS.get(strategy ?? "llm");
+  if (!factory) {
+    throw new Error(`Unknown evaluator strategy: ${strategy} (registered: ${[...EVALUATORS.keys()].join(", ")})`);
+  }
+  return factory(context);
+}
@@ -0,0 +1,86 @@
+/**
+ * Learned evaluation strategy: runs the model written by
+ * `helix-router train` in-process, and asks a fallback evaluator (the LLM
+ * evaluator by default) whenever the model is unsure or missing.
+ */
+
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import type {
+  AccuracyRequirement,
+  ChatMessage,
+  ConstraintLevel,
+  EvaluatorConfig,
+  ReasoningDepth,
+} from "../types.js";
+import type { EvaluationResult, Evaluator } from "./index.js";
+import { loadModel, predict, type LearnedModel } from "../learned-model.js";
+import { hashPrompt } from "../complexity-evaluator.js";
+import { contentText } from "../message-utils.js";
+import { countMessageTokens, tokenSizeFor } from "../tokenizer.js";
+import { LOG_DIR } from "../logger.js";
+
+export const DEFAULT_MODEL_FILE = join(LOG_DIR, "router-model.json");
+const DEFAULT_MIN_CONFIDENCE = 0.7;
+
+export class LearnedEvaluator implements Evaluator {
+  readonly name = "learned";
+  private model: LearnedModel | null = null;
+  private minConfidence: number;
+  private fallback: Evaluator;
+
+  constructor(
+    config: EvaluatorConfig["learned"] = {},
+    logger: { info: (msg: string) => void; warn: (msg: string) => void },
+    fallback: Evaluator
+  ) {
+    this.minConfidence = config.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+    this.fallback = fallback;
+
+    const modelFile = config.modelFile ?? DEFAULT_MODEL_FILE;
+    if (!existsSync(modelFile)) {
+      logger.warn(`[Helix] No learned model at ${modelFile}; run "helix-router train". Using ${fallback.name}`);
+      return;
+    }
+    try {
+      this.model = loadModel(modelFile);
+      logger.info(`[Helix] Loaded learned model (${this.model.samples} samples, ${this.model.trainedAt})`);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn(`[Helix] Cannot load learned model ${modelFile} (${reason}); run "helix-router train". Using ${fallback.name}`);
+    }
+  }
+
+  async evaluate(messages: ChatMessage[]): Promise<EvaluationResult> {
+    if (!this.model) {
+      return { ...await this.fallback.evaluate(messages), strategy: this.name };
+    }
+
+    const startTime = Date.now();
+    const lastUser = [...messages].reverse().find((message) => message.role === "user");
+    const prediction = predict(this.model, lastUser ? contentText(lastUser.content) : "");
+    if (prediction.taskConfidence < this.minConfidence) {
+      return { ...await this.fallback.evaluate(messages), strategy: this.name };
+    }
+
+    // The model predicts the score directly; dimensions are its coarse bands
+    const level = (prediction.score >= 70 ? "high" : prediction.score >= 40 ? "medium" : "low") as
+      ReasoningDepth & ConstraintLevel & AccuracyRequirement;
+    return {
+      evaluation: {
+        reasoning_depth: level,
+        task_type: prediction.taskType,
+        constraint_level: level,
+        required_accuracy: level,
+        estimated_token_size: tokenSizeFor(countMessageTokens(messages)),
+        complexity_score: prediction.score,
+        confidence: Number(prediction.taskConfidence.toFixed(2)),
+      },
+      latencyMs: Date.now() - startTime,
+      cached: false,
+      promptHash: hashPrompt(messages),
+      strategy: this.name,
+      source: "learned",
+    };
+  }
+}
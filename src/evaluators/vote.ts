@@ -0,0 +1,49 @@
+/**
+ * Weighted voting over evaluation dimensions, shared by the embedding and
+ * ensemble strategies
+ */
+
+import type {
+  AccuracyRequirement,
+  ConstraintLevel,
+  ReasoningDepth,
+  TaskType,
+} from "../types.js";
+
+export interface Dimensions {
+  reasoning_depth: ReasoningDepth;
+  task_type: TaskType;
+  constraint_level: ConstraintLevel;
+  required_accuracy: AccuracyRequirement;
+}
+
+export interface Vote {
+  dimensions: Dimensions;
+  weight: number;
+}
+
+/**
+ * Pick each dimension by weighted majority. `agreement` is the weight share
+ * behind the winning task type, 0-1.
+ */
+export function combineVotes(votes: Vote[]): Dimensions & { agreement: number } {
+  const pick = <K extends keyof Dimensions>(key: K): { value: Dimensions[K]; share: number } => {
+    const totals = new Map<Dimensions[K], number>();
+    let sum = 0;
+    for (const vote of votes) {
+      totals.set(vote.dimensions[key], (totals.get(vote.dimensions[key]) ?? 0) + vote.weight);
+      sum += vote.weight;
+    }
+    const [value, weight] = [...totals.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+    return { value, share: sum > 0 ? weight / sum : 0 };
+  };
+
+  const task = pick("task_type");
+  return {
+    reasoning_depth: pick("reasoning_depth").value,
+    task_type: task.value,
+    constraint_level: pick("constraint_level").value,
+    required_accuracy: pick("required_accuracy").value,
+    agreement: task.share,
+  };
+}
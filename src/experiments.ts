@@ -0,0 +1,311 @@
+/**
+ * Routing Experiments
+ *
+ * Shadow experiments send a sample of requests to a second tier as well and
+ * record both answers, returning only the routed one. Split experiments
+ * route a sample of callers with a second set of thresholds. Enrolment is
+ * decided by hashing the experiment name with the request ID (shadow) or the
+ * caller (split), so a caller stays in one arm. Every enrolled request is
+ * written to experiments.log next to routing.log, and
+ * `helix-router experiments` compares the arms.
+ */
+
+import { createHash } from "node:crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type {
+  ExperimentArm,
+  ExperimentConfig,
+  ExperimentLogEntry,
+  RouteTier,
+  RoutingThresholds,
+  TiersConfig,
+} from "./types.js";
+import { LOG_DIR } from "./logger.js";
+import { formatUsd } from "./pricing.js";
+import { findTierErrors } from "./tiers.js";
+
+export const EXPERIMENTS_LOG = join(LOG_DIR, "experiments.log");
+
+// Logged answers are truncated to keep experiments.log manageable
+export const MAX_LOGGED_RESPONSE_CHARS = 4000;
+
+const EXPERIMENT_TYPES = ["shadow", "split"];
+
+/**
+ * A shadow experiment with the tier that also answers its requests
+ */
+export type ShadowExperiment = ExperimentConfig & { type: "shadow"; tier: RouteTier };
+
+export interface SplitAssignment {
+  experiment: ExperimentConfig;
+  arm: "control" | "treatment";
+}
+
+export interface ArmSummary {
+  arm: ExperimentArm;
+  requests: number;
+  errors: number;
+  avgLatencyMs: number;
+  avgTokensOut: number;
+  totalCost: number;
+  tiers: Record<RouteTier, number>;
+}
+
+export interface ExperimentSummary {
+  experiment: string;
+  type: ExperimentLogEntry["type"];
+  requests: number;
+  arms: ArmSummary[];
+}
+
+/**
+ * Tier settings and thresholds a split experiment's treatment arm routes
+ * with. `minScores` override the tiers' own; the thresholds only move PRO
+ * and MID bands that have no minScore.
+ */
+export function treatmentRouting(
+  experiment: ExperimentConfig,
+  tiers: TiersConfig,
+  thresholds: Partial<RoutingThresholds>
+): { tiers: TiersConfig; thresholds: Partial<RoutingThresholds> } {
+  const treated: TiersConfig = { ...tiers };
+  for (const [tier, minScore] of Object.entries(experiment.minScores ?? {})) {
+    treated[tier] = { ...tiers[tier], minScore };
+  }
+  return { tiers: treated, thresholds: { ...thresholds, ...experiment.thresholds } };
+}
+
+/**
+ * Mistakes in an experiment list, each with the config path to report it at.
+ * `order` lists the configured tiers, cheapest first; `tiers` and
+ * `thresholds` are the running ones a split's treatment is applied to.
+ */
+export function findExperimentErrors(
+  experiments: ExperimentConfig[],
+  order: RouteTier[],
+  tiers: TiersConfig,
+  thresholds: Partial<RoutingThresholds>
+): Array<{ path: Array<string | number>; message: string }> {
+  const errors: Array<{ path: Array<string | number>; message: string }> = [];
+  const names = new Set<string>();
+  experiments.forEach((experiment, index) => {
+    const error = (field: string | null, message: string) =>
+      errors.push({ path: field ? ["experiments", index, field] : ["experiments", index], message });
+    if (!experiment || typeof experiment !== "object") {
+      error(null, "expected an experiment object");
+      return;
+    }
+    if (typeof experiment.name !== "string" || !experiment.name) {
+      error("name", "is required");
+    } else if (names.has(experiment.name)) {
+      error("name", `duplicate experiment name "${experiment.name}"`);
+    }
+    names.add(experiment.name);
+
+    if (typeof experiment.percent !== "number" || experiment.percent < 0 || experiment.percent > 100) {
+      error("percent", "expected a number from 0 to 100");
+    }
+
+    if (experiment.type === "shadow") {
+      if (experiment.tier === undefined) {
+        error("tier", "is required for a shadow experiment");
+      } else if (!order.includes(experiment.tier)) {
+        error("tier", `expected one of ${order.join(", ")}`);
+      }
+      (Array.isArray(experiment.from) ? experiment.from : []).forEach((tier, position) => {
+        if (!order.includes(tier)) {
+          errors.push({ path: ["experiments", index, "from", position], message: `expected one of ${order.join(", ")}` });
+        }
+      });
+    } else if (experiment.type === "split") {
+      if (experiment.thresholds === undefined && experiment.minScores === undefined) {
+        error(null, "a split experiment needs thresholds or minScores for its treatment arm");
+        return;
+      }
+      for (const [tier, minScore] of Object.entries(experiment.minScores ?? {})) {
+        if (!order.includes(tier)) {
+          errors.push({ path: ["experiments", index, "minScores", tier], message: `unknown tier, expected one of ${order.join(", ")}` });
+        } else if (typeof minScore !== "number" || minScore < 0 || minScore > 100) {
+          errors.push({ path: ["experiments", index, "minScores", tier], message: "expected a number from 0 to 100" });
+        }
+      }
+      const treatment = treatmentRouting(experiment, tiers, thresholds);
+      for (const { path, message } of findTierErrors(order, treatment.tiers, treatment.thresholds)) {
+        error(null, `treatment arm: ${path.join(".")} ${message}`);
+      }
+    } else {
+      error("type", `expected one of ${EXPERIMENT_TYPES.join(", ")}`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Assigns requests to running experiments and writes their results
+ */
+export class ExperimentTracker {
+  private experiments: ExperimentConfig[];
+  private logger: { error: (msg: string) => void };
+  private logFile: string;
+
+  constructor(
+    experiments: ExperimentConfig[] = [],
+    logger: { error: (msg: string) => void },
+    logFile = EXPERIMENTS_LOG
+  ) {
+    this.experiments = experiments.filter((experiment) => experiment.enabled !== false);
+    this.logger = logger;
+    this.logFile = logFile;
+  }
+
+  /**
+   * The enabled split experiments
+   */
+  getSplits(): ExperimentConfig[] {
+    return this.experiments.filter((experiment) => experiment.type === "split");
+  }
+
+  /**
+   * The split arm a caller falls in: the first split experiment that
+   * enrols it, if any
+   */
+  assignSplit(caller: string): SplitAssignment | undefined {
+    for (const experiment of this.getSplits()) {
+      if (!sampled(experiment, caller)) continue;
+      return { experiment, arm: bucket(`${experiment.name}:arm`, caller) < 50 ? "treatment" : "control" };
+    }
+    return undefined;
+  }
+
+  /**
+   * Shadow experiments that sample a request routed to `tier`
+   */
+  shadowsFor(tier: RouteTier, requestId: string): ShadowExperiment[] {
+    return this.experiments.filter((experiment): experiment is ShadowExperiment =>
+      experiment.type === "shadow" &&
+      experiment.tier !== undefined &&
+      experiment.tier !== tier &&
+      (!experiment.from || experiment.from.includes(tier)) &&
+      sampled(experiment, requestId)
+    );
+  }
+
+  /**
+   * Append an enrolled request to the experiments log
+   */
+  record(entry: ExperimentLogEntry): void {
+    try {
+      const directory = dirname(this.logFile);
+      if (!existsSync(directory)) {
+        mkdirSync(directory, { recursive: true });
+      }
+      appendFileSync(this.logFile, JSON.stringify(entry) + "\n", "utf-8");
+    } catch (error) {
+      this.logger.error(`[Helix] Experiment logging failed: ${error}`);
+    }
+  }
+}
+
+/**
+ * Entries of an experiments log, skipping malformed lines
+ */
+export function readExperimentLog(file: string): ExperimentLogEntry[] {
+  if (!existsSync(file)) return [];
+
+  const entries: ExperimentLogEntry[] = [];
+  for (const line of readFileSync(file, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as ExperimentLogEntry);
+    } catch {
+      continue;
+    }
+  }
+  return entries;
+}
+
+/**
+ * Per-arm totals of every experiment in a log, in order of first appearance
+ */
+export function summarizeExperiments(entries: ExperimentLogEntry[]): ExperimentSummary[] {
+  const summaries = new Map<string, ExperimentSummary>();
+
+  for (const entry of entries) {
+    let summary = summaries.get(entry.experiment);
+    if (!summary) {
+      summary = { experiment: entry.experiment, type: entry.type, requests: 0, arms: [] };
+      summaries.set(entry.experiment, summary);
+    }
+    summary.requests++;
+
+    for (const result of entry.arms ?? []) {
+      let arm = summary.arms.find((candidate) => candidate.arm === result.arm);
+      if (!arm) {
+        arm = { arm: result.arm, requests: 0, errors: 0, avgLatencyMs: 0, avgTokensOut: 0, totalCost: 0, tiers: {} };
+        summary.arms.push(arm);
+      }
+      // Running averages, rounded once every entry is in
+      arm.avgLatencyMs = (arm.avgLatencyMs * arm.requests + (result.latencyMs ?? 0)) / (arm.requests + 1);
+      arm.avgTokensOut = (arm.avgTokensOut * arm.requests + (result.tokensOut ?? 0)) / (arm.requests + 1);
+      arm.requests++;
+      if (result.error || (result.status !== undefined && result.status >= 400)) arm.errors++;
+      arm.totalCost += result.cost ?? 0;
+      arm.tiers[result.tier] = (arm.tiers[result.tier] ?? 0) + 1;
+    }
+  }
+
+  const results = [...summaries.values()];
+  for (const arm of results.flatMap((summary) => summary.arms)) {
+    arm.avgLatencyMs = Math.round(arm.avgLatencyMs);
+    arm.avgTokensOut = Math.round(arm.avgTokensOut);
+  }
+  return results;
+}
+
+/**
+ * Side-by-side comparison of each experiment's arms
+ */
+export function formatExperimentReport(summaries: ExperimentSummary[]): string {
+  const lines: string[] = [];
+  for (const summary of summaries) {
+    lines.push(`Experiment ${summary.experiment} (${summary.type}, ${summary.requests} requests)`);
+    lines.push(
+      `  ${"arm".padEnd(10)}${"requests".padStart(9)}${"errors".padStart(8)}${"avg latency".padStart(13)}` +
+      `${"avg out".padStart(9)}${"avg cost".padStart(13)}${"total cost".padStart(13)}  tiers`
+    );
+    for (const arm of summary.arms) {
+      const tiers = Object.entries(arm.tiers).map(([tier, count]) => `${tier.toUpperCase()} ${count}`).join(", ");
+      lines.push(
+        `  ${arm.arm.padEnd(10)}${String(arm.requests).padStart(9)}${String(arm.errors).padStart(8)}` +
+        `${`${arm.avgLatencyMs}ms`.padStart(13)}${String(arm.avgTokensOut).padStart(9)}` +
+        `${formatUsd(arm.totalCost / arm.requests).padStart(13)}${formatUsd(arm.totalCost).padStart(13)}  ${tiers}`
+      );
+    }
+
+    // What the second arm costs and how much slower it is than the first
+    const [base, other] = summary.type === "shadow"
+      ? [summary.arms.find((arm) => arm.arm === "primary"), summary.arms.find((arm) => arm.arm === "shadow")]
+      : [summary.arms.find((arm) => arm.arm === "control"), summary.arms.find((arm) => arm.arm === "treatment")];
+    if (base && other && base.totalCost > 0) {
+      const ratio = (other.totalCost / other.requests) / (base.totalCost / base.requests);
+      lines.push(`  ${other.arm} costs ${Math.round(ratio * 100)}% of ${base.arm} per request, ` +
+        `latency ${other.avgLatencyMs - base.avgLatencyMs >= 0 ? "+" : ""}${other.avgLatencyMs - base.avgLatencyMs}ms`);
+    }
+    lines.push("");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Whether a request or caller falls in an experiment's sample
+ */
+function sampled(experiment: ExperimentConfig, key: string): boolean {
+  return bucket(experiment.name, key) < experiment.percent;
+}
+
+// Stable position of a key in 0-100 for a given salt
+function bucket(salt: string, key: string): number {
+  const hash = createHash("sha256").update(`${salt}:${key}`).digest();
+  return (hash.readUInt32BE(0) / 0x100000000) * 100;
+}
@@ -0,0 +1,114 @@
+/**
+ * Heuristic Pre-Classifier
+ *
+ * Classifies a conversation locally from surface features (length, code
+ * fences, math notation, task keywords, conversation depth, attachments)
+ * so that obvious requests skip the LOW-model evaluation call. Returns the
+ * dimensions with its own confidence; the evaluator scores them and only
+ * trusts the result when the confidence clears the configured bar.
+ */
+
+import type {
+  AccuracyRequirement,
+  ChatMessage,
+  ComplexityEvaluation,
+  ConstraintLevel,
+  ReasoningDepth,
+  TaskType,
+} from "./types.js";
+import { contentText } from "./message-utils.js";
+import { countMessageTokens, countTextTokens, tokenSizeFor } from "./tokenizer.js";
+
+export type HeuristicEvaluation = Omit<ComplexityEvaluation, "complexity_score">;
+
+// Highest confidence the heuristic ever reports; the LLM judges anything less obvious
+const MAX_CONFIDENCE = 0.95;
+
+const SMALL_TALK = /^(hi|hello|hey|thanks?|thank you|thx|ok(ay)?|cool|great|nice|yes|no|sure|got it|bye|good (morning|night))\b[\s!.?]*$|^(你好|谢谢|好的|收到|嗯|再见)[\s!！。.?？]*$/i;
+
+const CODE_FENCE = /```/;
+const CODE_SYNTAX = /\b(function|class|def|import|return|const|let|var|SELECT|public|private)\b|=>|[{};]\s*\n/;
+const MATH_SYNTAX = /[∑∫√π≤≥≠±∞]|\\(frac|sum|int|sqrt)|\b\d+\s*[\^*/]\s*\d+|\b(prove|derivative|integral|equation|theorem|probability|matrix)\b|证明|积分|方程/i;
+const CONSTRAINT_WORDS = /\b(must|should|ensure|without|only|exactly|at least|at most|no more than|required?)\b|必须|不要|确保|至少|最多/gi;
+
+const TASK_KEYWORDS: Array<[TaskType, RegExp]> = [
+  ["architecture_design", /\b(architecture|system design|design (a|an|the) (system|service|platform)|microservices?|scalab\w+|distributed|trade-?offs?)\b|架构|系统设计/i],
+  ["mathematical_reasoning", /\b(prove|proof|calculate|solve|derivative|integral|equation|theorem|probability)\b|证明|计算|求解/i],
+  ["multi_step_planning", /\b(plan|roadmap|step[- ]by[- ]step|milestones?|migration plan|strategy)\b|计划|规划|步骤/i],
+  ["coding", /\b(code|function|bug|debug|refactor|implement|compile|stack trace|typescript|python|javascript|sql|regex)\b|代码|函数|调试|实现/i],
+  ["visualization", /\b(chart|graph|plot|diagram|visuali[sz]e|mermaid)\b|图表|可视化/i],
+  ["summarization", /\b(summari[sz]e|summary|tl;?dr|key points)\b|总结|摘要|概括/i],
+  ["writing", /\b(write|draft|essay|email|story|poem|blog|rewrite|polish)\b|写一|撰写|润色/i],
+  ["extraction", /\b(extract|translate|list all|find (all|the)|parse|what is|define)\b|提取|翻译/i],
+  ["classification", /\b(classify|categori[sz]e|label|sentiment|is this|which (one|category))\b|分类|判断/i],
+];
+
+// Task types that call for careful, precise answers
+const HIGH_ACCURACY_TASKS: TaskType[] = ["coding", "mathematical_reasoning", "architecture_design"];
+const DEEP_REASONING_TASKS: TaskType[] = ["architecture_design", "mathematical_reasoning", "multi_step_planning"];
+
+/**
+ * Classify a conversation from surface features
+ */
+export function classifyHeuristically(messages: ChatMessage[]): HeuristicEvaluation {
+  const lastUser = [...messages].reverse().find((message) => message.role === "user");
+  const text = lastUser ? contentText(lastUser.content).trim() : "";
+  const tokens = countTextTokens(text);
+  const estimated_token_size = tokenSizeFor(countMessageTokens(messages));
+
+  const turns = messages.filter((message) => message.role === "user" || message.role === "assistant").length;
+  const attachments = messages.reduce(
+    (count, message) => count + (Array.isArray(message.content)
+      ? message.content.filter((part) => part.type !== "text").length
+      : 0),
+    0
+  );
+
+  // Small talk scores as classification, the cheapest task weight
+  if (tokens <= 12 && SMALL_TALK.test(text) && attachments === 0) {
+    return {
+      reasoning_depth: "low",
+      task_type: "classification",
+      constraint_level: "low",
+      required_accuracy: "low",
+      estimated_token_size,
+      confidence: MAX_CONFIDENCE,
+    };
+  }
+
+  const matches = TASK_KEYWORDS.filter(([, pattern]) => pattern.test(text)).map(([task]) => task);
+  const hasCode = CODE_FENCE.test(text) || CODE_SYNTAX.test(text);
+  const hasMath = MATH_SYNTAX.test(text);
+  if (hasCode && !matches.includes("coding")) matches.push("coding");
+  if (hasMath && !matches.includes("mathematical_reasoning")) matches.push("mathematical_reasoning");
+
+  // Keyword order puts the more demanding task first when several match
+  const task_type: TaskType = matches[0] ?? "other";
+  const constraints = text.match(CONSTRAINT_WORDS)?.length ?? 0;
+
+  const reasoning_depth: ReasoningDepth =
+    DEEP_REASONING_TASKS.includes(task_type) || tokens > 1500 || constraints >= 4 ? "high"
+    : tokens < 40 && !hasCode ? "low"
+    : "medium";
+  const constraint_level: ConstraintLevel = constraints >= 3 ? "high" : constraints >= 1 ? "medium" : "low";
+  const required_accuracy: AccuracyRequirement =
+    HIGH_ACCURACY_TASKS.includes(task_type) ? "high"
+    : tokens < 40 && constraints === 0 ? "low"
+    : "medium";
+
+  // Confident only when exactly one task matches; long, deep or multimodal
+  // conversations are left to the LLM
+  let confidence = matches.length === 1 ? 0.85 : matches.length === 0 && tokens < 20 ? 0.7 : 0.5;
+  if (tokens > 500) confidence -= 0.15;
+  if (turns > 6) confidence -= 0.1;
+  if (attachments > 0) confidence -= 0.1;
+
+  return {
+    reasoning_depth,
+    task_type,
+    constraint_level,
+    required_accuracy,
+    estimated_token_size,
+    confidence: Math.max(0, Math.min(MAX_CONFIDENCE, Number(confidence.toFixed(2)))),
+  };
+}
@@ -2,7 +2,7 @@
  * Helix Router - OpenClaw Smart Two-Stage Model Router Plugin
  *
  * Stage 1: Uses LOW model to evaluate task complexity
- * Stage 2: Routes to PRO/MID/LOW based on complexity score
+ * Stage 2: Routes to PRO/MID/LOW (or any configured tiers) based on complexity score
  *
  * Default strategy: MID (balanced speed and quality)
  */
@@ -16,46 +16,34 @@ import type {
   StreamChunk,
   ChatMessage,
   HelixRouterConfig,
-  ProvidersConfig,
+  ProviderChain,
   RoutingLogEntry,
 } from "./types.js";
-import { ComplexityEvaluator } from "./complexity-evaluator.js";
-import { RoutingEngine } from "./routing-engine.js";
+import { createEvaluator, type Evaluator } from "./evaluators/index.js";
+import { RoutingEngine, tierLimits } from "./routing-engine.js";
 import { HelixLogger, LOG_FILE } from "./logger.js";
-import { join } from "node:path";
-import { homedir } from "node:os";
-import { readFileSync, existsSync, mkdirSync } from "node:fs";
+import { BudgetTracker } from "./budget.js";
+import { tierModelFields } from "./capabilities.js";
+import { toProviderChain } from "./upstream.js";
+import { ConfigWatcher } from "./config-watcher.js";
+import { describeChanges, describeErrors, validateConfig } from "./config-validation.js";
+import { CONFIG_FILE, loadConfig, resolveConfig } from "./config.js";
+import { tierLabel, tierOrder } from "./tiers.js";
 
 const VERSION = "1.0.0";
 
-// Default provider configuration (your bifrost setup)
-const DEFAULT_PROVIDERS: ProvidersConfig = {
-  pro: {
-    baseUrl: process.env.HELIX_PRO_URL ?? "http://192.168.1.60:8310/v1",
-    apiKey: process.env.HELIX_PRO_KEY ?? "",
-    model: process.env.HELIX_PRO_MODEL ?? "kiro-proxy/pro",
-  },
-  mid: {
-    baseUrl: process.env.HELIX_MID_URL ?? "http://192.168.1.60:8310/v1",
-    apiKey: process.env.HELIX_MID_KEY ?? "",
-    model: process.env.HELIX_MID_MODEL ?? "kiro-proxy/mid",
-  },
-  low: {
-    baseUrl: process.env.HELIX_LOW_URL ?? "http://192.168.1.60:8310/v1",
-    apiKey: process.env.HELIX_LOW_KEY ?? "",
-    model: process.env.HELIX_LOW_MODEL ?? "kiro-proxy/low",
-  },
-};
-
 // Generate unique request IDs
 function generateRequestId(): string {
   return `hr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
-// Plugin state
-let evaluator: ComplexityEvaluator | null = null;
+// Plugin state; config, evaluator, router and budget are swapped together on reload
+let config: HelixRouterConfig | null = null;
+let evaluator: Evaluator | null = null;
 let router: RoutingEngine | null = null;
 let helixLogger: HelixLogger | null = null;
+let budget: BudgetTracker | null = null;
+let watcher: ConfigWatcher | null = null;
 
 const plugin: OpenClawPluginDefinition = {
   id: "helix-router",
@@ -66,46 +54,45 @@ const plugin: OpenClawPluginDefinition = {
   async register(api: OpenClawPluginApi) {
     const log = api.logger;
 
-    // Load configuration
-    const config = loadConfig(api);
+    // Load configuration, leaving out the file when it is unreadable or
+    // makes the configuration invalid
+    let initial: HelixRouterConfig;
+    try {
+      initial = loadConfig({ plugin: api.pluginConfig });
+    } catch (e) {
+      log.error(`[Helix] Ignoring ${CONFIG_FILE}: ${(e as Error).message}`);
+      initial = loadConfig({ file: null, plugin: api.pluginConfig });
+    }
     log.info(`[Helix] Initializing Helix Router v${VERSION}`);
 
     // Initialize components
-    evaluator = new ComplexityEvaluator(
-      config.providers.low,
-      log,
-      config.cache?.ttlMs ?? 3600000
-    );
-
-    router = new RoutingEngine(
-      config.providers,
-      config.routing,
-      log
-    );
-
+    applyConfig(initial, log);
     helixLogger = new HelixLogger(true, log);
 
     // Register provider
-    const provider = createHelixProvider(config);
+    const provider = createHelixProvider();
     api.registerProvider(provider);
 
     log.info("[Helix] Provider registered: helix-router");
-    log.info(`[Helix] PRO model: ${config.providers.pro.model}`);
-    log.info(`[Helix] MID model: ${config.providers.mid.model}`);
-    log.info(`[Helix] LOW model: ${config.providers.low.model}`);
-    log.info(`[Helix] Thresholds: PRO>=${config.routing?.proThreshold ?? 75}, MID>=${config.routing?.midThreshold ?? 35}`);
+    const { bands } = router!.getStats();
+    for (const { tier } of [...bands].reverse()) {
+      log.info(`[Helix] ${tier.toUpperCase()} model: ${describeChain(initial.providers[tier])}`);
+    }
+    log.info(`[Helix] Score bands: ${[...bands].reverse().map((band) => `${band.tier.toUpperCase()}>=${band.minScore}`).join(", ")}`);
 
     // Register /helix command
     api.registerCommand({
       name: "helix",
-      description: "Helix Router commands: stats, reset, config",
+      description: "Helix Router commands: stats, reset, config, reload",
       acceptsArgs: true,
       requireAuth: false,
       handler: async (ctx) => {
         const args = ctx.args?.trim().toLowerCase() || "stats";
 
         if (args === "stats") {
-          return { text: helixLogger!.formatStats() };
+          // Spend may have been recorded by the standalone server
+          budget!.reload();
+          return { text: [helixLogger!.formatStats(router!.getTiers()), "", budget!.formatStatus()].join("\n") };
         }
 
         if (args === "reset") {
@@ -113,6 +100,10 @@ const plugin: OpenClawPluginDefinition = {
           return { text: "Stats reset successfully." };
         }
 
+        if (args === "reload") {
+          return { text: reloadConfig(api).join("\n") };
+        }
+
         if (args === "config") {
           const stats = router!.getStats();
           return {
@@ -122,10 +113,13 @@ const plugin: OpenClawPluginDefinition = {
               "**Providers:**",
               ...stats.providers,
               "",
-              "**Thresholds:**",
-              `- PRO: score >= ${stats.thresholds.proThreshold}`,
-              `- MID: score >= ${stats.thresholds.midThreshold}`,
-              `- LOW: score < ${stats.thresholds.midThreshold}`,
+              "**Score bands:**",
+              ...[...stats.bands].reverse().map((band, i, bands) => i === bands.length - 1 && bands.length > 1
+                ? `- ${band.tier.toUpperCase()}: score < ${bands[i - 1].minScore}`
+                : `- ${band.tier.toUpperCase()}: score >= ${band.minScore}`),
+              "",
+              "**Rules** (checked before the thresholds, in order):",
+              ...stats.rules.map((rule) => `- ${rule}`),
               "",
               `**Log file:** \`${LOG_FILE}\``,
             ].join("\n"),
@@ -139,18 +133,23 @@ const plugin: OpenClawPluginDefinition = {
             "• `/helix stats` - Show routing statistics",
             "• `/helix reset` - Reset statistics",
             "• `/helix config` - Show current configuration",
+            "• `/helix reload` - Reload config.json",
           ].join("\n"),
         };
       },
     });
 
-    // Register service for cleanup
+    // Register service for cleanup; the service owns the config watcher
     api.registerService({
       id: "helix-router-service",
       start: () => {
-        log.info("[Helix] Service started");
+        watcher = new ConfigWatcher(CONFIG_FILE, () => reloadConfig(api));
+        watcher.start();
+        log.info(`[Helix] Service started, watching ${CONFIG_FILE}`);
       },
       stop: () => {
+        watcher?.stop();
+        watcher = null;
         log.info("[Helix] Service stopped");
       },
     });
@@ -160,62 +159,89 @@ const plugin: OpenClawPluginDefinition = {
 };
 
 /**
- * Load and merge configuration
+ * Build the routing components for a configuration, then swap them all in
+ * at once. Requests already holding the previous components finish on them.
  */
-function loadConfig(api: OpenClawPluginApi): HelixRouterConfig {
-  // Start with defaults
-  const config: HelixRouterConfig = {
-    providers: DEFAULT_PROVIDERS,
-    routing: {
-      proThreshold: 75,
-      midThreshold: 35,
-      defaultRoute: "mid",
-    },
-    cache: {
-      enabled: true,
-      ttlMs: 3600000,
-    },
-  };
+function applyConfig(next: HelixRouterConfig, log: OpenClawPluginApi["logger"]): void {
+  const order = tierOrder(next.routing);
+  const nextEvaluator = createEvaluator(next.evaluator?.strategy, {
+    lowProvider: next.providers[order[0]],
+    logger: log,
+    cacheTtlMs: next.cache?.ttlMs ?? 3600000,
+    config: next.evaluator ?? {},
+  });
 
-  // Override from plugin config if present
-  if (api.pluginConfig?.providers) {
-    const { pro, mid, low } = api.pluginConfig.providers;
-    if (pro) config.providers.pro = { ...config.providers.pro, ...pro };
-    if (mid) config.providers.mid = { ...config.providers.mid, ...mid };
-    if (low) config.providers.low = { ...config.providers.low, ...low };
-  }
+  const nextBudget = new BudgetTracker(next.budgets, log, undefined, order);
+
+  const nextRouter = new RoutingEngine(
+    next.providers,
+    next.routing,
+    log,
+    undefined,
+    nextBudget.isEnabled() ? nextBudget : undefined,
+    next.tiers
+  );
 
-  if (api.pluginConfig?.routing) {
-    config.routing = { ...config.routing, ...api.pluginConfig.routing };
+  config = next;
+  evaluator = nextEvaluator;
+  budget = nextBudget;
+  router = nextRouter;
+}
+
+/**
+ * Re-read config.json and apply it if it is valid. Returns the lines that
+ * were logged, for the /helix reload reply.
+ */
+function reloadConfig(api: OpenClawPluginApi): string[] {
+  const log = api.logger;
+  const previous = config!;
+
+  let next: HelixRouterConfig;
+  try {
+    next = resolveConfig({ plugin: api.pluginConfig });
+  } catch (e) {
+    const message = `Config reload rejected, keeping the running config: ${(e as Error).message}`;
+    log.error(`[Helix] ${message}`);
+    return [message];
   }
 
-  if (api.pluginConfig?.cache) {
-    config.cache = { ...config.cache, ...api.pluginConfig.cache };
+  const errors = validateConfig(next);
+  if (errors.length > 0) {
+    const lines = [
+      `Config reload rejected, keeping the running config. ${errors.length} error(s) in ${CONFIG_FILE}:`,
+      ...describeErrors(errors, previous, next).map((line) => `  - ${line}`),
+    ];
+    lines.forEach((line) => log.error(`[Helix] ${line}`));
+    return lines;
   }
 
-  // Also try loading from config file
-  const configPath = join(homedir(), ".openclaw", "helix-router", "config.json");
-  if (existsSync(configPath)) {
-    try {
-      const fileConfig = JSON.parse(readFileSync(configPath, "utf-8"));
-      if (fileConfig.providers) {
-        config.providers = { ...config.providers, ...fileConfig.providers };
-      }
-      if (fileConfig.routing) {
-        config.routing = { ...config.routing, ...fileConfig.routing };
-      }
-    } catch (e) {
-      // Ignore parse errors
-    }
+  try {
+    applyConfig(next, log);
+  } catch (e) {
+    const message = `Config reload rejected, keeping the running config: ${(e as Error).message}`;
+    log.error(`[Helix] ${message}`);
+    return [message];
   }
 
-  return config;
+  const changes = describeChanges(previous, next);
+  const lines = changes.length > 0
+    ? [`Config reloaded, ${changes.length} change(s):`, ...changes.map((change) => `  - ${change}`)]
+    : ["Config reloaded, no changes."];
+  lines.forEach((line) => log.info(`[Helix] ${line}`));
+  return lines;
+}
+
+/**
+ * Describe a tier's failover chain for startup logs
+ */
+function describeChain(chain: ProviderChain): string {
+  return toProviderChain(chain).map((p) => p.model).join(" -> ");
 }
 
 /**
  * Create the Helix Router provider for OpenClaw
  */
-function createHelixProvider(config: HelixRouterConfig): ProviderPlugin {
+function createHelixProvider(): ProviderPlugin {
   return {
     id: "helix-router",
     label: "Helix Router",
@@ -223,53 +249,32 @@ function createHelixProvider(config: HelixRouterConfig): ProviderPlugin {
     aliases: ["helix", "smart"],
     envVars: [],
 
-    // Dynamic models getter
+    // Dynamic models getter, follows config reloads
     get models() {
+      const tiers = config?.tiers ?? {};
+      const order = [...tierOrder(config?.routing)].reverse();
       return {
         baseUrl: "http://helix-router.local/v1", // Virtual - handled by proxy
         api: "openai-completions",
         apiKey: "helix-internal",
         models: [
+          // auto can escalate all the way, so it advertises what the top tier offers
           {
             id: "auto",
             name: "Helix Auto (Smart Routing)",
             api: "openai-completions",
-            reasoning: true,
-            input: ["text"],
-            cost: { input: 0, output: 0 },
-            contextWindow: 200000,
-            maxTokens: 64000,
-          },
-          {
-            id: "pro",
-            name: "Helix PRO (High Cognitive)",
-            api: "openai-completions",
-            reasoning: true,
-            input: ["text"],
-            cost: { input: 0, output: 0 },
-            contextWindow: 200000,
-            maxTokens: 64000,
-          },
-          {
-            id: "mid",
-            name: "Helix MID (Daily Driver)",
-            api: "openai-completions",
-            reasoning: false,
-            input: ["text"],
+            ...tierModelFields(tiers, order[0]),
             cost: { input: 0, output: 0 },
-            contextWindow: 128000,
-            maxTokens: 32000,
+            ...tierLimits(tiers, order[0]),
           },
-          {
-            id: "low",
-            name: "Helix LOW (Lightweight)",
+          ...order.map((tier) => ({
+            id: tier,
+            name: tierLabel(tiers, tier),
             api: "openai-completions",
-            reasoning: false,
-            input: ["text"],
-            cost: { input: 0, output: 0 },
-            contextWindow: 128000,
-            maxTokens: 16000,
-          },
+            ...tierModelFields(tiers, tier),
+            cost: tiers[tier]?.cost ?? { input: 0, output: 0 },
+            ...tierLimits(tiers, tier),
+          })),
         ],
       };
     },
@@ -282,8 +287,82 @@ export default plugin;
 
 // Also export for programmatic use
 export { ComplexityEvaluator } from "./complexity-evaluator.js";
-export { RoutingEngine } from "./routing-engine.js";
+export { createEvaluator, registerEvaluator } from "./evaluators/index.js";
+export type { Evaluator, EvaluationResult, EvaluatorContext, EvaluatorFactory } from "./evaluators/index.js";
+export { HeuristicEvaluator } from "./evaluators/heuristic.js";
+export { EmbeddingEvaluator } from "./evaluators/embedding.js";
+export { EnsembleEvaluator } from "./evaluators/ensemble.js";
+export { LearnedEvaluator } from "./evaluators/learned.js";
+export { featurize, readTrainingSamples, trainModel, predict, saveModel, loadModel } from "./learned-model.js";
+export type { LearnedModel, TrainingSample, FeedbackLabel, TrainOptions, Prediction } from "./learned-model.js";
+export { classifyHeuristically } from "./heuristic-classifier.js";
+export { RoutingEngine, DEFAULT_TIER_LIMITS, tierLimits } from "./routing-engine.js";
+export { DEFAULT_ROUTING_RULES, defaultRoutingRules, applyRules, validateRules, findRuleErrors } from "./routing-rules.js";
+export {
+  DEFAULT_TIER_ORDER,
+  DEFAULT_THRESHOLDS,
+  tierOrder,
+  scoreBands,
+  bandForScore,
+  findTierErrors,
+  tierLabel,
+} from "./tiers.js";
+export type { ScoreBand } from "./tiers.js";
+export {
+  validateConfig,
+  describeChanges,
+  describeErrors,
+  redactSecrets,
+  ConfigValidationError,
+} from "./config-validation.js";
+export type { ConfigError, ConfigPath } from "./config-validation.js";
+export {
+  CONFIG_FILE,
+  DEFAULT_CONFIG,
+  loadConfig,
+  resolveConfig,
+  readConfigFile,
+  mergeConfig,
+  configFromEnv,
+} from "./config.js";
+export type { ConfigLayer, ConfigSources } from "./config.js";
+export { ConfigWatcher } from "./config-watcher.js";
+export {
+  ExperimentTracker,
+  EXPERIMENTS_LOG,
+  findExperimentErrors,
+  readExperimentLog,
+  summarizeExperiments,
+  formatExperimentReport,
+} from "./experiments.js";
+export type { ArmSummary, ExperimentSummary, SplitAssignment } from "./experiments.js";
+export type { RuleInput, RuleOutcome } from "./routing-rules.js";
 export { HelixLogger } from "./logger.js";
+export { BudgetTracker } from "./budget.js";
+export { ClientAuthenticator } from "./client-auth.js";
+export {
+  HelixRouterError,
+  BudgetExceededError,
+  AuthenticationError,
+  PermissionDeniedError,
+  RateLimitError,
+  ContextLengthExceededError,
+  UnsupportedCapabilityError,
+} from "./errors.js";
+export { requiredCapabilities, tierCapabilities } from "./capabilities.js";
+export { SessionTracker, sessionKey, sessionFromHeaders, SESSION_HEADER, CHANNEL_HEADER } from "./sessions.js";
+export type { SessionHold } from "./sessions.js";
+export { buildEvaluatorInput, formatEvaluatorPrompt, DEFAULT_EVALUATOR_INPUT_BUDGET } from "./evaluator-input.js";
+export type { ConversationHints, EvaluatorInput } from "./evaluator-input.js";
+export { ToolLoopTracker } from "./tool-loops.js";
+export type { ToolTurn, TurnRouting } from "./tool-loops.js";
+export { registerQualityCheck, qualityCheckNames, findQualityFailure } from "./quality-checks.js";
+export type { QualityCheck, QualityFailure } from "./quality-checks.js";
 export { HelixProxy } from "./proxy.js";
+export type { StreamRequestOptions } from "./proxy.js";
 export { HelixServer, startServer } from "./server.js";
+export { fetchWithFailover, FailoverError, toProviderChain } from "./upstream.js";
+export { countTextTokens, countMessageTokens, countRequestTokens } from "./tokenizer.js";
+export { getAdapter } from "./adapters/index.js";
+export type { UpstreamAdapter, UpstreamRequest } from "./adapters/index.js";
 export type * from "./types.js";
@@ -0,0 +1,276 @@
+/**
+ * Learned Router Model
+ *
+ * A small logistic model over hashed word n-grams, trained from routing.log
+ * history (entries logged with prompt text) plus optional feedback labels.
+ * One softmax head predicts the task type; one logistic head predicts the
+ * complexity score as a fraction of 100. Weights are stored sparsely, only
+ * for hashed features seen during training.
+ */
+
+import { readFileSync, writeFileSync, existsSync } from "node:fs";
+import type { RouteTier, RoutingLogEntry, TaskType } from "./types.js";
+import { DEFAULT_THRESHOLDS, DEFAULT_TIER_ORDER, scoreBands, type ScoreBand } from "./tiers.js";
+
+export const MODEL_VERSION = 1;
+
+const TASK_TYPES: TaskType[] = [
+  "classification", "extraction", "summarization", "writing",
+  "coding", "architecture_design", "mathematical_reasoning",
+  "visualization", "multi_step_planning", "other",
+];
+
+// Evaluation sources that are not worth learning from
+const UNTRUSTED_SOURCES = new Set(["default", "learned"]);
+
+export interface LearnedModel {
+  version: number;
+  buckets: number; // hash space size
+  taskTypes: TaskType[];
+  bias: number[]; // one per task type, then the score head
+  weights: Record<string, number[]>; // bucket -> same layout as bias
+  trainedAt: string;
+  samples: number;
+}
+
+export interface TrainingSample {
+  prompt: string;
+  taskType?: TaskType;
+  score?: number; // 0-100
+}
+
+// Feedback label file line; a tier stands in for a score
+export interface FeedbackLabel {
+  prompt: string;
+  task_type?: TaskType;
+  score?: number;
+  tier?: RouteTier;
+}
+
+export interface TrainOptions {
+  buckets?: number;
+  epochs?: number;
+  learningRate?: number;
+  l2?: number;
+}
+
+export interface Prediction {
+  taskType: TaskType;
+  taskConfidence: number; // probability of the predicted task type
+  score: number; // 0-100
+}
+
+// ============= Features =============
+
+/**
+ * Hashed unigram and bigram features, L2-normalised. CJK text is split
+ * into single characters so that bigrams cover character pairs.
+ */
+export function featurize(text: string, buckets: number): Map<number, number> {
+  const tokens = text.toLowerCase().match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}]/gu) ?? [];
+  const features = new Map<number, number>();
+  const add = (gram: string) => {
+    const bucket = hash(gram) % buckets;
+    features.set(bucket, (features.get(bucket) ?? 0) + 1);
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    add(tokens[i]);
+    if (i > 0) add(`${tokens[i - 1]} ${tokens[i]}`);
+  }
+  // Coarse length signal, one feature per power of two
+  add(`__len_${Math.floor(Math.log2(tokens.length + 1))}`);
+
+  const norm = Math.sqrt([...features.values()].reduce((sum, value) => sum + value * value, 0));
+  for (const [bucket, value] of features) {
+    features.set(bucket, value / norm);
+  }
+  return features;
+}
+
+// FNV-1a, 32-bit
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// ============= Training Data =============
+
+/**
+ * Read training samples from routing.log entries that carry prompt text,
+ * skipping fallback evaluations and the learned model's own predictions.
+ * Feedback labels are appended and take precedence for the same prompt; a
+ * label that only names a tier scores the middle of that tier's band in
+ * `bands`. Malformed lines are skipped.
+ */
+export function readTrainingSamples(
+  logFile: string,
+  labelsFile?: string,
+  bands: ScoreBand[] = scoreBands(DEFAULT_TIER_ORDER, {}, DEFAULT_THRESHOLDS)
+): TrainingSample[] {
+  const samples = new Map<string, TrainingSample>();
+
+  if (existsSync(logFile)) {
+    for (const line of readFileSync(logFile, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      let entry: RoutingLogEntry;
+      try {
+        entry = JSON.parse(line) as RoutingLogEntry;
+      } catch {
+        continue;
+      }
+      if (!entry.prompt || UNTRUSTED_SOURCES.has(entry.evaluationSource ?? "")) continue;
+      samples.set(entry.prompt, { prompt: entry.prompt, taskType: entry.taskType, score: entry.score });
+    }
+  }
+
+  if (labelsFile) {
+    for (const line of readFileSync(labelsFile, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      let label: FeedbackLabel;
+      try {
+        label = JSON.parse(line) as FeedbackLabel;
+      } catch {
+        continue;
+      }
+      if (typeof label?.prompt !== "string") continue;
+      const previous = samples.get(label.prompt);
+      samples.set(label.prompt, {
+        prompt: label.prompt,
+        taskType: label.task_type ?? previous?.taskType,
+        score: label.score ?? (label.tier ? tierScore(bands, label.tier) : undefined) ?? previous?.score,
+      });
+    }
+  }
+
+  return [...samples.values()];
+}
+
+// Middle of a tier's score band, undefined for a tier outside the ladder
+function tierScore(bands: ScoreBand[], tier: RouteTier): number | undefined {
+  const index = bands.findIndex((band) => band.tier === tier);
+  if (index < 0) return undefined;
+  const top = bands[index + 1]?.minScore ?? 100;
+  return Math.round((bands[index].minScore + top) / 2);
+}
+
+// ============= Training and Inference =============
+
+/**
+ * Fit both heads with stochastic gradient descent
+ */
+export function trainModel(samples: TrainingSample[], options: TrainOptions = {}): LearnedModel {
+  const buckets = options.buckets ?? 1 << 18;
+  const epochs = options.epochs ?? 10;
+  const learningRate = options.learningRate ?? 0.5;
+  const l2 = options.l2 ?? 1e-5;
+  const width = TASK_TYPES.length + 1;
+  const scoreIndex = TASK_TYPES.length;
+
+  const model: LearnedModel = {
+    version: MODEL_VERSION,
+    buckets,
+    taskTypes: TASK_TYPES,
+    bias: new Array(width).fill(0),
+    weights: {},
+    trainedAt: new Date().toISOString(),
+    samples: samples.length,
+  };
+
+  const featurized = samples.map((sample) => ({ sample, features: featurize(sample.prompt, buckets) }));
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const rate = learningRate / (1 + epoch);
+    for (const { sample, features } of shuffle(featurized)) {
+      const logits = linear(model, features);
+
+      // Gradient of cross-entropy for each head; unlabelled heads are skipped
+      const gradient = new Array(width).fill(0);
+      if (sample.taskType) {
+        const probabilities = softmax(logits.slice(0, scoreIndex));
+        TASK_TYPES.forEach((task, i) => {
+          gradient[i] = probabilities[i] - (task === sample.taskType ? 1 : 0);
+        });
+      }
+      if (sample.score !== undefined) {
+        gradient[scoreIndex] = sigmoid(logits[scoreIndex]) - sample.score / 100;
+      }
+
+      for (let i = 0; i < width; i++) model.bias[i] -= rate * gradient[i];
+      for (const [bucket, value] of features) {
+        const row = model.weights[bucket] ?? (model.weights[bucket] = new Array(width).fill(0));
+        for (let i = 0; i < width; i++) {
+          row[i] -= rate * (gradient[i] * value + l2 * row[i]);
+        }
+      }
+    }
+  }
+
+  // Round to keep the model file small
+  for (const row of Object.values(model.weights)) {
+    for (let i = 0; i < width; i++) row[i] = Number(row[i].toFixed(5));
+  }
+  return model;
+}
+
+/**
+ * Predict task type and score for a prompt
+ */
+export function predict(model: LearnedModel, text: string): Prediction {
+  const logits = linear(model, featurize(text, model.buckets));
+  const probabilities = softmax(logits.slice(0, model.taskTypes.length));
+  const best = probabilities.indexOf(Math.max(...probabilities));
+  return {
+    taskType: model.taskTypes[best],
+    taskConfidence: probabilities[best],
+    score: Math.round(sigmoid(logits[model.taskTypes.length]) * 100),
+  };
+}
+
+function linear(model: LearnedModel, features: Map<number, number>): number[] {
+  const logits = [...model.bias];
+  for (const [bucket, value] of features) {
+    const row = model.weights[bucket];
+    if (!row) continue;
+    for (let i = 0; i < logits.length; i++) logits[i] += row[i] * value;
+  }
+  return logits;
+}
+
+function softmax(logits: number[]): number[] {
+  const max = Math.max(...logits);
+  const exps = logits.map((logit) => Math.exp(logit - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return exps.map((value) => value / sum);
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// ============= Persistence =============
+
+export function saveModel(model: LearnedModel, path: string): void {
+  writeFileSync(path, JSON.stringify(model));
+}
+
+export function loadModel(path: string): LearnedModel {
+  const model = JSON.parse(readFileSync(path, "utf-8")) as LearnedModel;
+  if (model.version !== MODEL_VERSION) {
+    throw new Error(`Unsupported model version ${model.version} in ${path}`);
+  }
+  return model;
+}
@@ -0,0 +1,98 @@
+/**
+ * Legacy Completions API Translation
+ *
+ * Converts /v1/completions prompt requests into single-turn chat
+ * completions, and converts responses and stream chunks back.
+ */
+
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  LegacyCompletionRequest,
+  LegacyCompletionResponse,
+  StreamChunk,
+} from "./types.js";
+import { contentText } from "./message-utils.js";
+
+/**
+ * Convert a legacy completion request into a chat completion request.
+ * Batched prompts are not supported and raise an error.
+ */
+export function completionToChatRequest(request: LegacyCompletionRequest): ChatCompletionRequest {
+  let prompt: string;
+  if (Array.isArray(request.prompt)) {
+    if (request.prompt.length !== 1) {
+      throw new Error("Batched prompts are not supported; send one prompt per request");
+    }
+    prompt = request.prompt[0];
+  } else if (typeof request.prompt === "string") {
+    prompt = request.prompt;
+  } else {
+    throw new Error("prompt is required");
+  }
+
+  const chatRequest: ChatCompletionRequest = {
+    model: request.model,
+    messages: [{ role: "user", content: prompt }],
+    stream: request.stream,
+  };
+
+  if (request.max_tokens !== undefined) chatRequest.max_tokens = request.max_tokens;
+  if (request.temperature !== undefined) chatRequest.temperature = request.temperature;
+  if (request.top_p !== undefined) chatRequest.top_p = request.top_p;
+  if (request.frequency_penalty !== undefined) chatRequest.frequency_penalty = request.frequency_penalty;
+  if (request.presence_penalty !== undefined) chatRequest.presence_penalty = request.presence_penalty;
+  if (request.stop) chatRequest.stop = Array.isArray(request.stop) ? request.stop : [request.stop];
+  if (request.user) chatRequest.user = request.user;
+
+  return chatRequest;
+}
+
+function toCompletionId(id: string): string {
+  return id.startsWith("cmpl-") ? id : `cmpl-${id}`;
+}
+
+/**
+ * Convert a chat completion response into a legacy completion response
+ */
+export function chatResponseToCompletion(
+  response: ChatCompletionResponse,
+  model: string
+): LegacyCompletionResponse {
+  const choice = response.choices?.[0];
+  return {
+    id: toCompletionId(response.id),
+    object: "text_completion",
+    created: response.created ?? Math.floor(Date.now() / 1000),
+    model,
+    choices: [{
+      text: choice?.message?.content ? contentText(choice.message.content) : "",
+      index: 0,
+      logprobs: null,
+      finish_reason: choice?.finish_reason ?? "stop",
+    }],
+    usage: response.usage,
+  };
+}
+
+/**
+ * Convert a chat stream chunk into a legacy completion chunk, or null when
+ * the chunk carries nothing a completion client can use
+ */
+export function chatChunkToCompletion(chunk: StreamChunk, model: string): LegacyCompletionResponse | null {
+  const choice = chunk.choices?.[0];
+  const text = typeof choice?.delta?.content === "string" ? choice.delta.content : "";
+  const finishReason = choice?.finish_reason ?? null;
+
+  if (!text && !finishReason && !chunk.usage) return null;
+
+  const completion: LegacyCompletionResponse = {
+    id: toCompletionId(chunk.id),
+    object: "text_completion",
+    created: chunk.created,
+    model,
+    choices: [{ text, index: 0, logprobs: null, finish_reason: finishReason }],
+  };
+  if (chunk.usage) completion.usage = chunk.usage;
+  return completion;
+}
@@ -4,10 +4,12 @@
  * Logs routing decisions and statistics.
  */
 
-import type { RouteTier, TaskType, RoutingLogEntry } from "./types.js";
+import type { EvaluationSource, RouteTier, TaskType, RoutingLogEntry } from "./types.js";
 import { appendFileSync, existsSync, mkdirSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
+import { formatUsd } from "./pricing.js";
+import { DEFAULT_TIER_ORDER } from "./tiers.js";
 
 // Log file path
 const LOG_DIR = join(homedir(), ".openclaw", "helix-router");
@@ -15,7 +17,7 @@ const LOG_FILE = join(LOG_DIR, "routing.log");
 const STATS_FILE = join(LOG_DIR, "stats.json");
 
 // In-memory stats for quick access
-interface Stats {
+export interface Stats {
   totalRequests: number;
   routeCounts: Record<RouteTier, number>;
   taskTypeCounts: Record<TaskType, number>;
@@ -23,6 +25,13 @@ interface Stats {
   avgLatencyMs: number;
   avgEvaluationMs: number;
   cacheHitRate: number;
+  totalSpend: number;
+  totalSavings: number;
+  spendByTier: Record<RouteTier, number>;
+  savingsByTier: Record<RouteTier, number>;
+  evaluationSources: Partial<Record<EvaluationSource, { count: number; avgLatencyMs: number }>>;
+  ruleCounts: Record<string, number>; // decisions per routing rule
+  escalations: Record<string, number>; // retries on a higher tier per failed quality check
   lastUpdated: string;
 }
 
@@ -35,6 +44,13 @@ class StatsTracker {
     avgLatencyMs: 0,
     avgEvaluationMs: 0,
     cacheHitRate: 0,
+    totalSpend: 0,
+    totalSavings: 0,
+    spendByTier: { pro: 0, mid: 0, low: 0 },
+    savingsByTier: { pro: 0, mid: 0, low: 0 },
+    evaluationSources: {},
+    ruleCounts: {},
+    escalations: {},
     lastUpdated: new Date().toISOString(),
   };
 
@@ -45,7 +61,7 @@ class StatsTracker {
 
   record(entry: RoutingLogEntry): void {
     this.stats.totalRequests++;
-    this.stats.routeCounts[entry.route]++;
+    this.stats.routeCounts[entry.route] = (this.stats.routeCounts[entry.route] ?? 0) + 1;
     
     // Track task types
     if (!this.stats.taskTypeCounts[entry.taskType]) {
@@ -53,12 +69,35 @@ class StatsTracker {
     }
     this.stats.taskTypeCounts[entry.taskType]++;
 
+    if (entry.rule) {
+      this.stats.ruleCounts[entry.rule] = (this.stats.ruleCounts[entry.rule] ?? 0) + 1;
+    }
+    if (entry.qualityCheck) {
+      this.stats.escalations[entry.qualityCheck] = (this.stats.escalations[entry.qualityCheck] ?? 0) + 1;
+    }
+
     // Running averages
     this.totalScore += entry.score;
     this.totalLatency += entry.latencyMs;
     this.totalEvaluation += entry.evaluationLatencyMs;
     if (entry.cached) this.cacheHits++;
 
+    // Spend and savings vs the most capable tier
+    this.stats.totalSpend += entry.cost ?? 0;
+    this.stats.totalSavings += entry.savings ?? 0;
+    this.stats.spendByTier[entry.route] = (this.stats.spendByTier[entry.route] ?? 0) + (entry.cost ?? 0);
+    this.stats.savingsByTier[entry.route] = (this.stats.savingsByTier[entry.route] ?? 0) + (entry.savings ?? 0);
+
+    // Evaluation latency per source, to compare heuristic hits with LLM calls
+    if (entry.evaluationSource) {
+      const source = this.stats.evaluationSources[entry.evaluationSource] ?? { count: 0, avgLatencyMs: 0 };
+      source.avgLatencyMs = Math.round(
+        (source.avgLatencyMs * source.count + entry.evaluationLatencyMs) / (source.count + 1)
+      );
+      source.count++;
+      this.stats.evaluationSources[entry.evaluationSource] = source;
+    }
+
     this.stats.avgScore = Math.round(this.totalScore / this.stats.totalRequests);
     this.stats.avgLatencyMs = Math.round(this.totalLatency / this.stats.totalRequests);
     this.stats.avgEvaluationMs = Math.round(this.totalEvaluation / this.stats.totalRequests);
@@ -67,7 +106,17 @@ class StatsTracker {
   }
 
   getStats(): Stats {
-    return { ...this.stats };
+    return {
+      ...this.stats,
+      routeCounts: { ...this.stats.routeCounts },
+      spendByTier: { ...this.stats.spendByTier },
+      savingsByTier: { ...this.stats.savingsByTier },
+      evaluationSources: Object.fromEntries(
+        Object.entries(this.stats.evaluationSources).map(([source, value]) => [source, { ...value }])
+      ),
+      ruleCounts: { ...this.stats.ruleCounts },
+      escalations: { ...this.stats.escalations },
+    };
   }
 
   reset(): void {
@@ -79,6 +128,13 @@ class StatsTracker {
       avgLatencyMs: 0,
       avgEvaluationMs: 0,
       cacheHitRate: 0,
+      totalSpend: 0,
+      totalSavings: 0,
+      spendByTier: { pro: 0, mid: 0, low: 0 },
+      savingsByTier: { pro: 0, mid: 0, low: 0 },
+      evaluationSources: {},
+      ruleCounts: {},
+      escalations: {},
       lastUpdated: new Date().toISOString(),
     };
     this.totalScore = 0;
@@ -128,6 +184,7 @@ export class HelixLogger {
         `Task: ${entry.taskType} | ` +
         `Model: ${entry.modelUsed} | ` +
         `Latency: ${entry.latencyMs}ms | ` +
+        `Cost: ${formatUsd(entry.cost ?? 0)} | ` +
         `Cached: ${entry.cached}`
       );
     } catch (error) {
@@ -151,10 +208,17 @@ export class HelixLogger {
   }
 
   /**
-   * Format stats for display
+   * Format stats for display. `tiers` lists the configured tiers, cheapest
+   * first; tiers that have since been removed are shown once they have
+   * traffic.
    */
-  formatStats(): string {
+  formatStats(tiers: RouteTier[] = DEFAULT_TIER_ORDER): string {
     const stats = this.getStats();
+    const shown = [...new Set([
+      ...[...tiers].reverse(),
+      ...Object.keys(stats.routeCounts).filter((tier) => stats.routeCounts[tier] > 0),
+    ])];
+    const top = tiers[tiers.length - 1].toUpperCase();
     const lines = [
       "╔═══════════════════════════════════════════════════════════════╗",
       "║                    Helix Router Statistics                    ║",
@@ -162,18 +226,40 @@ export class HelixLogger {
       `║ Total Requests: ${stats.totalRequests.toString().padEnd(45)}║`,
       "╠═══════════════════════════════════════════════════════════════╣",
       "║ Routing Distribution:                                         ║",
-      `║   PRO: ${stats.routeCounts.pro.toString().padEnd(55)}║`,
-      `║   MID: ${stats.routeCounts.mid.toString().padEnd(55)}║`,
-      `║   LOW: ${stats.routeCounts.low.toString().padEnd(55)}║`,
+      ...shown.map((tier) =>
+        `║   ${tier.toUpperCase()}: ${stats.routeCounts[tier] ?? 0}`.padEnd(64) + "║"
+      ),
       "╠═══════════════════════════════════════════════════════════════╣",
       `║ Average Score: ${stats.avgScore.toString().padEnd(47)}║`,
       `║ Average Latency: ${stats.avgLatencyMs}ms`.padEnd(62) + "║",
       `║ Average Evaluation: ${stats.avgEvaluationMs}ms`.padEnd(58) + "║",
       `║ Cache Hit Rate: ${stats.cacheHitRate}%`.padEnd(59) + "║",
+      "╠═══════════════════════════════════════════════════════════════╣",
+      `║ Spend (savings vs ${top}):`.padEnd(64) + "║",
+      ...shown.map((tier) =>
+        `║   ${tier.toUpperCase()}: ${formatUsd(stats.spendByTier[tier] ?? 0)} (${formatUsd(stats.savingsByTier[tier] ?? 0)})`.padEnd(64) + "║"
+      ),
+      `║ Total Spend: ${formatUsd(stats.totalSpend)}`.padEnd(64) + "║",
+      `║ Total Savings: ${formatUsd(stats.totalSavings)}`.padEnd(64) + "║",
+      "╠═══════════════════════════════════════════════════════════════╣",
+      "║ Evaluation Sources:                                           ║",
+      ...Object.entries(stats.evaluationSources).map(([source, value]) =>
+        `║   ${source}: ${value.count} (avg ${value.avgLatencyMs}ms)`.padEnd(64) + "║"
+      ),
+      "╠═══════════════════════════════════════════════════════════════╣",
+      "║ Routing Rules:                                                ║",
+      ...Object.entries(stats.ruleCounts).map(([rule, count]) =>
+        `║   ${rule}: ${count}`.padEnd(64) + "║"
+      ),
+      "╠═══════════════════════════════════════════════════════════════╣",
+      "║ Quality Escalations:                                          ║",
+      ...Object.entries(stats.escalations).map(([check, count]) =>
+        `║   ${check}: ${count}`.padEnd(64) + "║"
+      ),
       "╚═══════════════════════════════════════════════════════════════╝",
     ];
     return lines.join("\n");
   }
 }
 
-export { LOG_FILE, STATS_FILE };
+export { LOG_DIR, LOG_FILE, STATS_FILE };
@@ -0,0 +1,48 @@
+/**
+ * Chat Message Helpers
+ *
+ * Small helpers for reading ChatMessage content shared across modules.
+ */
+
+import type { ChatMessage } from "./types.js";
+
+/**
+ * Flatten message content to plain text, dropping non-text parts. Null
+ * content, as on assistant tool-call messages, is empty.
+ */
+export function contentText(content: ChatMessage["content"]): string {
+  if (content == null) return "";
+  return typeof content === "string"
+    ? content
+    : content.map((part) => part.text ?? "").join("");
+}
+
+/**
+ * Split a base64 data URL into media type and payload
+ */
+export function parseDataUrl(url: string): { mediaType: string; data: string } | null {
+  const match = /^data:([^;]+);base64,(.*)$/.exec(url);
+  return match ? { mediaType: match[1], data: match[2] } : null;
+}
+
+/**
+ * Parse tool call arguments, tolerating empty or malformed JSON
+ */
+export function parseToolArguments(args: string | undefined): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Text of an assistant reply, with tool calls as name plus arguments
+ */
+export function replyText(message: ChatMessage | undefined): string {
+  return [
+    typeof message?.content === "string" ? message.content : "",
+    ...(message?.tool_calls ?? []).map((call) => call.function.name + call.function.arguments),
+  ].join("");
+}
@@ -0,0 +1,52 @@
+/**
+ * Cost Accounting
+ *
+ * Prices token usage with per-tier rates and compares it against what the
+ * most capable tier (PRO by default) would have charged for the same request.
+ */
+
+import type { RouteTier, RoutingLogEntry, TierPricing, TiersConfig } from "./types.js";
+
+const TOKENS_PER_UNIT = 1_000_000;
+
+export type CostFields = Required<Pick<RoutingLogEntry, "cost" | "costIfPro" | "savings">>;
+
+/**
+ * Price a request's usage, in USD. Unpriced tiers cost nothing.
+ */
+export function priceUsage(pricing: TierPricing | undefined, tokensIn: number, tokensOut: number): number {
+  if (!pricing) return 0;
+  return (tokensIn * pricing.input + tokensOut * pricing.output) / TOKENS_PER_UNIT;
+}
+
+/**
+ * Compute the cost fields of a routing log entry, with savings measured
+ * against `reference`, the most capable tier
+ */
+export function computeCost(
+  tiers: TiersConfig | undefined,
+  tier: RouteTier,
+  tokensIn: number,
+  tokensOut: number,
+  reference: RouteTier = "pro"
+): CostFields {
+  const cost = priceUsage(tiers?.[tier]?.cost, tokensIn, tokensOut);
+  const costIfPro = priceUsage(tiers?.[reference]?.cost, tokensIn, tokensOut);
+  return {
+    cost: roundUsd(cost),
+    costIfPro: roundUsd(costIfPro),
+    savings: roundUsd(costIfPro - cost),
+  };
+}
+
+/**
+ * Format a USD amount for display
+ */
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount !== 0 && Math.abs(amount) < 0.01 ? 6 : 4)}`;
+}
+
+// Sub-micro-dollar precision is noise in the log
+function roundUsd(amount: number): number {
+  return Math.round(amount * 1e8) / 1e8;
+}
@@ -4,8 +4,12 @@
  * Handles the actual request routing:
  * 1. Evaluates complexity using LOW model
  * 2. Routes to appropriate tier (PRO/MID/LOW)
- * 3. Forwards request and returns response
+ * 3. Forwards request along the tier's failover chain and returns response
  * 4. Supports streaming
+ * 5. Retries a poor non-streaming answer once on the next tier up
+ * 6. Runs shadow and split experiments (see experiments.ts)
+ * 7. Holds multi-turn sessions at a sticky tier (see sessions.ts)
+ * 8. Routes tool-result turns with their user turn's tier (see tool-loops.ts)
  */
 
 import type {
@@ -13,76 +17,268 @@ import type {
   ChatCompletionResponse,
   StreamChunk,
   RouteTier,
+  RoutingDecision,
   RoutingLogEntry,
-  ProviderConfig,
+  RoutingMetadata,
+  ProvidersConfig,
+  ProviderChain,
+  ProviderAttempt,
+  CircuitBreakerOptions,
+  TierHealth,
+  TiersConfig,
+  BudgetsConfig,
+  RequestContext,
+  RateLimitConfig,
+  PromptSize,
+  Capability,
+  EvaluatorConfig,
+  EvaluationSource,
+  LoggingConfig,
+  RoutingRule,
+  QualityConfig,
+  SessionConfig,
+  ToolLoopConfig,
+  ToolLoopTag,
+  ExperimentConfig,
+  ExperimentArmResult,
+  ExperimentLogEntry,
 } from "./types.js";
-import { ComplexityEvaluator } from "./complexity-evaluator.js";
+import { createEvaluator, type EvaluationResult, type Evaluator } from "./evaluators/index.js";
 import { RoutingEngine } from "./routing-engine.js";
+import { tierOrder } from "./tiers.js";
 import { HelixLogger } from "./logger.js";
+import { ProviderHealth } from "./circuit-breaker.js";
+import { fetchWithFailover, FailoverError, type FailoverResult } from "./upstream.js";
+import { createRoutingMetadata, withRoutingHeaders } from "./routing-metadata.js";
+import { computeCost } from "./pricing.js";
+import { BudgetTracker } from "./budget.js";
+import { RateLimiter } from "./rate-limiter.js";
+import { countRequestTokens, countTextTokens } from "./tokenizer.js";
+import { requiredCapabilities } from "./capabilities.js";
+import { findQualityFailure, type QualityFailure } from "./quality-checks.js";
+import { contentText, replyText } from "./message-utils.js";
+import { SessionTracker, sessionKey } from "./sessions.js";
+import { ToolLoopTracker, type ToolTurn, type TurnRouting } from "./tool-loops.js";
+import { HelixRouterError, PermissionDeniedError } from "./errors.js";
+import { ConfigValidationError, validateConfig } from "./config-validation.js";
+import {
+  ExperimentTracker,
+  MAX_LOGGED_RESPONSE_CHARS,
+  treatmentRouting,
+  type ShadowExperiment,
+  type SplitAssignment,
+} from "./experiments.js";
+
+// Logged prompts are truncated to keep routing.log manageable
+const MAX_LOGGED_PROMPT_CHARS = 4000;
+
+// Outcome of evaluating a request and deciding its tier
+interface RoutedRequest {
+  decision: RoutingDecision;
+  evaluation?: EvaluationResult; // unset when a tool-result turn reused its user turn's tier
+  session?: string;
+  toolLoop?: ToolLoopTag;
+}
 
 export interface ProxyConfig {
-  providers: {
-    pro: ProviderConfig;
-    mid: ProviderConfig;
-    low: ProviderConfig;
-  };
+  providers: ProvidersConfig;
   routing?: {
     proThreshold?: number;
     midThreshold?: number;
+    tiers?: RouteTier[];
+    rules?: RoutingRule[];
   };
   cache?: {
     enabled?: boolean;
     ttlMs?: number;
   };
+  circuitBreaker?: CircuitBreakerOptions;
+  tiers?: TiersConfig;
+  budgets?: BudgetsConfig;
+  rateLimit?: RateLimitConfig;
+  evaluator?: EvaluatorConfig;
+  logging?: LoggingConfig;
+  quality?: QualityConfig;
+  sessions?: SessionConfig;
+  toolLoops?: ToolLoopConfig;
+  experiments?: ExperimentConfig[];
+}
+
+export interface StreamRequestOptions {
+  // Yield usage chunks even when the request did not ask for them, for
+  // callers that translate the stream themselves
+  includeUsage?: boolean;
 }
 
 export class HelixProxy {
-  private evaluator: ComplexityEvaluator;
+  private config: ProxyConfig;
+  private customEvaluator: boolean;
+  private evaluator: Evaluator;
   private router: RoutingEngine;
+  private health: ProviderHealth;
+  private tiers: TiersConfig;
+  private logPrompts: boolean;
+  private budget: BudgetTracker;
+  private rateLimiter: RateLimiter;
+  private sessions: SessionTracker;
+  private toolLoops: ToolLoopTracker;
+  private experiments: ExperimentTracker;
+  private treatmentRouters: Map<string, RoutingEngine>; // by split experiment name
   private logger: HelixLogger;
   private consoleLogger: { info: (msg: string) => void; error: (msg: string) => void; warn: (msg: string) => void };
 
+  /**
+   * `evaluator` replaces the strategy selected by `config.evaluator`
+   */
   constructor(
     config: ProxyConfig,
-    logger: { info: (msg: string) => void; error: (msg: string) => void; warn: (msg: string) => void }
+    logger: { info: (msg: string) => void; error: (msg: string) => void; warn: (msg: string) => void },
+    evaluator?: Evaluator
   ) {
     this.consoleLogger = logger;
-    
-    this.evaluator = new ComplexityEvaluator(
-      config.providers.low,
-      logger,
-      config.cache?.ttlMs ?? 3600000
-    );
+    this.config = config;
+    this.customEvaluator = evaluator !== undefined;
+    this.health = new ProviderHealth(config.circuitBreaker);
+    this.tiers = config.tiers ?? {};
+    this.logPrompts = config.logging?.prompts ?? false;
+    this.budget = new BudgetTracker(config.budgets, logger, undefined, tierOrder(config.routing));
+    this.rateLimiter = new RateLimiter(this.tiers, config.rateLimit);
+    this.sessions = new SessionTracker(config.sessions);
+    this.toolLoops = new ToolLoopTracker(config.toolLoops);
+    this.evaluator = evaluator ?? this.createEvaluator(config, this.health);
+    this.router = this.createRouter(config, this.health, this.budget);
+    this.experiments = new ExperimentTracker(config.experiments, logger);
+    this.treatmentRouters = this.createTreatmentRouters(config, this.experiments, this.health, this.budget);
+    this.logger = new HelixLogger(config.cache?.enabled ?? true, logger);
+  }
+
+  /**
+   * Swap in a new configuration. Everything is validated and built before
+   * anything is replaced, so a bad config leaves the proxy as it was and
+   * requests in flight are never interrupted. Circuit breaker state, rate
+   * limit buckets, sessions, tool loops and the evaluation cache carry over
+   * when their settings did not change. Throws ConfigValidationError for an invalid config.
+   */
+  reload(config: ProxyConfig): void {
+    const errors = validateConfig(config);
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors);
+    }
 
-    this.router = new RoutingEngine(
+    const previous = this.config;
+    const health = changed(previous.circuitBreaker, config.circuitBreaker)
+      ? new ProviderHealth(config.circuitBreaker)
+      : this.health;
+    const tiers = config.tiers ?? {};
+    const rateLimiter = changed(rateLimits(previous), rateLimits(config))
+      ? new RateLimiter(tiers, config.rateLimit)
+      : this.rateLimiter;
+    const sessions = changed(previous.sessions, config.sessions) ? new SessionTracker(config.sessions) : this.sessions;
+    const toolLoops = changed(previous.toolLoops, config.toolLoops) ? new ToolLoopTracker(config.toolLoops) : this.toolLoops;
+    // The new tracker starts from the persisted spend
+    this.budget.flush();
+    const budget = new BudgetTracker(config.budgets, this.consoleLogger, undefined, tierOrder(config.routing));
+    const evaluator = this.customEvaluator || (
+      health === this.health &&
+      !changed(evaluatorSettings(previous), evaluatorSettings(config))
+    )
+      ? this.evaluator
+      : this.createEvaluator(config, health);
+    const router = this.createRouter(config, health, budget);
+    const experiments = new ExperimentTracker(config.experiments, this.consoleLogger);
+    const treatmentRouters = this.createTreatmentRouters(config, experiments, health, budget);
+
+    this.config = config;
+    this.health = health;
+    this.tiers = tiers;
+    this.logPrompts = config.logging?.prompts ?? false;
+    this.budget = budget;
+    this.rateLimiter = rateLimiter;
+    this.sessions = sessions;
+    this.toolLoops = toolLoops;
+    this.evaluator = evaluator;
+    this.router = router;
+    this.experiments = experiments;
+    this.treatmentRouters = treatmentRouters;
+  }
+
+  private createEvaluator(config: ProxyConfig, health: ProviderHealth): Evaluator {
+    return createEvaluator(config.evaluator?.strategy, {
+      lowProvider: evaluationProvider(config),
+      logger: this.consoleLogger,
+      cacheTtlMs: config.cache?.ttlMs ?? 3600000,
+      health,
+      config: config.evaluator ?? {},
+    });
+  }
+
+  private createRouter(config: ProxyConfig, health: ProviderHealth, budget: BudgetTracker): RoutingEngine {
+    return new RoutingEngine(
       config.providers,
       config.routing ?? {},
-      logger
+      this.consoleLogger,
+      health,
+      budget.isEnabled() ? budget : undefined,
+      config.tiers ?? {}
     );
+  }
 
-    this.logger = new HelixLogger(config.cache?.enabled ?? true, logger);
+  /**
+   * A router per split experiment, routing with the treatment arm's
+   * thresholds
+   */
+  private createTreatmentRouters(
+    config: ProxyConfig,
+    experiments: ExperimentTracker,
+    health: ProviderHealth,
+    budget: BudgetTracker
+  ): Map<string, RoutingEngine> {
+    const routers = new Map<string, RoutingEngine>();
+    for (const experiment of experiments.getSplits()) {
+      const { tiers, thresholds } = treatmentRouting(experiment, config.tiers ?? {}, config.routing ?? {});
+      routers.set(
+        experiment.name,
+        this.createRouter({ ...config, routing: { ...config.routing, ...thresholds }, tiers }, health, budget)
+      );
+    }
+    return routers;
   }
 
   /**
-   * Handle a chat completion request
+   * Handle a chat completion request. `context` identifies the caller; without
+   * a key label the request's `user` field is used for budgets and logs.
    */
   async handleRequest(
     request: ChatCompletionRequest,
-    requestId?: string
+    requestId?: string,
+    context: RequestContext = {}
   ): Promise<Response> {
     const id = requestId ?? this.generateId();
+    const promptTokens = countRequestTokens(request);
+    const size = { promptTokens, maxTokens: request.max_tokens ?? 0 };
+    const capabilities = requiredCapabilities(request);
+    const caller = this.admit(request, context, promptTokens);
+    const split = this.experiments.assignSplit(caller.userId ?? id);
     const startTime = Date.now();
+    let attempts: ProviderAttempt[] = [];
+    let decision: RoutingDecision | undefined;
+    let promptHash = "";
+    let evaluationStrategy: string | undefined;
+    let evaluationSource: EvaluationSource | undefined;
+    let evaluationLatencyMs = 0;
+    let session: string | undefined;
+    let toolLoop: ToolLoopTag | undefined;
 
     try {
-      // Step 1: Evaluate complexity
-      const evalResult = await this.evaluator.evaluate(request.messages);
-      const evaluationLatencyMs = evalResult.latencyMs;
-
-      // Step 2: Make routing decision
-      const decision = this.router.decide(evalResult.evaluation, evalResult.cached);
-
-      // Step 3: Get provider for selected tier
-      const provider = this.router.getProvider(decision.tier);
+      // Steps 1 and 2: Evaluate complexity and make the routing decision
+      const routed = await this.route(id, request, caller, split, size, capabilities);
+      decision = routed.decision;
+      session = routed.session;
+      toolLoop = routed.toolLoop;
+      evaluationLatencyMs = routed.evaluation?.latencyMs ?? 0;
+      promptHash = routed.evaluation?.promptHash ?? "";
+      evaluationStrategy = routed.evaluation?.strategy;
+      evaluationSource = routed.evaluation?.source;
 
       this.consoleLogger.info(
         `[Helix] Request ${id}: ${decision.tier.toUpperCase()} ` +
@@ -90,133 +286,443 @@ export class HelixProxy {
         `${decision.cached ? "(cached)" : ""}`
       );
 
-      // Step 4: Forward request to selected provider
-      const response = await this.forwardRequest(request, provider, decision.tier);
+      // Step 3: Forward request along the selected tier's provider chain
+      let result = await this.forwardRequest(request, decision.tier);
+      let usage = await this.readUsage(result.response, request, result.provider.model);
+      attempts = result.attempts;
+
+      // Step 4: Retry once on the next tier up when the answer fails a quality check
+      let escalated: { check: string; tier: RouteTier; cost: number; tokensIn: number; tokensOut: number } | undefined;
+      const failure = await this.checkQuality(request, result.response);
+      const retry = failure && await this.escalate(id, request, decision.tier, failure, caller, size, capabilities, promptTokens);
+      if (failure && retry) {
+        const failed = decision.tier;
+        const { cost } = computeCost(this.tiers, failed, usage.tokensIn, usage.tokensOut, this.topTier());
+        this.budget.record(failed, cost, caller.userId);
+        this.rateLimiter.settle(failed, caller, promptTokens, usage.tokensIn + usage.tokensOut);
+        escalated = { check: failure.check, tier: failed, cost, ...usage };
+        attempts = [
+          ...result.attempts.map((attempt, index) => ({
+            ...attempt,
+            tier: failed,
+            qualityCheck: index === result.attempts.length - 1 ? failure.check : undefined,
+          })),
+          ...retry.result.attempts.map((attempt) => ({ ...attempt, tier: retry.tier })),
+        ];
+        decision = {
+          ...decision,
+          tier: retry.tier,
+          reasoning: `${decision.reasoning}; ${failed.toUpperCase()} answer failed ${failure.check} check -> ${retry.tier.toUpperCase()}`,
+        };
+        result = retry.result;
+        usage = retry.usage;
+      }
+      const { response, provider } = result;
+      const { tokensIn, tokensOut } = usage;
 
       // Step 5: Log the routing decision
       const totalLatencyMs = Date.now() - startTime;
-
-      // Extract token usage if available
-      let tokensIn = 0;
-      let tokensOut = 0;
-      try {
-        const clone = response.clone();
-        const data = await clone.json() as ChatCompletionResponse;
-        tokensIn = data.usage?.prompt_tokens ?? 0;
-        tokensOut = data.usage?.completion_tokens ?? 0;
-      } catch {
-        // Streaming response, can't extract usage
-      }
+      const costs = computeCost(this.tiers, decision.tier, tokensIn, tokensOut, this.topTier());
 
       const logEntry: RoutingLogEntry = {
         timestamp: new Date().toISOString(),
         requestId: id,
+        userId: caller.userId,
         score: decision.score,
         route: decision.tier,
         modelUsed: provider.model,
         taskType: decision.taskType,
         confidence: decision.confidence,
-        tokensIn,
-        tokensOut,
+        tokensIn: tokensIn + (escalated?.tokensIn ?? 0),
+        tokensOut: tokensOut + (escalated?.tokensOut ?? 0),
         latencyMs: totalLatencyMs,
         evaluationLatencyMs,
         mainLatencyMs: totalLatencyMs - evaluationLatencyMs,
         cached: decision.cached,
-        promptHash: evalResult.promptHash,
+        promptHash,
+        prompt: this.loggedPrompt(request),
+        evaluationStrategy,
+        evaluationSource,
+        attempts,
+        reasoning: decision.reasoning,
+        rule: decision.rule,
+        qualityCheck: escalated?.check,
+        escalatedFrom: escalated?.tier,
+        session,
+        toolLoop,
+        experiment: split?.experiment.name,
+        arm: split?.arm,
+        ...costs,
+        ...(escalated && {
+          cost: costs.cost + escalated.cost,
+          savings: costs.savings - escalated.cost,
+        }),
       };
 
       this.logger.logRouting(logEntry);
+      this.budget.record(decision.tier, costs.cost, caller.userId);
+      this.rateLimiter.settle(decision.tier, caller, promptTokens, tokensIn + tokensOut);
+
+      const shadows = this.shadowsFor(decision.tier, id, size, capabilities);
+      if (split || shadows.length > 0) {
+        this.recordExperiments(id, request, caller, decision, split, shadows, {
+          tier: decision.tier,
+          model: provider.model,
+          status: response.status,
+          latencyMs: logEntry.mainLatencyMs,
+          tokensIn,
+          tokensOut,
+          cost: costs.cost,
+          response: await answerText(response),
+        });
+      }
 
-      return response;
+      return withRoutingHeaders(response, createRoutingMetadata(id, decision));
     } catch (error) {
-      const totalLatencyMs = Date.now() - startTime;
+      // Router-level rejections (e.g. budgets) are not retried on MID
+      if (error instanceof HelixRouterError) throw error;
+
       this.consoleLogger.error(`[Helix] Request ${id} failed: ${error}`);
+      if (error instanceof FailoverError) {
+        attempts = error.attempts;
+      }
+
+      // Fallback to MID on error, or the cheapest tier the key permits when
+      // MID is not permitted or configured
+      const permitted = this.router.permittedTiers(caller.policy);
+      const fallbackTier: RouteTier = permitted.includes("mid") ? "mid" : permitted[0];
+      this.consoleLogger.warn(`[Helix] Falling back to ${fallbackTier.toUpperCase()} tier`);
+      // The failed attempt used nothing, so its reservation is released
+      this.rateLimiter.settle(decision?.tier, caller, promptTokens, 0);
+      const fallback = await this.forwardRequest(request, fallbackTier);
+      const totalLatencyMs = Date.now() - startTime;
+      const usage = await this.readUsage(fallback.response, request, fallback.provider.model);
+      this.rateLimiter.settle(fallbackTier, caller, 0, usage.tokensIn + usage.tokensOut);
+
+      const fallbackCost = computeCost(this.tiers, fallbackTier, usage.tokensIn, usage.tokensOut, this.topTier());
+      this.logger.logRouting({
+        timestamp: new Date().toISOString(),
+        requestId: id,
+        userId: caller.userId,
+        score: decision?.score ?? 0,
+        route: fallbackTier,
+        modelUsed: fallback.provider.model,
+        taskType: decision?.taskType ?? "other",
+        confidence: decision?.confidence ?? 0,
+        ...usage,
+        latencyMs: totalLatencyMs,
+        evaluationLatencyMs,
+        mainLatencyMs: totalLatencyMs - evaluationLatencyMs,
+        cached: decision?.cached ?? false,
+        promptHash,
+        prompt: this.loggedPrompt(request),
+        evaluationStrategy,
+        evaluationSource,
+        attempts: [...attempts, ...fallback.attempts],
+        session,
+        toolLoop,
+        ...fallbackCost,
+      });
+      this.budget.record(fallbackTier, fallbackCost.cost, caller.userId);
 
-      // Fallback to MID on error
-      this.consoleLogger.warn(`[Helix] Falling back to MID tier`);
-      const provider = this.router.getProvider("mid");
-      return this.forwardRequest(request, provider, "mid");
+      return withRoutingHeaders(fallback.response, {
+        requestId: id,
+        tier: fallbackTier,
+        score: decision?.score ?? 0,
+        taskType: decision?.taskType ?? "other",
+        confidence: decision?.confidence ?? 0,
+        cached: decision?.cached ?? false,
+      });
     }
   }
 
   /**
-   * Forward request to target provider
+   * Resolve the caller and enforce its rate limit and explicit-tier policy
    */
-  private async forwardRequest(
+  private admit(request: ChatCompletionRequest, context: RequestContext, promptTokens: number): RequestContext {
+    const caller = { ...context, userId: context.userId ?? request.user, model: request.model };
+
+    const tier = this.explicitTier(request.model);
+    if (tier && !this.router.permittedTiers(caller.policy).includes(tier)) {
+      throw new PermissionDeniedError(`API key is not allowed to use the ${tier.toUpperCase()} tier`);
+    }
+
+    this.rateLimiter.check(caller, promptTokens);
+    return caller;
+  }
+
+  /**
+   * Evaluate a request and decide its tier. A tool-result turn reuses the
+   * tier of the user turn that started its loop when that turn was routed
+   * here, and skips the evaluation; other turns are evaluated, held at
+   * their session's tier and remembered for the tool loops that follow.
+   * The decision is admitted against tier rate limits last.
+   */
+  private async route(
+    id: string,
     request: ChatCompletionRequest,
-    provider: ProviderConfig,
-    tier: RouteTier
-  ): Promise<Response> {
-    // Replace model ID with provider's model
-    const forwardedRequest = {
-      ...request,
-      model: provider.model,
+    caller: RequestContext,
+    split: SplitAssignment | undefined,
+    size: PromptSize,
+    capabilities: Capability[]
+  ): Promise<RoutedRequest> {
+    const router = this.routerFor(split);
+    const session = this.sessionFor(request, caller);
+    const turn = this.toolLoops.turnOf(request.messages, caller);
+    const origin = turn?.toolResult ? this.toolLoops.originOf(turn) : undefined;
+
+    if (turn?.toolResult && origin) {
+      this.consoleLogger.info(
+        `[Helix] Request ${id}: tool-result turn ${turn.iteration} reuses ${origin.tier.toUpperCase()}`
+      );
+      const reused = router.reroute({
+        ...origin,
+        reasoning: `Tool-result turn ${turn.iteration} reuses ${origin.tier.toUpperCase()} of its user turn`,
+        rule: "tool_loop",
+        cached: false,
+      }, caller, size, capabilities);
+      const decision = this.continueToolLoop(reused, turn, origin, split, caller, size, capabilities);
+      return {
+        decision: this.applyRateLimits(decision, caller, size, capabilities),
+        session,
+        toolLoop: toolLoopTag(turn, origin.tier, decision.tier !== reused.tier),
+      };
+    }
+
+    const evaluation = await this.evaluator.evaluate(request.messages);
+    const decided = router.decide(evaluation.evaluation, evaluation.cached, caller, size, capabilities);
+    let decision: RoutingDecision;
+    if (turn?.toolResult) {
+      // The user turn was not routed here; this evaluation stands in for it
+      this.toolLoops.remember(turn, decided);
+      decision = this.continueToolLoop(decided, turn, decided, split, caller, size, capabilities);
+    } else {
+      decision = this.applySession(decided, session, split, caller, size, capabilities);
+      if (turn) this.toolLoops.remember(turn, decision);
+    }
+    return {
+      decision: this.applyRateLimits(decision, caller, size, capabilities),
+      evaluation,
+      session,
+      toolLoop: turn?.toolResult ? toolLoopTag(turn, undefined, decision.tier !== decided.tier) : undefined,
     };
+  }
+
+  /**
+   * Move a tool-result turn one tier above its user turn's once the loop
+   * has run too long or its tools keep failing
+   */
+  private continueToolLoop(
+    decision: RoutingDecision,
+    turn: ToolTurn,
+    origin: TurnRouting,
+    split: SplitAssignment | undefined,
+    caller: RequestContext,
+    size: PromptSize,
+    capabilities: Capability[]
+  ): RoutingDecision {
+    const reason = this.toolLoops.escalationReason(turn);
+    if (!reason) return decision;
+    const router = this.routerFor(split);
+    const higher = router.nextTierUp(origin.tier, caller, size, capabilities);
+    if (!higher) return decision;
+
+    this.consoleLogger.info(`[Helix] ${reason}, escalating to ${higher.toUpperCase()}`);
+    return router.raise(decision, higher, "tool_loop", reason, caller, size, capabilities);
+  }
+
+  /**
+   * Key of the session a request belongs to, when sessions are enabled
+   */
+  private sessionFor(request: ChatCompletionRequest, caller: RequestContext): string | undefined {
+    return this.sessions.isEnabled() ? sessionKey(request, caller) : undefined;
+  }
 
-    // Map helix-router model IDs to actual tiers
-    // If user explicitly requested a tier, use it
-    if (request.model === "helix-router/pro" || request.model === "pro") {
-      forwardedRequest.model = this.router.getProvider("pro").model;
-    } else if (request.model === "helix-router/mid" || request.model === "mid") {
-      forwardedRequest.model = this.router.getProvider("mid").model;
-    } else if (request.model === "helix-router/low" || request.model === "low") {
-      forwardedRequest.model = this.router.getProvider("low").model;
+  /**
+   * Raise the decision to the tier its session holds. The session records
+   * the decided tier first, so a harder turn raises the session at once.
+   */
+  private applySession(
+    decision: RoutingDecision,
+    session: string | undefined,
+    split: SplitAssignment | undefined,
+    caller: RequestContext,
+    size: PromptSize,
+    capabilities: Capability[]
+  ): RoutingDecision {
+    if (!session) return decision;
+    const hold = this.sessions.hold(session, decision.tier, this.router.getTiers());
+    if (!hold.note) return decision;
+    if (hold.tier === decision.tier) {
+      return { ...decision, reasoning: `${decision.reasoning}; ${hold.note}` };
     }
-    // Otherwise use the routed tier's model
-
-    const response = await fetch(`${provider.baseUrl}/chat/completions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${provider.apiKey}`,
-      },
-      body: JSON.stringify(forwardedRequest),
-    });
 
-    return response;
+    this.consoleLogger.info(`[Helix] Session holds ${decision.tier.toUpperCase()} at ${hold.tier.toUpperCase()}`);
+    return this.routerFor(split).raise(decision, hold.tier, "session", hold.note, caller, size, capabilities);
+  }
+
+  /**
+   * Admit the decision against tier rate limits, demoting to a cheaper
+   * permitted and healthy tier that still fits and supports the request when
+   * the caller's policy allows it
+   */
+  private applyRateLimits(
+    decision: RoutingDecision,
+    caller: RequestContext,
+    size: PromptSize,
+    capabilities: Capability[]
+  ): RoutingDecision {
+    const permitted = this.router.permittedTiers(caller.policy);
+    const order = this.router.getTiers();
+    const cheaper = order
+      .slice(0, order.indexOf(decision.tier))
+      .reverse()
+      .filter((tier) =>
+        permitted.includes(tier) &&
+        this.router.isTierAvailable(tier) &&
+        this.router.fits(tier, size) &&
+        this.router.supports(tier, capabilities)
+      );
+
+    const admission = this.rateLimiter.admit(decision.tier, caller, cheaper, size.promptTokens);
+    if (admission.tier === decision.tier) return decision;
+
+    this.consoleLogger.info(
+      `[Helix] Rate limit demotes ${decision.tier.toUpperCase()} to ${admission.tier.toUpperCase()}`
+    );
+    return {
+      ...decision,
+      tier: admission.tier,
+      reasoning: `${[decision.reasoning, ...admission.reasons].join("; ")} -> ${admission.tier.toUpperCase()}`,
+    };
+  }
+
+  /**
+   * The first configured quality check a successful JSON answer fails, if
+   * checking is enabled
+   */
+  private async checkQuality(
+    request: ChatCompletionRequest,
+    response: Response
+  ): Promise<QualityFailure | undefined> {
+    if (this.config.quality?.enabled !== true || !response.ok) return undefined;
+    let data: ChatCompletionResponse;
+    try {
+      data = await response.clone().json() as ChatCompletionResponse;
+    } catch {
+      return undefined;
+    }
+    return findQualityFailure(data, request, this.config.quality);
+  }
+
+  /**
+   * Send a request whose answer failed a quality check to the next tier up.
+   * Returns undefined, keeping the first answer, when the client asked for
+   * the tier explicitly, nothing above can take the request or the retry
+   * fails.
+   */
+  private async escalate(
+    id: string,
+    request: ChatCompletionRequest,
+    tier: RouteTier,
+    failure: QualityFailure,
+    caller: RequestContext,
+    size: PromptSize,
+    capabilities: Capability[],
+    promptTokens: number
+  ): Promise<{ tier: RouteTier; result: FailoverResult; usage: { tokensIn: number; tokensOut: number } } | undefined> {
+    if (this.explicitTier(request.model)) return undefined;
+    const problem = `${tier.toUpperCase()} answer failed the ${failure.check} check (${failure.detail})`;
+    const higher = this.router.nextTierUp(tier, caller, size, capabilities);
+    if (!higher) {
+      this.consoleLogger.warn(`[Helix] Request ${id}: ${problem}, no tier to escalate to`);
+      return undefined;
+    }
+
+    this.consoleLogger.warn(`[Helix] Request ${id}: ${problem}, retrying on ${higher.toUpperCase()}`);
+    try {
+      this.rateLimiter.admitRetry(higher, caller, promptTokens);
+      const result = await this.forwardRequest(request, higher);
+      const usage = await this.readUsage(result.response, request, result.provider.model);
+      return { tier: higher, result, usage };
+    } catch (error) {
+      this.consoleLogger.warn(`[Helix] Request ${id}: retry on ${higher.toUpperCase()} failed, returning the ${tier.toUpperCase()} answer: ${error}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Forward request along a tier's provider chain
+   */
+  private async forwardRequest(
+    request: ChatCompletionRequest,
+    tier: RouteTier
+  ): Promise<FailoverResult> {
+    // Each provider gets its own model; a tier the client asked for only
+    // picked `tier`, and a fallback or escalation may have moved past it
+    return fetchWithFailover(
+      this.router.getProviders(tier),
+      (provider) => ({
+        ...request,
+        model: provider.model,
+      }),
+      this.consoleLogger,
+      this.health
+    );
   }
 
   /**
-   * Handle streaming request
+   * Handle streaming request. Usage chunks are passed on when the request
+   * asks for them or `options.includeUsage` is set; in the latter case a
+   * stream whose upstream sent no usage ends with an estimated one.
    */
   async *handleStreamRequest(
     request: ChatCompletionRequest,
-    requestId?: string
+    requestId?: string,
+    context: RequestContext = {},
+    options: StreamRequestOptions = {}
   ): AsyncGenerator<StreamChunk, void, unknown> {
     const id = requestId ?? this.generateId();
+    const promptTokens = countRequestTokens(request);
+    const size = { promptTokens, maxTokens: request.max_tokens ?? 0 };
+    const capabilities = requiredCapabilities(request);
+    const caller = this.admit(request, context, promptTokens);
+    const split = this.experiments.assignSplit(caller.userId ?? id);
     const startTime = Date.now();
+    // What a failed or abandoned stream has used, for settling its reservation
+    let admitted: RouteTier | undefined;
+    let answered = false;
+    let completionText = "";
+    let usage: StreamChunk["usage"];
+    let settled = false;
 
     try {
-      // Step 1: Evaluate complexity
-      const evalResult = await this.evaluator.evaluate(request.messages);
-      const evaluationLatencyMs = evalResult.latencyMs;
-
-      // Step 2: Make routing decision
-      const decision = this.router.decide(evalResult.evaluation, evalResult.cached);
-
-      // Step 3: Get provider for selected tier
-      const provider = this.router.getProvider(decision.tier);
+      // Steps 1 and 2: Evaluate complexity and make the routing decision
+      const { decision, evaluation, session, toolLoop } = await this.route(id, request, caller, split, size, capabilities);
+      admitted = decision.tier;
+      const evaluationLatencyMs = evaluation?.latencyMs ?? 0;
 
       this.consoleLogger.info(
         `[Helix] Stream ${id}: ${decision.tier.toUpperCase()} ` +
         `(score: ${decision.score}, task: ${decision.taskType})`
       );
 
-      // Step 4: Forward stream request
-      const streamRequest = {
-        ...request,
-        model: provider.model,
-        stream: true,
-      };
-
-      const response = await fetch(`${provider.baseUrl}/chat/completions`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${provider.apiKey}`,
-        },
-        body: JSON.stringify(streamRequest),
-      });
+      // Step 3: Forward stream request along the tier's provider chain.
+      // Failover only happens before the first byte is received.
+      const { response, provider, attempts } = await fetchWithFailover(
+        this.router.getProviders(decision.tier),
+        (candidate) => ({
+          ...request,
+          model: candidate.model,
+          stream: true,
+          // Ask OpenAI-compatible upstreams for a final usage chunk
+          stream_options: candidate.streamUsage === false
+            ? request.stream_options
+            : { ...request.stream_options, include_usage: true },
+        }),
+        this.consoleLogger,
+        this.health
+      );
 
       if (!response.ok) {
         throw new Error(`Provider error: ${response.status}`);
@@ -227,9 +733,11 @@ export class HelixProxy {
         throw new Error("No response body");
       }
 
+      answered = true;
       const decoder = new TextDecoder();
       let buffer = "";
-      let totalTokens = 0;
+      const clientWantsUsage = options.includeUsage || request.stream_options?.include_usage === true;
+      let metadata: RoutingMetadata | undefined = createRoutingMetadata(id, decision);
 
       while (true) {
         const { done, value } = await reader.read();
@@ -245,20 +753,31 @@ export class HelixProxy {
           
           const data = trimmed.slice(5).trim();
           if (data === "[DONE]") {
-            yield { id, object: "chat.completion.chunk", created: Date.now(), model: provider.model, choices: [{ index: 0, delta: {}, finish_reason: "stop" }] };
+            yield { id, object: "chat.completion.chunk", created: Date.now(), model: `helix-router/${decision.tier}`, choices: [{ index: 0, delta: {}, finish_reason: "stop" }] };
             continue;
           }
 
           try {
             const chunk = JSON.parse(data) as StreamChunk;
-            // Update model name in response
-            chunk.model = `helix-router/${decision.tier}`;
-            yield chunk;
 
-            // Estimate tokens for logging
-            if (chunk.choices?.[0]?.delta?.content) {
-              totalTokens += Math.ceil(chunk.choices[0].delta.content.length / 4);
+            // Collect output for token counting when the upstream sends no usage
+            usage = chunk.usage ?? usage;
+            const delta = chunk.choices?.[0]?.delta;
+            if (typeof delta?.content === "string") completionText += delta.content;
+            for (const call of delta?.tool_calls ?? []) {
+              completionText += (call.function?.name ?? "") + (call.function?.arguments ?? "");
             }
+
+            // Usage-only chunks we asked for are not passed on
+            if (chunk.usage && !chunk.choices?.length && !clientWantsUsage) continue;
+
+            // Update model name in response; the first chunk carries the routing decision
+            chunk.model = `helix-router/${decision.tier}`;
+            if (metadata) {
+              chunk.helix = metadata;
+              metadata = undefined;
+            }
+            yield chunk;
           } catch {
             // Skip malformed chunks
           }
@@ -267,30 +786,210 @@ export class HelixProxy {
 
       // Log the completed stream
       const totalLatencyMs = Date.now() - startTime;
+      const tokensIn = usage?.prompt_tokens ?? countRequestTokens(request, provider.model);
+      const tokensOut = usage?.completion_tokens ?? countTextTokens(completionText, provider.model);
+      if (options.includeUsage && !usage) {
+        yield {
+          id,
+          object: "chat.completion.chunk",
+          created: Date.now(),
+          model: `helix-router/${decision.tier}`,
+          choices: [],
+          usage: { prompt_tokens: tokensIn, completion_tokens: tokensOut, total_tokens: tokensIn + tokensOut },
+        };
+      }
       const logEntry: RoutingLogEntry = {
         timestamp: new Date().toISOString(),
         requestId: id,
+        userId: caller.userId,
         score: decision.score,
         route: decision.tier,
         modelUsed: provider.model,
         taskType: decision.taskType,
         confidence: decision.confidence,
-        tokensIn: Math.ceil(JSON.stringify(request.messages).length / 4),
-        tokensOut: totalTokens,
+        tokensIn,
+        tokensOut,
         latencyMs: totalLatencyMs,
         evaluationLatencyMs,
         mainLatencyMs: totalLatencyMs - evaluationLatencyMs,
         cached: decision.cached,
-        promptHash: evalResult.promptHash,
+        promptHash: evaluation?.promptHash ?? "",
+        prompt: this.loggedPrompt(request),
+        evaluationStrategy: evaluation?.strategy,
+        evaluationSource: evaluation?.source,
+        attempts,
+        reasoning: decision.reasoning,
+        rule: decision.rule,
+        session,
+        toolLoop,
+        experiment: split?.experiment.name,
+        arm: split?.arm,
+        ...computeCost(this.tiers, decision.tier, tokensIn, tokensOut, this.topTier()),
       };
 
       this.logger.logRouting(logEntry);
+      this.budget.record(logEntry.route, logEntry.cost ?? 0, caller.userId);
+      this.rateLimiter.settle(decision.tier, caller, promptTokens, tokensIn + tokensOut);
+      settled = true;
+
+      const shadows = this.shadowsFor(decision.tier, id, size, capabilities);
+      if (split || shadows.length > 0) {
+        this.recordExperiments(id, request, caller, decision, split, shadows, {
+          tier: decision.tier,
+          model: provider.model,
+          status: response.status,
+          latencyMs: logEntry.mainLatencyMs,
+          tokensIn,
+          tokensOut,
+          cost: logEntry.cost ?? 0,
+          response: completionText.slice(0, MAX_LOGGED_RESPONSE_CHARS),
+        });
+      }
     } catch (error) {
-      this.consoleLogger.error(`[Helix] Stream ${id} failed: ${error}`);
+      if (!(error instanceof HelixRouterError)) {
+        this.consoleLogger.error(`[Helix] Stream ${id} failed: ${error}`);
+      }
       throw error;
+    } finally {
+      // A failed or abandoned stream is charged what the upstream had used when it stopped
+      if (!settled) {
+        const observed = usage
+          ? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0)
+          : answered ? promptTokens + countTextTokens(completionText) : 0;
+        this.rateLimiter.settle(admitted, caller, promptTokens, observed);
+      }
+    }
+  }
+
+  /**
+   * Shadow experiments sampling a request whose tier could also serve it,
+   * held to the same budgets, capabilities and context limits as routing
+   */
+  private shadowsFor(
+    tier: RouteTier,
+    id: string,
+    size: PromptSize,
+    capabilities: Capability[]
+  ): ShadowExperiment[] {
+    return this.experiments.shadowsFor(tier, id).filter((experiment) => {
+      if (this.router.canServe(experiment.tier, size, capabilities)) return true;
+      this.consoleLogger.info(
+        `[Helix] Shadow ${experiment.name} skipped for ${id}: ${experiment.tier.toUpperCase()} cannot serve it`
+      );
+      return false;
+    });
+  }
+
+  /**
+   * The router a request goes through: a split experiment's treatment arm
+   * routes with its own thresholds
+   */
+  private routerFor(split: SplitAssignment | undefined): RoutingEngine {
+    return split?.arm === "treatment"
+      ? this.treatmentRouters.get(split.experiment.name) ?? this.router
+      : this.router;
+  }
+
+  /**
+   * Log a request enrolled in a split experiment and start the shadow
+   * experiments sampling it; shadow calls run in the background
+   */
+  private recordExperiments(
+    id: string,
+    request: ChatCompletionRequest,
+    caller: RequestContext,
+    decision: RoutingDecision,
+    split: SplitAssignment | undefined,
+    shadows: ShadowExperiment[],
+    result: Omit<ExperimentArmResult, "arm">
+  ): void {
+    if (split) {
+      this.experiments.record(
+        this.experimentEntry(split.experiment, id, request, caller, decision, [{ arm: split.arm, ...result }])
+      );
+    }
+    for (const experiment of shadows) {
+      void this.runShadow(experiment, id, request, caller, decision, { arm: "primary", ...result });
     }
   }
 
+  /**
+   * Send a sampled request to a shadow experiment's tier as well and log
+   * both answers. The shadow answer is never returned to the client; its
+   * spend counts toward the global and tier budgets.
+   */
+  private async runShadow(
+    experiment: ShadowExperiment,
+    id: string,
+    request: ChatCompletionRequest,
+    caller: RequestContext,
+    decision: RoutingDecision,
+    primary: ExperimentArmResult
+  ): Promise<void> {
+    const { tier } = experiment;
+    const startTime = Date.now();
+    let shadow: ExperimentArmResult;
+
+    try {
+      const { response, provider } = await fetchWithFailover(
+        this.router.getProviders(tier),
+        (candidate) => ({ ...request, model: candidate.model, stream: false, stream_options: undefined }),
+        this.consoleLogger,
+        this.health
+      );
+      const latencyMs = Date.now() - startTime;
+      const { tokensIn, tokensOut } = await this.readUsage(response, request, provider.model);
+      const { cost } = computeCost(this.tiers, tier, tokensIn, tokensOut, this.topTier());
+      this.budget.record(tier, cost);
+      shadow = {
+        arm: "shadow",
+        tier,
+        model: provider.model,
+        status: response.status,
+        latencyMs,
+        tokensIn,
+        tokensOut,
+        cost,
+        response: await answerText(response),
+      };
+    } catch (error) {
+      this.consoleLogger.warn(`[Helix] Shadow ${experiment.name} for ${id} failed: ${error}`);
+      shadow = {
+        arm: "shadow",
+        tier,
+        model: this.router.getProvider(tier).model,
+        error: String(error),
+        latencyMs: Date.now() - startTime,
+        tokensIn: 0,
+        tokensOut: 0,
+        cost: 0,
+      };
+    }
+
+    this.experiments.record(this.experimentEntry(experiment, id, request, caller, decision, [primary, shadow]));
+  }
+
+  private experimentEntry(
+    experiment: ExperimentConfig,
+    id: string,
+    request: ChatCompletionRequest,
+    caller: RequestContext,
+    decision: RoutingDecision,
+    arms: ExperimentArmResult[]
+  ): ExperimentLogEntry {
+    return {
+      timestamp: new Date().toISOString(),
+      experiment: experiment.name,
+      type: experiment.type,
+      requestId: id,
+      userId: caller.userId,
+      score: decision.score,
+      taskType: decision.taskType,
+      prompt: this.loggedPrompt(request),
+      arms,
+    };
+  }
+
   /**
    * Get routing statistics
    */
@@ -298,10 +997,129 @@ export class HelixProxy {
     return {
       routing: this.router.getStats(),
       logs: this.logger.getStats(),
+      budget: this.budget.getStatus(),
+    };
+  }
+
+  /**
+   * Get circuit breaker health for every tier
+   */
+  getHealth(): Record<RouteTier, TierHealth> {
+    return this.router.getHealth();
+  }
+
+  /**
+   * The configured tiers, cheapest first
+   */
+  getTiers(): RouteTier[] {
+    return this.router.getTiers();
+  }
+
+  /**
+   * Token usage of a JSON response, counted locally when the upstream
+   * reports none. Zero for non-JSON responses.
+   */
+  private async readUsage(
+    response: Response,
+    request: ChatCompletionRequest,
+    model: string
+  ): Promise<{ tokensIn: number; tokensOut: number }> {
+    let data: ChatCompletionResponse;
+    try {
+      data = await response.clone().json() as ChatCompletionResponse;
+    } catch {
+      return { tokensIn: 0, tokensOut: 0 };
+    }
+
+    if (data.usage) {
+      return { tokensIn: data.usage.prompt_tokens, tokensOut: data.usage.completion_tokens };
+    }
+    if (!response.ok) {
+      return { tokensIn: 0, tokensOut: 0 };
+    }
+
+    return {
+      tokensIn: countRequestTokens(request, model),
+      tokensOut: countTextTokens(replyText(data.choices?.[0]?.message), model),
     };
   }
 
+  /**
+   * Latest user message for the routing log, when prompt logging is on
+   */
+  private loggedPrompt(request: ChatCompletionRequest): string | undefined {
+    if (!this.logPrompts) return undefined;
+    const lastUser = [...request.messages].reverse().find((message) => message.role === "user");
+    return lastUser ? contentText(lastUser.content).slice(0, MAX_LOGGED_PROMPT_CHARS) : undefined;
+  }
+
+  /**
+   * Tier explicitly requested through the model name, if any
+   */
+  private explicitTier(model: string): RouteTier | undefined {
+    const name = model.startsWith("helix-router/") ? model.slice("helix-router/".length) : model;
+    return this.router.getTiers().includes(name) ? name : undefined;
+  }
+
+  /**
+   * The most capable tier, which savings are measured against
+   */
+  private topTier(): RouteTier {
+    const order = this.router.getTiers();
+    return order[order.length - 1];
+  }
+
   private generateId(): string {
     return `hr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 }
+
+/**
+ * Provider chain the evaluator calls: the cheapest tier's
+ */
+function evaluationProvider(config: ProxyConfig): ProviderChain {
+  return config.providers[tierOrder(config.routing)[0]];
+}
+
+/**
+ * Log tag of a tool-result turn
+ */
+function toolLoopTag(turn: ToolTurn, originTier: RouteTier | undefined, escalated: boolean): ToolLoopTag {
+  return {
+    iteration: turn.iteration,
+    toolErrors: turn.toolErrors,
+    originTier,
+    escalated: escalated || undefined,
+  };
+}
+
+/**
+ * Answer text of a JSON response for the experiments log, truncated
+ */
+async function answerText(response: Response): Promise<string | undefined> {
+  try {
+    const data = await response.clone().json() as ChatCompletionResponse;
+    return replyText(data.choices?.[0]?.message).slice(0, MAX_LOGGED_RESPONSE_CHARS);
+  } catch {
+    return undefined;
+  }
+}
+
+// ============= Reload Helpers =============
+
+/**
+ * Whether two config sections differ
+ */
+function changed(previous: unknown, next: unknown): boolean {
+  return JSON.stringify(previous) !== JSON.stringify(next);
+}
+
+// Settings the rate limiter is built from
+function rateLimits(config: ProxyConfig): unknown {
+  return [config.rateLimit, Object.entries(config.tiers ?? {}).map(([tier, settings]) => [tier, settings?.rateLimit])];
+}
+
+// Settings the evaluator is built from
+function evaluatorSettings(config: ProxyConfig): unknown {
+  return [config.evaluator, evaluationProvider(config), config.cache?.ttlMs];
+}
@@ -0,0 +1,119 @@
+/**
+ * Answer Quality Checks
+ *
+ * Checks run on non-streaming answers before they are returned when
+ * QualityConfig.enabled is set; when one fails the proxy retries the
+ * request once on the next tier up. Checks are
+ * selected by QualityConfig.checks from a registry holding the built-in
+ * ones (truncated, refusal, empty, tool_arguments, json); embedders can
+ * register their own.
+ */
+
+import type { ChatCompletionRequest, ChatCompletionResponse, QualityConfig } from "./types.js";
+
+/**
+ * Why an answer is poor, or undefined when it passes
+ */
+export type QualityCheck = (
+  response: ChatCompletionResponse,
+  request: ChatCompletionRequest,
+  config: QualityConfig
+) => string | undefined;
+
+export interface QualityFailure {
+  check: string;
+  detail: string;
+}
+
+// Openings of a declined answer, matched case-insensitively
+const DEFAULT_REFUSAL_PATTERNS = [
+  "^(i['’]m|i am) sorry,? (but )?i (can['’]?t|cannot|won['’]t|am unable|['’]m unable)",
+  "^i (can['’]?t|cannot|won['’]t) (help|assist|comply|provide|do that)",
+  "^(i['’]m|i am) (unable|not able) to (help|assist|comply|provide)",
+  "^as an ai( language model)?,? i (can['’]?t|cannot)",
+];
+
+// Refusals are recognised by how an answer opens
+const REFUSAL_WINDOW_CHARS = 300;
+
+const QUALITY_CHECKS = new Map<string, QualityCheck>([
+  // A client that set max_tokens asked for the cut
+  ["truncated", (response, request) =>
+    response.choices?.[0]?.finish_reason === "length" && request.max_tokens === undefined
+      ? "answer cut off at the token limit"
+      : undefined],
+  ["refusal", (response, _request, config) => {
+    const choice = response.choices?.[0];
+    if (choice?.message?.refusal) return "model refused to answer";
+    if (choice?.finish_reason === "content_filter") return "answer blocked by the content filter";
+    const content = choice?.message?.content;
+    if (typeof content !== "string") return undefined;
+    const opening = content.trim().slice(0, REFUSAL_WINDOW_CHARS);
+    const patterns = config.refusalPatterns ?? DEFAULT_REFUSAL_PATTERNS;
+    return patterns.some((pattern) => new RegExp(pattern, "i").test(opening)) ? "answer is a refusal" : undefined;
+  }],
+  ["empty", (response) => {
+    const message = response.choices?.[0]?.message;
+    const content = typeof message?.content === "string" ? message.content.trim() : "";
+    return !content && !message?.tool_calls?.length ? "answer is empty" : undefined;
+  }],
+  ["tool_arguments", (response) => {
+    for (const call of response.choices?.[0]?.message?.tool_calls ?? []) {
+      if (!isJsonObject(call.function?.arguments || "{}")) {
+        return `tool call ${call.function?.name ?? "?"} has malformed arguments`;
+      }
+    }
+    return undefined;
+  }],
+  ["json", (response, request) => {
+    const format = request.response_format?.type;
+    if (format !== "json_object" && format !== "json_schema") return undefined;
+    const content = response.choices?.[0]?.message?.content;
+    if (typeof content !== "string") return undefined;
+    try {
+      JSON.parse(content);
+      return undefined;
+    } catch {
+      return `answer is not valid JSON although ${format} was requested`;
+    }
+  }],
+]);
+
+/**
+ * Register a quality check, replacing any with the same name
+ */
+export function registerQualityCheck(name: string, check: QualityCheck): void {
+  QUALITY_CHECKS.set(name, check);
+}
+
+/**
+ * Names of every registered check
+ */
+export function qualityCheckNames(): string[] {
+  return [...QUALITY_CHECKS.keys()];
+}
+
+/**
+ * The first configured check an answer fails, if any. Unknown check names
+ * are skipped; validation reports them.
+ */
+export function findQualityFailure(
+  response: ChatCompletionResponse,
+  request: ChatCompletionRequest,
+  config: QualityConfig = {}
+): QualityFailure | undefined {
+  for (const name of config.checks ?? qualityCheckNames()) {
+    const detail = QUALITY_CHECKS.get(name)?.(response, request, config);
+    if (detail) return { check: name, detail };
+  }
+  return undefined;
+}
+
+function isJsonObject(text: string): boolean {
+  try {
+    const parsed = JSON.parse(text);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Rate Limiting
+ *
+ * Token buckets for requests and tokens per minute, kept per caller, per
+ * caller and tier, and per tier. A caller's own limit always rejects; tier
+ * limits can demote the request to a cheaper tier when the caller's policy
+ * asks for it. Token limits are checked against a prompt estimate and
+ * settled with actual usage once the response is in.
+ */
+
+import type { RateLimitConfig, RequestContext, RouteTier, TiersConfig } from "./types.js";
+import { RateLimitError } from "./errors.js";
+
+const MINUTE_MS = 60_000;
+
+class TokenBucket {
+  readonly capacity: number;
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.tokens = capacity;
+  }
+
+  /**
+   * Tokens currently available, negative while in debt
+   */
+  available(): number {
+    this.refill();
+    return this.tokens;
+  }
+
+  /**
+   * Milliseconds until `count` tokens are available. Requests larger than
+   * the bucket only wait for it to fill.
+   */
+  waitMs(count: number): number {
+    const needed = Math.min(count, this.capacity) - this.available();
+    return needed <= 0 ? 0 : Math.ceil(needed / this.refillPerMs());
+  }
+
+  /**
+   * Milliseconds until the bucket is full again
+   */
+  resetMs(): number {
+    return this.waitMs(this.capacity);
+  }
+
+  /**
+   * Remove tokens; negative counts refund them
+   */
+  take(count: number): void {
+    this.refill();
+    this.tokens = Math.min(this.capacity, this.tokens - count);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs());
+    this.updatedAt = now;
+  }
+
+  private refillPerMs(): number {
+    return this.capacity / MINUTE_MS;
+  }
+}
+
+interface Limit {
+  scope: string; // "user:<id>", "user:<id>:<tier>" or "tier:<tier>"
+  requests?: TokenBucket;
+  tokens?: TokenBucket;
+}
+
+export interface RateLimitAdmission {
+  tier: RouteTier;
+  reasons: string[];
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+  private sweptAt = Date.now();
+  private tiers: TiersConfig;
+  private defaultLimit?: RateLimitConfig;
+
+  constructor(tiers: TiersConfig = {}, defaultLimit?: RateLimitConfig) {
+    this.tiers = tiers;
+    this.defaultLimit = defaultLimit;
+  }
+
+  /**
+   * Count a request against the caller's own limit.
+   * Throws RateLimitError when the limit is exhausted.
+   */
+  check(context: RequestContext, promptTokens: number): void {
+    const limit = this.callerLimit(context);
+    if (!limit) return;
+
+    if (this.isBlocked(limit, promptTokens)) {
+      throw this.limitError(limit, promptTokens);
+    }
+    this.consume([limit], promptTokens);
+  }
+
+  /**
+   * Admit a request to a tier. When the tier is saturated and the caller's
+   * policy demotes, the first unsaturated tier in `fallbacks` is used
+   * instead. Throws RateLimitError when nothing can take the request.
+   */
+  admit(
+    tier: RouteTier,
+    context: RequestContext,
+    fallbacks: RouteTier[],
+    promptTokens: number
+  ): RateLimitAdmission {
+    const candidates = context.policy?.onRateLimit === "demote" ? [tier, ...fallbacks] : [tier];
+    const reasons: string[] = [];
+    let first: Limit | undefined;
+
+    for (const candidate of candidates) {
+      const limits = this.tierLimits(candidate, context);
+      const blocked = limits.find((limit) => this.isBlocked(limit, promptTokens));
+      if (!blocked) {
+        this.consume(limits, promptTokens);
+        return { tier: candidate, reasons };
+      }
+      first ??= blocked;
+      reasons.push(`${blocked.scope} rate limit reached`);
+    }
+
+    throw this.limitError(first!, promptTokens);
+  }
+
+  /**
+   * Admit a retry of an admitted request on another tier. The retry counts
+   * against the tier's limits like a request, and its estimated tokens
+   * against the caller's, but not as another caller request. Throws
+   * RateLimitError when the tier is saturated.
+   */
+  admitRetry(tier: RouteTier, context: RequestContext, promptTokens: number): void {
+    this.admit(tier, context, [], promptTokens);
+    this.callerLimit(context)?.tokens?.take(promptTokens);
+  }
+
+  /**
+   * Charge the difference between actual and estimated tokens. Without a
+   * tier only the caller's limit is settled, for a request that was never
+   * admitted to one.
+   */
+  settle(tier: RouteTier | undefined, context: RequestContext, promptTokens: number, actualTokens: number): void {
+    const delta = actualTokens - promptTokens;
+    if (delta === 0) return;
+
+    for (const limit of [this.callerLimit(context), ...(tier ? this.tierLimits(tier, context) : [])]) {
+      limit?.tokens?.take(delta);
+    }
+  }
+
+  /**
+   * Number of buckets currently tracked
+   */
+  size(): number {
+    this.sweep();
+    return this.buckets.size;
+  }
+
+  private callerLimit(context: RequestContext): Limit | undefined {
+    const config = context.policy?.rateLimit ?? this.defaultLimit;
+    return config ? this.limitFor(`user:${context.userId ?? "anonymous"}`, config) : undefined;
+  }
+
+  private tierLimits(tier: RouteTier, context: RequestContext): Limit[] {
+    const limits: Limit[] = [];
+    const shared = this.tiers[tier]?.rateLimit;
+    if (shared) {
+      limits.push(this.limitFor(`tier:${tier}`, shared));
+    }
+    const own = context.policy?.tierRateLimits?.[tier];
+    if (own) {
+      limits.push(this.limitFor(`user:${context.userId ?? "anonymous"}:${tier}`, own));
+    }
+    return limits;
+  }
+
+  private limitFor(scope: string, config: RateLimitConfig): Limit {
+    return {
+      scope,
+      requests: config.rpm ? this.bucket(`${scope}#rpm`, config.rpm) : undefined,
+      tokens: config.tpm ? this.bucket(`${scope}#tpm`, config.tpm) : undefined,
+    };
+  }
+
+  private bucket(key: string, capacity: number): TokenBucket {
+    this.sweep();
+    let bucket = this.buckets.get(key);
+    if (!bucket || bucket.capacity !== capacity) {
+      bucket = new TokenBucket(capacity);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Drop buckets that have refilled, at most once a minute. A full bucket
+   * behaves like a new one, so callers that went idle are forgotten.
+   */
+  private sweep(): void {
+    const now = Date.now();
+    if (now - this.sweptAt < MINUTE_MS) return;
+    this.sweptAt = now;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.available() >= bucket.capacity) this.buckets.delete(key);
+    }
+  }
+
+  private isBlocked(limit: Limit, promptTokens: number): boolean {
+    return (limit.requests?.waitMs(1) ?? 0) > 0 || (limit.tokens?.waitMs(promptTokens) ?? 0) > 0;
+  }
+
+  private consume(limits: Limit[], promptTokens: number): void {
+    for (const limit of limits) {
+      limit.requests?.take(1);
+      limit.tokens?.take(promptTokens);
+    }
+  }
+
+  /**
+   * Build a 429 with Retry-After and OpenAI-style x-ratelimit-* headers
+   */
+  private limitError(limit: Limit, promptTokens: number): RateLimitError {
+    const headers: Record<string, string> = {};
+    const exceeded: string[] = [];
+    let waitMs = 0;
+
+    if (limit.requests) {
+      headers["x-ratelimit-limit-requests"] = String(limit.requests.capacity);
+      headers["x-ratelimit-remaining-requests"] = String(Math.max(0, Math.floor(limit.requests.available())));
+      headers["x-ratelimit-reset-requests"] = `${Math.ceil(limit.requests.resetMs() / 1000)}s`;
+      const wait = limit.requests.waitMs(1);
+      if (wait > 0) exceeded.push(`${limit.requests.capacity} requests per minute`);
+      waitMs = Math.max(waitMs, wait);
+    }
+    if (limit.tokens) {
+      headers["x-ratelimit-limit-tokens"] = String(limit.tokens.capacity);
+      headers["x-ratelimit-remaining-tokens"] = String(Math.max(0, Math.floor(limit.tokens.available())));
+      headers["x-ratelimit-reset-tokens"] = `${Math.ceil(limit.tokens.resetMs() / 1000)}s`;
+      const wait = limit.tokens.waitMs(promptTokens);
+      if (wait > 0) exceeded.push(`${limit.tokens.capacity} tokens per minute`);
+      waitMs = Math.max(waitMs, wait);
+    }
+
+    return new RateLimitError(
+      `Rate limit exceeded for ${limit.scope}: ${exceeded.join(" and ")}`,
+      Math.max(1, Math.ceil(waitMs / 1000)),
+      headers
+    );
+  }
+}
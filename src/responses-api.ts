@@ -0,0 +1,351 @@
+/**
+ * OpenAI Responses API Translation
+ *
+ * Converts /v1/responses requests into the internal chat completion shape,
+ * and converts responses and stream chunks back into Responses objects
+ * and events.
+ */
+
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  ResponsesInputContent,
+  ResponsesOutputItem,
+  ResponsesRequest,
+  ResponsesResponse,
+  ResponsesStreamEvent,
+  StreamChunk,
+  ToolCall,
+} from "./types.js";
+import { contentText } from "./message-utils.js";
+
+type ContentPart = Exclude<ChatMessage["content"], string | null>[number];
+
+// ============= Request Translation =============
+
+/**
+ * Convert a Responses request into a chat completion request.
+ * `previous_response_id` is not supported; clients must resend the input.
+ */
+export function responsesToChatRequest(request: ResponsesRequest): ChatCompletionRequest {
+  if (request.input === undefined || request.input === null) {
+    throw new Error("input is required");
+  }
+
+  const messages: ChatMessage[] = [];
+
+  if (request.instructions) {
+    messages.push({ role: "system", content: request.instructions });
+  }
+
+  const items = typeof request.input === "string"
+    ? [{ role: "user" as const, content: request.input }]
+    : request.input;
+
+  for (const item of items) {
+    if (item.type === "function_call") {
+      const call: ToolCall = {
+        id: item.call_id,
+        type: "function",
+        function: { name: item.name, arguments: item.arguments },
+      };
+      // Consecutive calls belong to the same assistant turn
+      const previous = messages[messages.length - 1];
+      if (previous?.role === "assistant" && previous.tool_calls) {
+        previous.tool_calls.push(call);
+      } else {
+        messages.push({ role: "assistant", content: "", tool_calls: [call] });
+      }
+    } else if (item.type === "function_call_output") {
+      messages.push({ role: "tool", tool_call_id: item.call_id, content: item.output });
+    } else {
+      messages.push({
+        role: item.role === "developer" ? "system" : item.role,
+        content: typeof item.content === "string" ? item.content : toContentParts(item.content),
+      });
+    }
+  }
+
+  const chatRequest: ChatCompletionRequest = {
+    model: request.model,
+    messages,
+    stream: request.stream,
+  };
+
+  if (request.max_output_tokens !== undefined) chatRequest.max_tokens = request.max_output_tokens;
+  if (request.temperature !== undefined) chatRequest.temperature = request.temperature;
+  if (request.top_p !== undefined) chatRequest.top_p = request.top_p;
+  if (request.user) chatRequest.user = request.user;
+  if (request.reasoning?.effort) chatRequest.reasoning_effort = request.reasoning.effort;
+  if (request.text?.format && request.text.format.type !== "text") {
+    chatRequest.response_format = { type: request.text.format.type };
+  }
+
+  const tools = request.tools?.filter((tool) => tool.type === "function") ?? [];
+  if (tools.length > 0) {
+    chatRequest.tools = tools.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description ?? "",
+        parameters: tool.parameters ?? { type: "object", properties: {} },
+      },
+    }));
+  }
+
+  if (request.tool_choice) {
+    chatRequest.tool_choice = typeof request.tool_choice === "string"
+      ? request.tool_choice
+      : { type: "function", function: { name: request.tool_choice.name } };
+  }
+
+  return chatRequest;
+}
+
+function toContentParts(content: ResponsesInputContent[]): ChatMessage["content"] {
+  const parts: ContentPart[] = content.map((part) =>
+    part.type === "input_image"
+      ? { type: "image_url", image_url: { url: part.image_url ?? "" } }
+      : { type: "text", text: part.text }
+  );
+  return parts.every((part) => part.type === "text")
+    ? parts.map((part) => part.text).join("\n")
+    : parts;
+}
+
+// ============= Response Translation =============
+
+function toResponseId(id: string): string {
+  return id.startsWith("resp_") ? id : `resp_${id}`;
+}
+
+function messageItem(id: string, text: string, status: "in_progress" | "completed"): ResponsesOutputItem {
+  return {
+    type: "message",
+    id: `msg_${id}`,
+    status,
+    role: "assistant",
+    content: status === "completed" ? [{ type: "output_text", text, annotations: [] }] : [],
+  };
+}
+
+function functionCallItem(call: ToolCall, status: "in_progress" | "completed"): ResponsesOutputItem {
+  return {
+    type: "function_call",
+    id: `fc_${call.id}`,
+    call_id: call.id,
+    name: call.function.name,
+    arguments: status === "completed" ? call.function.arguments : "",
+    status,
+  };
+}
+
+function buildResponse(
+  id: string,
+  model: string,
+  output: ResponsesOutputItem[],
+  finishReason: string | null,
+  usage: ChatCompletionResponse["usage"]
+): ResponsesResponse {
+  const incomplete = finishReason === "length" || finishReason === "content_filter";
+  return {
+    id: toResponseId(id),
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    status: incomplete ? "incomplete" : "completed",
+    model,
+    output,
+    incomplete_details: incomplete
+      ? { reason: finishReason === "length" ? "max_output_tokens" : "content_filter" }
+      : null,
+    usage: usage
+      ? {
+          input_tokens: usage.prompt_tokens,
+          output_tokens: usage.completion_tokens,
+          total_tokens: usage.total_tokens,
+        }
+      : null,
+  };
+}
+
+/**
+ * Convert a chat completion response into a Responses object
+ */
+export function chatResponseToResponses(response: ChatCompletionResponse, model: string): ResponsesResponse {
+  const choice = response.choices?.[0];
+  const output: ResponsesOutputItem[] = [];
+
+  const text = choice?.message?.content ? contentText(choice.message.content) : "";
+  if (text) {
+    output.push(messageItem(response.id, text, "completed"));
+  }
+  for (const call of choice?.message?.tool_calls ?? []) {
+    output.push(functionCallItem(call, "completed"));
+  }
+
+  return buildResponse(response.id, model, output, choice?.finish_reason ?? null, response.usage);
+}
+
+// ============= Stream Translation =============
+
+/**
+ * Turns a sequence of chat completion chunks into Responses stream events.
+ * Feed every chunk to push(), then call finish() once the stream ends.
+ */
+export class ResponsesStreamTranslator {
+  private model: string;
+  private id: string;
+  private sequence = 0;
+  private started = false;
+  private text = "";
+  private textIndex = -1;
+  private calls: Array<{ call: ToolCall; outputIndex: number }> = [];
+  private outputCount = 0;
+  private finishReason: string | null = null;
+  private usage: ChatCompletionResponse["usage"];
+
+  constructor(model: string, id: string) {
+    this.model = model;
+    this.id = id;
+  }
+
+  /**
+   * Translate one chunk into zero or more events
+   */
+  push(chunk: StreamChunk): ResponsesStreamEvent[] {
+    const events = this.ensureStarted();
+    if (chunk.usage) this.usage = chunk.usage;
+
+    const choice = chunk.choices?.[0];
+    if (!choice) return events;
+
+    const delta = choice.delta ?? {};
+    if (typeof delta.content === "string" && delta.content.length > 0) {
+      if (this.textIndex < 0) {
+        this.textIndex = this.outputCount++;
+        events.push(this.event("response.output_item.added", {
+          output_index: this.textIndex,
+          item: messageItem(this.id, "", "in_progress"),
+        }));
+        events.push(this.event("response.content_part.added", {
+          item_id: `msg_${this.id}`,
+          output_index: this.textIndex,
+          content_index: 0,
+          part: { type: "output_text", text: "", annotations: [] },
+        }));
+      }
+      this.text += delta.content;
+      events.push(this.event("response.output_text.delta", {
+        item_id: `msg_${this.id}`,
+        output_index: this.textIndex,
+        content_index: 0,
+        delta: delta.content,
+      }));
+    }
+
+    for (const callDelta of delta.tool_calls ?? []) {
+      let entry = this.calls[callDelta.index];
+      if (!entry) {
+        entry = {
+          call: {
+            id: callDelta.id ?? `call_${this.id}_${callDelta.index}`,
+            type: "function",
+            function: { name: callDelta.function?.name ?? "", arguments: "" },
+          },
+          outputIndex: this.outputCount++,
+        };
+        this.calls[callDelta.index] = entry;
+        events.push(this.event("response.output_item.added", {
+          output_index: entry.outputIndex,
+          item: functionCallItem(entry.call, "in_progress"),
+        }));
+      }
+      if (callDelta.function?.arguments) {
+        entry.call.function.arguments += callDelta.function.arguments;
+        events.push(this.event("response.function_call_arguments.delta", {
+          item_id: `fc_${entry.call.id}`,
+          output_index: entry.outputIndex,
+          delta: callDelta.function.arguments,
+        }));
+      }
+    }
+
+    if (choice.finish_reason && this.finishReason === null) {
+      this.finishReason = choice.finish_reason;
+    }
+
+    return events;
+  }
+
+  /**
+   * Close open output items and emit the terminal response event
+   */
+  finish(): ResponsesStreamEvent[] {
+    const events = this.ensureStarted();
+    const output: Array<{ index: number; item: ResponsesOutputItem }> = [];
+
+    if (this.textIndex >= 0) {
+      const item = messageItem(this.id, this.text, "completed");
+      events.push(this.event("response.output_text.done", {
+        item_id: `msg_${this.id}`,
+        output_index: this.textIndex,
+        content_index: 0,
+        text: this.text,
+      }));
+      events.push(this.event("response.content_part.done", {
+        item_id: `msg_${this.id}`,
+        output_index: this.textIndex,
+        content_index: 0,
+        part: { type: "output_text", text: this.text, annotations: [] },
+      }));
+      events.push(this.event("response.output_item.done", { output_index: this.textIndex, item }));
+      output.push({ index: this.textIndex, item });
+    }
+
+    for (const entry of this.calls.filter(Boolean)) {
+      const item = functionCallItem(entry.call, "completed");
+      events.push(this.event("response.function_call_arguments.done", {
+        item_id: `fc_${entry.call.id}`,
+        output_index: entry.outputIndex,
+        arguments: entry.call.function.arguments,
+      }));
+      events.push(this.event("response.output_item.done", { output_index: entry.outputIndex, item }));
+      output.push({ index: entry.outputIndex, item });
+    }
+
+    const response = buildResponse(
+      this.id,
+      this.model,
+      output.sort((a, b) => a.index - b.index).map((entry) => entry.item),
+      this.finishReason,
+      this.usage
+    );
+    events.push(this.event(
+      response.status === "incomplete" ? "response.incomplete" : "response.completed",
+      { response }
+    ));
+    return events;
+  }
+
+  private ensureStarted(): ResponsesStreamEvent[] {
+    if (this.started) return [];
+    this.started = true;
+    const response = { ...buildResponse(this.id, this.model, [], null, undefined), status: "in_progress" };
+    return [
+      this.event("response.created", { response }),
+      this.event("response.in_progress", { response }),
+    ];
+  }
+
+  private event(type: string, payload: Record<string, unknown>): ResponsesStreamEvent {
+    return { type, sequence_number: this.sequence++, ...payload };
+  }
+}
+
+/**
+ * Format an event as an SSE frame
+ */
+export function formatResponsesEvent(event: ResponsesStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
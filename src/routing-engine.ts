@@ -2,7 +2,12 @@
  * Routing Decision Engine
  *
  * Makes routing decisions based on complexity evaluation.
- * Implements conservative MID-biased routing.
+ * Implements conservative MID-biased routing through an ordered rule list
+ * (see routing-rules.ts) and per-tier score bands (see tiers.ts), restricted by client key
+ * policies, escalated when a tier lacks a capability the request needs or
+ * the prompt overflows its context window,
+ * capped by spend budgets and diverting away from tiers whose providers
+ * all have an open circuit breaker.
  */
 
 import type {
@@ -10,117 +15,184 @@ import type {
   RouteTier,
   RoutingDecision,
   RoutingThresholds,
-  TaskType,
+  RoutingRule,
   ProvidersConfig,
   ProviderConfig,
+  TierHealth,
+  ClientPolicy,
+  RequestContext,
+  PromptSize,
+  TiersConfig,
+  Capability,
 } from "./types.js";
+import { toProviderChain } from "./upstream.js";
+import type { ProviderHealth } from "./circuit-breaker.js";
+import type { BudgetTracker } from "./budget.js";
+import { ContextLengthExceededError, PermissionDeniedError, UnsupportedCapabilityError } from "./errors.js";
+import { tierCapabilities } from "./capabilities.js";
+import { applyRules, defaultRoutingRules, validateRules } from "./routing-rules.js";
+import { bandForScore, DEFAULT_THRESHOLDS, scoreBands, tierOrder, type ScoreBand } from "./tiers.js";
 
-// Default thresholds
-const DEFAULT_THRESHOLDS: RoutingThresholds = {
-  proThreshold: 75,
-  midThreshold: 35,
+// Context limits used when a tier does not configure its own
+export const DEFAULT_TIER_LIMITS: Record<RouteTier, { contextWindow: number; maxTokens: number }> = {
+  pro: { contextWindow: 200000, maxTokens: 64000 },
+  mid: { contextWindow: 128000, maxTokens: 32000 },
+  low: { contextWindow: 128000, maxTokens: 16000 },
 };
 
-// Task types that should prefer MID
-const MID_PREFERRED_TASKS: TaskType[] = [
-  "visualization",
-  "writing",
-  "summarization",
-];
-
-// Task types that should use PRO for high scores
-const PRO_PREFERRED_TASKS: TaskType[] = [
-  "architecture_design",
-  "mathematical_reasoning",
-  "multi_step_planning",
-];
+/**
+ * Context window and output limit of a tier, falling back to the defaults
+ */
+export function tierLimits(tiers: TiersConfig, tier: RouteTier): { contextWindow: number; maxTokens: number } {
+  const defaults = DEFAULT_TIER_LIMITS[tier] ?? DEFAULT_TIER_LIMITS.mid;
+  return {
+    contextWindow: tiers[tier]?.contextWindow ?? defaults.contextWindow,
+    maxTokens: tiers[tier]?.maxTokens ?? defaults.maxTokens,
+  };
+}
 
 export class RoutingEngine {
   private thresholds: RoutingThresholds;
+  private order: RouteTier[]; // cheapest first
+  private bands: ScoreBand[];
+  private rules: RoutingRule[];
   private providers: ProvidersConfig;
   private logger: { info: (msg: string) => void };
+  private health?: ProviderHealth;
+  private budget?: BudgetTracker;
+  private tiers: TiersConfig;
 
   constructor(
     providers: ProvidersConfig,
-    thresholds: Partial<RoutingThresholds> = {},
-    logger: { info: (msg: string) => void }
+    routing: Partial<RoutingThresholds> & { tiers?: RouteTier[]; rules?: RoutingRule[] } = {},
+    logger: { info: (msg: string) => void },
+    health?: ProviderHealth,
+    budget?: BudgetTracker,
+    tiers: TiersConfig = {}
   ) {
     this.providers = providers;
+    const { rules: configured, tiers: order, ...thresholds } = routing;
+    this.order = tierOrder({ tiers: order });
+    const rules = configured ?? defaultRoutingRules(this.order);
+    validateRules(rules, this.order);
     this.thresholds = { ...DEFAULT_THRESHOLDS, ...thresholds };
+    this.bands = scoreBands(this.order, tiers, this.thresholds);
+    this.rules = rules;
     this.logger = logger;
+    this.health = health;
+    this.budget = budget;
+    this.tiers = tiers;
   }
 
   /**
-   * Make routing decision based on complexity evaluation
+   * Make routing decision based on complexity evaluation.
+   * Throws PermissionDeniedError, UnsupportedCapabilityError,
+   * ContextLengthExceededError or BudgetExceededError when the caller's
+   * policy, the request's needs, the prompt size or the budgets leave no
+   * tier to route to.
    */
-  decide(evaluation: ComplexityEvaluation, cached: boolean): RoutingDecision {
-    const { complexity_score, task_type, confidence, estimated_token_size } = evaluation;
+  decide(
+    evaluation: ComplexityEvaluation,
+    cached: boolean,
+    context?: RequestContext,
+    size?: PromptSize,
+    capabilities: Capability[] = []
+  ): RoutingDecision {
+    const outcome = applyRules(this.rules, {
+      evaluation,
+      userId: context?.userId,
+      model: context?.model,
+      capabilities,
+    }, this.order);
+    const details = `score: ${evaluation.complexity_score}, task: ${evaluation.task_type}, ` +
+      `confidence: ${evaluation.confidence.toFixed(2)}`;
 
-    // Start with base decision from score
     let tier: RouteTier;
     let reasoning: string;
+    let rule: string;
 
-    // Rule 1: Very large tokens always go to PRO
-    if (estimated_token_size === "very_large") {
-      tier = "pro";
-      reasoning = "Very large token size forces PRO";
-      this.logger.info(`[Helix] ${reasoning}`);
-      return this.buildDecision(tier, evaluation, reasoning, cached);
-    }
-
-    // Rule 2: Low confidence defaults to MID (safe choice)
-    if (confidence < 0.6) {
-      tier = "mid";
-      reasoning = `Low confidence (${confidence.toFixed(2)}) defaults to MID`;
+    if (outcome.tier) {
+      tier = outcome.tier;
+      rule = outcome.rule!;
+      reasoning = `Rule ${rule} (${details}) -> ${tier.toUpperCase()}`;
       this.logger.info(`[Helix] ${reasoning}`);
-      return this.buildDecision(tier, evaluation, reasoning, cached);
-    }
-
-    // Rule 3: Check for extreme score with low confidence
-    if (complexity_score > 90 && confidence < 0.7) {
-      tier = "mid";
-      reasoning = `High score (${complexity_score}) but low confidence (${confidence.toFixed(2)}) -> MID`;
-      this.logger.info(`[Helix] ${reasoning}`);
-      return this.buildDecision(tier, evaluation, reasoning, cached);
+    } else {
+      // Default score-based routing
+      const score = outcome.score;
+      const band = bandForScore(this.bands, score);
+      const next = this.bands[this.bands.indexOf(band) + 1];
+      rule = "thresholds";
+      tier = band.tier;
+      reasoning = band === this.bands[0]
+        ? `Score ${score}${next ? ` < ${next.minScore}` : ""} -> ${tier.toUpperCase()}`
+        : `Score ${score} >= ${band.minScore} -> ${tier.toUpperCase()}`;
     }
+    reasoning = [...outcome.notes, reasoning].join("; ");
 
-    // Rule 4: MID-preferred task types
-    if (MID_PREFERRED_TASKS.includes(task_type) && complexity_score < 70) {
-      tier = "mid";
-      reasoning = `${task_type} task prefers MID (score: ${complexity_score})`;
-      this.logger.info(`[Helix] ${reasoning}`);
-      return this.buildDecision(tier, evaluation, reasoning, cached);
+    // A tier bound that changes the outcome is the rule that decided it
+    const bounded = this.clampTier(tier, outcome.minTier, outcome.maxTier);
+    if (bounded !== tier) {
+      rule = this.order.indexOf(bounded) > this.order.indexOf(tier) ? outcome.minTierRule! : outcome.maxTierRule!;
+      reasoning = `${reasoning}; rule ${rule} bounds -> ${bounded.toUpperCase()}`;
+      tier = bounded;
     }
 
-    // Rule 5: Coding tasks < 70 stay in MID
-    if (task_type === "coding" && complexity_score < 70) {
-      tier = "mid";
-      reasoning = `Coding task with score ${complexity_score} stays in MID`;
-      this.logger.info(`[Helix] ${reasoning}`);
-      return this.buildDecision(tier, evaluation, reasoning, cached);
-    }
+    return this.buildDecision(tier, rule, evaluation, reasoning, cached, context, size, capabilities);
+  }
 
-    // Rule 6: PRO-preferred task types with high scores
-    if (PRO_PREFERRED_TASKS.includes(task_type) && complexity_score >= 65) {
-      tier = "pro";
-      reasoning = `${task_type} with score ${complexity_score} -> PRO`;
-      this.logger.info(`[Helix] ${reasoning}`);
-      return this.buildDecision(tier, evaluation, reasoning, cached);
-    }
+  /**
+   * Keep a tier within the bounds set by routing rules
+   */
+  private clampTier(tier: RouteTier, minTier?: RouteTier, maxTier?: RouteTier): RouteTier {
+    let index = this.order.indexOf(tier);
+    if (minTier) index = Math.max(index, this.order.indexOf(minTier));
+    if (maxTier) index = Math.min(index, this.order.indexOf(maxTier));
+    return this.order[index];
+  }
 
-    // Default score-based routing
-    if (complexity_score >= this.thresholds.proThreshold) {
-      tier = "pro";
-      reasoning = `Score ${complexity_score} >= ${this.thresholds.proThreshold} -> PRO`;
-    } else if (complexity_score >= this.thresholds.midThreshold) {
-      tier = "mid";
-      reasoning = `Score ${complexity_score} >= ${this.thresholds.midThreshold} -> MID`;
-    } else {
-      tier = "low";
-      reasoning = `Score ${complexity_score} < ${this.thresholds.midThreshold} -> LOW`;
-    }
+  /**
+   * Raise a decision to at least `floor`, naming `rule` as the reason. The
+   * raised tier goes through the same policy, capability, context size,
+   * budget and health checks as a decided one.
+   */
+  raise(
+    decision: RoutingDecision,
+    floor: RouteTier,
+    rule: string,
+    note: string,
+    context?: RequestContext,
+    size?: PromptSize,
+    capabilities: Capability[] = []
+  ): RoutingDecision {
+    if (this.order.indexOf(floor) <= this.order.indexOf(decision.tier)) return decision;
+    return this.reroute(
+      { ...decision, tier: floor, rule, reasoning: `${decision.reasoning}; ${note} -> ${floor.toUpperCase()}` },
+      context,
+      size,
+      capabilities
+    );
+  }
 
-    return this.buildDecision(tier, evaluation, reasoning, cached);
+  /**
+   * Route an already made decision to its tier again, with the same policy,
+   * capability, context size, budget and health checks as a fresh one
+   */
+  reroute(
+    decision: RoutingDecision,
+    context?: RequestContext,
+    size?: PromptSize,
+    capabilities: Capability[] = []
+  ): RoutingDecision {
+    return this.buildDecision(
+      decision.tier,
+      decision.rule,
+      { complexity_score: decision.score, task_type: decision.taskType, confidence: decision.confidence },
+      decision.reasoning,
+      decision.cached,
+      context,
+      size,
+      capabilities
+    );
   }
 
   /**
@@ -128,45 +200,268 @@ export class RoutingEngine {
    */
   private buildDecision(
     tier: RouteTier,
-    evaluation: ComplexityEvaluation,
+    rule: string,
+    evaluation: Pick<ComplexityEvaluation, "complexity_score" | "task_type" | "confidence">,
     reasoning: string,
-    cached: boolean
+    cached: boolean,
+    context?: RequestContext,
+    size?: PromptSize,
+    capabilities: Capability[] = []
   ): RoutingDecision {
+    let allowed = this.permittedTiers(context?.policy);
+    if (!allowed.includes(tier)) {
+      const permitted = this.nearestPermittedTier(tier, allowed);
+      reasoning = `${reasoning}; key policy -> ${permitted.toUpperCase()}`;
+      tier = permitted;
+    }
+
+    if (capabilities.length > 0) {
+      const capable = allowed.filter((candidate) => this.supports(candidate, capabilities));
+      if (capable.length === 0) {
+        throw new UnsupportedCapabilityError(`No permitted tier supports ${capabilities.join(", ")}`);
+      }
+      if (!capable.includes(tier)) {
+        const missing = capabilities.filter((capability) => !tierCapabilities(this.tiers, tier).includes(capability));
+        const upgraded = this.nearestTierWithin(tier, capable);
+        reasoning = `${reasoning}; ${tier.toUpperCase()} lacks ${missing.join(", ")} -> ${upgraded.toUpperCase()}`;
+        this.logger.info(`[Helix] ${tier.toUpperCase()} lacks ${missing.join(", ")}, escalating to ${upgraded.toUpperCase()}`);
+        tier = upgraded;
+      }
+      allowed = capable;
+    }
+
+    if (size) {
+      const fitting = allowed.filter((candidate) => this.fits(candidate, size));
+      if (fitting.length === 0) {
+        const largest = allowed[allowed.length - 1];
+        const limits = tierLimits(this.tiers, largest);
+        throw new ContextLengthExceededError(
+          `Prompt of ${size.promptTokens} tokens with max_tokens ${size.maxTokens} does not fit any ` +
+          `permitted tier (largest: ${largest.toUpperCase()}, context window ${limits.contextWindow}, ` +
+          `max_tokens ${limits.maxTokens})`
+        );
+      }
+      if (!fitting.includes(tier)) {
+        const larger = this.nearestTierWithin(tier, fitting);
+        reasoning = `${reasoning}; ${this.describeOverflow(tier, size)} -> ${larger.toUpperCase()}`;
+        this.logger.info(`[Helix] Prompt overflows ${tier.toUpperCase()}, escalating to ${larger.toUpperCase()}`);
+        tier = larger;
+      }
+      allowed = fitting;
+    }
+
+    if (this.budget) {
+      const ceiling = this.budget.ceiling(tier, context?.userId, allowed);
+      if (ceiling.tier !== tier) {
+        reasoning = [reasoning, ...ceiling.reasons].join("; ");
+        this.logger.info(`[Helix] Budget caps ${tier.toUpperCase()} at ${ceiling.tier.toUpperCase()}`);
+        tier = ceiling.tier;
+      }
+      allowed = allowed.filter((candidate) => this.order.indexOf(candidate) <= this.order.indexOf(ceiling.tier));
+    }
+
+    const healthyTier = this.nearestHealthyTier(tier, allowed);
+    if (healthyTier !== tier) {
+      reasoning = `${reasoning}; ${tier.toUpperCase()} circuit open -> ${healthyTier.toUpperCase()}`;
+      this.logger.info(`[Helix] ${tier.toUpperCase()} unavailable, diverting to ${healthyTier.toUpperCase()}`);
+      tier = healthyTier;
+    }
+
     return {
       tier,
       score: evaluation.complexity_score,
       taskType: evaluation.task_type,
       confidence: evaluation.confidence,
       reasoning,
+      rule,
       cached,
     };
   }
 
   /**
-   * Get provider config for a tier
+   * The next tier up from `tier` that could serve the same request, for a
+   * retry after a poor answer: permitted by the caller's policy, capable,
+   * large enough, within budget and healthy. Undefined when there is none.
+   */
+  nextTierUp(
+    tier: RouteTier,
+    context?: RequestContext,
+    size?: PromptSize,
+    capabilities: Capability[] = []
+  ): RouteTier | undefined {
+    const permitted = this.permittedTiers(context?.policy);
+    return this.order.slice(this.order.indexOf(tier) + 1).find((candidate) =>
+      permitted.includes(candidate) && this.canServe(candidate, size, capabilities, context?.userId)
+    );
+  }
+
+  /**
+   * Whether `tier` could serve a request: capable, large enough, within
+   * budget and healthy
+   */
+  canServe(tier: RouteTier, size?: PromptSize, capabilities: Capability[] = [], userId?: string): boolean {
+    return this.supports(tier, capabilities) &&
+      (!size || this.fits(tier, size)) &&
+      this.withinBudget(tier, userId) &&
+      this.isTierAvailable(tier);
+  }
+
+  /**
+   * Whether the budgets leave headroom for a request on `tier`
+   */
+  private withinBudget(tier: RouteTier, userId?: string): boolean {
+    if (!this.budget) return true;
+    try {
+      return this.budget.ceiling(tier, userId, [tier]).tier === tier;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Whether a prompt and its requested output fit a tier's context limits
+   */
+  fits(tier: RouteTier, size: PromptSize): boolean {
+    const limits = tierLimits(this.tiers, tier);
+    return size.maxTokens <= limits.maxTokens && size.promptTokens + size.maxTokens <= limits.contextWindow;
+  }
+
+  /**
+   * Whether a tier offers every capability in `capabilities`
+   */
+  supports(tier: RouteTier, capabilities: Capability[]): boolean {
+    const offered = tierCapabilities(this.tiers, tier);
+    return capabilities.every((capability) => offered.includes(capability));
+  }
+
+  /**
+   * The cheapest of `candidates` above `tier`, or the most capable one below it
+   */
+  private nearestTierWithin(tier: RouteTier, candidates: RouteTier[]): RouteTier {
+    const index = this.order.indexOf(tier);
+    return candidates.find((candidate) => this.order.indexOf(candidate) > index) ?? candidates[candidates.length - 1];
+  }
+
+  /**
+   * Why a prompt does not fit a tier, for the decision trace
+   */
+  private describeOverflow(tier: RouteTier, size: PromptSize): string {
+    const limits = tierLimits(this.tiers, tier);
+    if (size.maxTokens > limits.maxTokens) {
+      return `max_tokens ${size.maxTokens} exceeds ${tier.toUpperCase()} limit ${limits.maxTokens}`;
+    }
+    return `${size.promptTokens} + ${size.maxTokens} tokens exceed ${tier.toUpperCase()} context window ${limits.contextWindow}`;
+  }
+
+  /**
+   * Tiers a client key policy permits, cheapest first
+   */
+  permittedTiers(policy: ClientPolicy | undefined): RouteTier[] {
+    const maxIndex = policy?.maxTier ? this.order.indexOf(policy.maxTier) : this.order.length - 1;
+    const tiers = this.order.filter((tier) =>
+      this.order.indexOf(tier) <= maxIndex &&
+      (!policy?.allowedTiers || policy.allowedTiers.includes(tier))
+    );
+    if (tiers.length === 0) {
+      throw new PermissionDeniedError("API key policy does not allow any tier");
+    }
+    return tiers;
+  }
+
+  /**
+   * The most capable permitted tier below `tier`, or the cheapest one above
+   * it when nothing below is permitted
+   */
+  private nearestPermittedTier(tier: RouteTier, allowed: RouteTier[]): RouteTier {
+    const index = this.order.indexOf(tier);
+    const below = allowed.filter((candidate) => this.order.indexOf(candidate) < index);
+    return below.length > 0 ? below[below.length - 1] : allowed[0];
+  }
+
+  /**
+   * Find the closest tier with at least one available provider, preferring
+   * the more capable tier when two are equally close and only considering
+   * `allowed` tiers. Returns the requested tier unchanged when it is healthy
+   * or nothing is.
+   */
+  private nearestHealthyTier(tier: RouteTier, allowed: RouteTier[] = this.order): RouteTier {
+    if (!this.health || this.isTierAvailable(tier)) return tier;
+
+    const index = this.order.indexOf(tier);
+    for (let distance = 1; distance < this.order.length; distance++) {
+      for (const candidate of [this.order[index + distance], this.order[index - distance]]) {
+        if (candidate && allowed.includes(candidate) && this.isTierAvailable(candidate)) return candidate;
+      }
+    }
+    return tier;
+  }
+
+  /**
+   * Whether any provider in a tier's chain can take traffic
+   */
+  isTierAvailable(tier: RouteTier): boolean {
+    return this.health?.isChainAvailable(this.getProviders(tier)) ?? true;
+  }
+
+  /**
+   * Circuit breaker state for every tier
+   */
+  getHealth(): Record<RouteTier, TierHealth> {
+    const result = {} as Record<RouteTier, TierHealth>;
+    for (const tier of this.order) {
+      const chain = this.getProviders(tier);
+      result[tier] = {
+        available: this.isTierAvailable(tier),
+        providers: this.health?.describeChain(chain) ?? [],
+      };
+    }
+    return result;
+  }
+
+  /**
+   * Get the primary provider config for a tier
    */
   getProvider(tier: RouteTier): ProviderConfig {
-    return this.providers[tier];
+    return this.getProviders(tier)[0];
+  }
+
+  /**
+   * Get the ordered failover chain for a tier
+   */
+  getProviders(tier: RouteTier): ProviderConfig[] {
+    return toProviderChain(this.providers[tier]);
   }
 
   /**
    * Get model ID for a tier
    */
   getModelId(tier: RouteTier): string {
-    return this.providers[tier].model;
+    return this.getProvider(tier).model;
   }
 
   /**
    * Get statistics about recent routing decisions (for metrics)
    */
-  getStats(): { thresholds: RoutingThresholds; providers: string[] } {
+  getStats(): { thresholds: RoutingThresholds; bands: ScoreBand[]; rules: string[]; providers: string[] } {
     return {
       thresholds: this.thresholds,
-      providers: [
-        `PRO: ${this.providers.pro.model}`,
-        `MID: ${this.providers.mid.model}`,
-        `LOW: ${this.providers.low.model}`,
-      ],
+      bands: this.bands,
+      rules: this.rules.map((rule) => rule.name),
+      providers: [...this.order].reverse().map((tier) => `${tier.toUpperCase()}: ${this.describeChain(tier)}`),
     };
   }
+
+  /**
+   * The configured tiers, cheapest first
+   */
+  getTiers(): RouteTier[] {
+    return this.order;
+  }
+
+  /**
+   * Describe a tier's failover chain as "model -> model"
+   */
+  private describeChain(tier: RouteTier): string {
+    return this.getProviders(tier).map((p) => p.model).join(" -> ");
+  }
 }
@@ -0,0 +1,85 @@
+/**
+ * Routing Metadata
+ *
+ * Carries the routing decision back to clients as X-Helix-* response
+ * headers, and reads it back where the server needs it.
+ */
+
+import type { RouteTier, RoutingDecision, RoutingMetadata, TaskType } from "./types.js";
+
+export const ROUTING_HEADERS = {
+  tier: "X-Helix-Tier",
+  score: "X-Helix-Score",
+  taskType: "X-Helix-Task-Type",
+  confidence: "X-Helix-Confidence",
+  requestId: "X-Helix-Request-Id",
+  cached: "X-Helix-Cached",
+  rule: "X-Helix-Rule",
+} as const;
+
+/**
+ * Build client-facing metadata from a routing decision
+ */
+export function createRoutingMetadata(requestId: string, decision: RoutingDecision): RoutingMetadata {
+  return {
+    requestId,
+    tier: decision.tier,
+    score: decision.score,
+    taskType: decision.taskType,
+    confidence: decision.confidence,
+    rule: decision.rule,
+    cached: decision.cached,
+  };
+}
+
+/**
+ * Metadata as a header map
+ */
+export function routingHeaders(metadata: RoutingMetadata): Record<string, string> {
+  const headers: Record<string, string> = {
+    [ROUTING_HEADERS.tier]: metadata.tier,
+    [ROUTING_HEADERS.score]: String(metadata.score),
+    [ROUTING_HEADERS.taskType]: metadata.taskType,
+    [ROUTING_HEADERS.confidence]: metadata.confidence.toFixed(2),
+    [ROUTING_HEADERS.requestId]: metadata.requestId,
+    [ROUTING_HEADERS.cached]: String(metadata.cached),
+  };
+  if (metadata.rule) {
+    headers[ROUTING_HEADERS.rule] = metadata.rule;
+  }
+  return headers;
+}
+
+/**
+ * Copy a response, adding the routing headers
+ */
+export function withRoutingHeaders(response: Response, metadata: RoutingMetadata): Response {
+  const headers = new Headers(response.headers);
+  for (const [name, value] of Object.entries(routingHeaders(metadata))) {
+    headers.set(name, value);
+  }
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/**
+ * Read metadata back from response headers, or null if none was attached
+ */
+export function readRoutingMetadata(headers: Headers): RoutingMetadata | null {
+  const tier = headers.get(ROUTING_HEADERS.tier);
+  const requestId = headers.get(ROUTING_HEADERS.requestId);
+  if (!tier || !requestId) return null;
+
+  return {
+    requestId,
+    tier: tier as RouteTier,
+    score: Number(headers.get(ROUTING_HEADERS.score) ?? 0),
+    taskType: (headers.get(ROUTING_HEADERS.taskType) ?? "other") as TaskType,
+    confidence: Number(headers.get(ROUTING_HEADERS.confidence) ?? 0),
+    rule: headers.get(ROUTING_HEADERS.rule) ?? undefined,
+    cached: headers.get(ROUTING_HEADERS.cached) === "true",
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Routing Rules
+ *
+ * An ordered list of declarative rules checked against the evaluation and
+ * the request. The first matching rule with a `tier` decides; `minTier`,
+ * `maxTier` and `adjustScore` from earlier matches carry forward. When no
+ * rule picks a tier the score thresholds do.
+ */
+
+import type {
+  Capability,
+  ComplexityEvaluation,
+  RangeCondition,
+  RouteTier,
+  RoutingRule,
+  RuleCondition,
+} from "./types.js";
+import { DEFAULT_TIER_ORDER } from "./tiers.js";
+
+/**
+ * The routing behaviour before rules were configurable, for a tier ladder
+ * (cheapest first). Rules aimed at PRO and MID go to those tiers when the
+ * ladder has them, otherwise to the top tier and the one below it.
+ */
+export function defaultRoutingRules(order: RouteTier[] = DEFAULT_TIER_ORDER): RoutingRule[] {
+  const top = order.includes("pro") ? "pro" : order[order.length - 1];
+  const below = order.includes("mid") ? "mid" : order[Math.max(0, order.length - 2)];
+  return [
+    {
+      name: "very-large-prompt",
+      when: { tokenSize: ["very_large"] },
+      then: { tier: top },
+    },
+    {
+      name: "low-confidence",
+      when: { confidence: { lt: 0.6 } },
+      then: { tier: below },
+    },
+    {
+      name: "high-score-low-confidence",
+      when: { score: { gt: 90 }, confidence: { lt: 0.7 } },
+      then: { tier: below },
+    },
+    {
+      name: "mid-preferred-task",
+      when: { taskType: ["visualization", "writing", "summarization"], score: { lt: 70 } },
+      then: { tier: below },
+    },
+    {
+      name: "coding-stays-mid",
+      when: { taskType: ["coding"], score: { lt: 70 } },
+      then: { tier: below },
+    },
+    {
+      name: "pro-preferred-task",
+      when: { taskType: ["architecture_design", "mathematical_reasoning", "multi_step_planning"], score: { gte: 65 } },
+      then: { tier: top },
+    },
+  ];
+}
+
+// The default rules for the default pro/mid/low ladder
+export const DEFAULT_ROUTING_RULES: RoutingRule[] = defaultRoutingRules();
+
+// What rules are matched against
+export interface RuleInput {
+  evaluation: ComplexityEvaluation;
+  userId?: string;
+  model?: string;
+  capabilities: Capability[];
+}
+
+export interface RuleOutcome {
+  tier?: RouteTier; // unset when no rule picked a tier
+  rule?: string;
+  score: number; // evaluation score after adjustments
+  minTier?: RouteTier;
+  minTierRule?: string;
+  maxTier?: RouteTier;
+  maxTierRule?: string;
+  notes: string[]; // non-deciding rules that matched, for the decision trace
+}
+
+/**
+ * Mistakes in a rule list that would otherwise only show up as surprising
+ * routes, each with the index of the offending rule. `order` lists the
+ * configured tiers, cheapest first.
+ */
+export function findRuleErrors(
+  rules: RoutingRule[],
+  order: RouteTier[] = DEFAULT_TIER_ORDER
+): Array<{ index: number; message: string }> {
+  const errors: Array<{ index: number; message: string }> = [];
+  const names = new Set<string>();
+  rules.forEach((rule, index) => {
+    const error = (message: string) => errors.push({ index, message });
+    if (!rule || typeof rule.name !== "string" || !rule.name) {
+      error("needs a name");
+      return;
+    }
+    if (names.has(rule.name)) {
+      error(`duplicate rule name "${rule.name}"`);
+    }
+    names.add(rule.name);
+
+    const { tier, minTier, maxTier, adjustScore } = rule.then ?? {};
+    if (tier === undefined && minTier === undefined && maxTier === undefined && adjustScore === undefined) {
+      error(`"${rule.name}" needs a tier, minTier, maxTier or adjustScore action`);
+    }
+    for (const [field, value] of Object.entries({ tier, minTier, maxTier })) {
+      if (value !== undefined && !order.includes(value)) {
+        error(`"${rule.name}": unknown ${field} "${value}"`);
+      }
+    }
+    if (adjustScore !== undefined && typeof adjustScore !== "number") {
+      error(`"${rule.name}": adjustScore must be a number`);
+    }
+    if (minTier && maxTier && order.indexOf(minTier) > order.indexOf(maxTier)) {
+      error(`"${rule.name}": minTier is above maxTier`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Throw on the first mistake in a rule list
+ */
+export function validateRules(rules: RoutingRule[], order: RouteTier[] = DEFAULT_TIER_ORDER): void {
+  const [first] = findRuleErrors(rules, order);
+  if (first) {
+    throw new Error(`routing.rules[${first.index}]: ${first.message}`);
+  }
+}
+
+/**
+ * Run the rules in order until one picks a tier
+ */
+export function applyRules(rules: RoutingRule[], input: RuleInput, order: RouteTier[] = DEFAULT_TIER_ORDER): RuleOutcome {
+  const outcome: RuleOutcome = { score: input.evaluation.complexity_score, notes: [] };
+
+  for (const rule of rules) {
+    if (!matches(rule.when ?? {}, input, outcome.score)) continue;
+    const { tier, minTier, maxTier, adjustScore } = rule.then;
+
+    if (adjustScore !== undefined) {
+      outcome.score = Math.min(100, Math.max(0, outcome.score + adjustScore));
+      outcome.notes.push(`rule ${rule.name} adjusts score by ${adjustScore} to ${outcome.score}`);
+    }
+    if (minTier && (!outcome.minTier || order.indexOf(minTier) > order.indexOf(outcome.minTier))) {
+      outcome.minTier = minTier;
+      outcome.minTierRule = rule.name;
+      outcome.notes.push(`rule ${rule.name} sets minimum ${minTier.toUpperCase()}`);
+    }
+    if (maxTier && (!outcome.maxTier || order.indexOf(maxTier) < order.indexOf(outcome.maxTier))) {
+      outcome.maxTier = maxTier;
+      outcome.maxTierRule = rule.name;
+      outcome.notes.push(`rule ${rule.name} sets maximum ${maxTier.toUpperCase()}`);
+    }
+    if (tier) {
+      outcome.tier = tier;
+      outcome.rule = rule.name;
+      break;
+    }
+  }
+
+  return outcome;
+}
+
+function matches(condition: RuleCondition, input: RuleInput, score: number): boolean {
+  const { evaluation } = input;
+  return (
+    inRange(score, condition.score) &&
+    inRange(evaluation.confidence, condition.confidence) &&
+    (!condition.taskType || condition.taskType.includes(evaluation.task_type)) &&
+    (!condition.tokenSize || condition.tokenSize.includes(evaluation.estimated_token_size)) &&
+    (!condition.user || (input.userId !== undefined && condition.user.includes(input.userId))) &&
+    (!condition.model || (input.model !== undefined && condition.model.includes(input.model))) &&
+    (!condition.capabilities || condition.capabilities.every((capability) => input.capabilities.includes(capability)))
+  );
+}
+
+function inRange(value: number, range: RangeCondition | undefined): boolean {
+  if (!range) return true;
+  return (
+    (range.gt === undefined || value > range.gt) &&
+    (range.gte === undefined || value >= range.gte) &&
+    (range.lt === undefined || value < range.lt) &&
+    (range.lte === undefined || value <= range.lte)
+  );
+}
@@ -1,19 +1,71 @@
 /**
  * Helix Router Server
  *
- * HTTP server that exposes Helix Router as an OpenAI-compatible API.
+ * HTTP server that exposes Helix Router as an OpenAI-compatible API
+ * (chat completions, Responses and legacy completions), plus an
+ * Anthropic Messages front door at /v1/messages.
  * Run this as a separate process or as part of OpenClaw gateway.
  */
 
 import { createServer, IncomingMessage, ServerResponse, Server } from "node:http";
-import type { ChatCompletionRequest } from "./types.js";
+import type {
+  AnthropicMessagesRequest,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  LegacyCompletionRequest,
+  ResponsesRequest,
+  RoutingMetadata,
+  ClientKeyConfig,
+  RequestContext,
+  RouteTier,
+  TiersConfig,
+} from "./types.js";
 import { HelixProxy, ProxyConfig } from "./proxy.js";
+import {
+  AnthropicStreamTranslator,
+  anthropicErrorType,
+  anthropicToChatRequest,
+  chatResponseToAnthropic,
+  formatAnthropicEvent,
+} from "./anthropic-messages.js";
+import {
+  ResponsesStreamTranslator,
+  chatResponseToResponses,
+  formatResponsesEvent,
+  responsesToChatRequest,
+} from "./responses-api.js";
+import {
+  chatChunkToCompletion,
+  chatResponseToCompletion,
+  completionToChatRequest,
+} from "./legacy-completions.js";
+import { ROUTING_HEADERS, readRoutingMetadata, routingHeaders } from "./routing-metadata.js";
+import { HelixRouterError } from "./errors.js";
+import { countRequestTokens } from "./tokenizer.js";
+import { ClientAuthenticator } from "./client-auth.js";
+import { CHANNEL_HEADER, SESSION_HEADER, sessionFromHeaders } from "./sessions.js";
+import { ConfigValidationError, validateConfig } from "./config-validation.js";
+import { ConfigWatcher } from "./config-watcher.js";
+import { CONFIG_FILE, loadConfig, type ConfigSources } from "./config.js";
+import { CAPABILITIES, tierCapabilities } from "./capabilities.js";
+import { tierLimits } from "./routing-engine.js";
 
 const DEFAULT_PORT = 8403;
 
+const RATE_LIMIT_HEADERS = [
+  "Retry-After",
+  "x-ratelimit-limit-requests",
+  "x-ratelimit-remaining-requests",
+  "x-ratelimit-reset-requests",
+  "x-ratelimit-limit-tokens",
+  "x-ratelimit-remaining-tokens",
+  "x-ratelimit-reset-tokens",
+];
+
 export interface ServerOptions {
   port?: number;
   config: ProxyConfig;
+  clientKeys?: ClientKeyConfig[]; // when set, requests must carry one of these keys
   logger: {
     info: (msg: string) => void;
     error: (msg: string) => void;
@@ -24,13 +76,18 @@ export interface ServerOptions {
 export class HelixServer {
   private server: Server | null = null;
   private proxy: HelixProxy;
+  private auth: ClientAuthenticator;
+  private tiers: TiersConfig;
   private port: number;
   private logger: ServerOptions["logger"];
+  private watcher: ConfigWatcher | null = null;
 
   constructor(options: ServerOptions) {
     this.port = options.port ?? DEFAULT_PORT;
     this.logger = options.logger;
     this.proxy = new HelixProxy(options.config, options.logger);
+    this.tiers = options.config.tiers ?? {};
+    this.auth = new ClientAuthenticator(options.clientKeys);
   }
 
   /**
@@ -57,6 +114,9 @@ export class HelixServer {
    * Stop the HTTP server
    */
   stop(): Promise<void> {
+    this.watcher?.stop();
+    this.watcher = null;
+
     return new Promise((resolve, reject) => {
       if (!this.server) {
         resolve();
@@ -74,6 +134,45 @@ export class HelixServer {
     });
   }
 
+  /**
+   * Apply a new configuration and client keys without restarting or
+   * dropping connections. Throws ConfigValidationError and leaves the
+   * running configuration in place when either is invalid.
+   */
+  reload(config: ProxyConfig, clientKeys?: ClientKeyConfig[]): void {
+    const errors = validateConfig({ ...config, clientKeys });
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors);
+    }
+
+    const auth = new ClientAuthenticator(clientKeys);
+    this.proxy.reload(config);
+    this.tiers = config.tiers ?? {};
+    this.auth = auth;
+    this.logger.info("[Helix Server] Configuration reloaded");
+  }
+
+  /**
+   * Reload from the same sources whenever the config file changes. A change
+   * that fails validation is logged and the running configuration kept.
+   */
+  watchConfig(sources: ConfigSources = {}): void {
+    if (sources.file === null) return;
+    const file = sources.file ?? CONFIG_FILE;
+
+    this.watcher?.stop();
+    this.watcher = new ConfigWatcher(file, () => {
+      try {
+        const config = loadConfig(sources);
+        this.reload(config, config.clientKeys);
+      } catch (error) {
+        this.logger.error(`[Helix Server] Config reload rejected, keeping the running config: ${(error as Error).message}`);
+      }
+    });
+    this.watcher.start();
+    this.logger.info(`[Helix Server] Watching ${file}`);
+  }
+
   /**
    * Get the port the server is listening on
    */
@@ -98,7 +197,8 @@ export class HelixServer {
     // CORS headers
     res.setHeader("Access-Control-Allow-Origin", "*");
     res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    res.setHeader("Access-Control-Allow-Headers", ["Content-Type", "Authorization", "x-api-key", "anthropic-version", SESSION_HEADER, CHANNEL_HEADER].join(", "));
+    res.setHeader("Access-Control-Expose-Headers", [...Object.values(ROUTING_HEADERS), ...RATE_LIMIT_HEADERS].join(", "));
 
     if (method === "OPTIONS") {
       res.writeHead(204);
@@ -109,15 +209,36 @@ export class HelixServer {
     try {
       // Health check
       if (url === "/health" || url === "/v1/health") {
-        res.writeHead(200, { "Content-Type": "application/json" });
+        const tiers = this.proxy.getHealth();
+        const available = Object.values(tiers).filter((t) => t.available).length;
+        const status = available === Object.keys(tiers).length
+          ? "ok"
+          : available > 0 ? "degraded" : "down";
+
+        res.writeHead(status === "down" ? 503 : 200, { "Content-Type": "application/json" });
         res.end(JSON.stringify({
-          status: "ok",
+          status,
           service: "helix-router",
           version: "1.0.0",
+          tiers,
         }));
         return;
       }
 
+      // Everything past the health check needs a client key, if keys are configured
+      let context: RequestContext;
+      try {
+        context = { ...this.auth.authenticate(req.headers), sessionId: sessionFromHeaders(req.headers) };
+      } catch (error) {
+        if (!(error instanceof HelixRouterError)) throw error;
+        if (url === "/v1/messages") {
+          this.writeAnthropicError(res, error.status, anthropicErrorType(error.status), error.message, error.headers);
+        } else {
+          this.writeError(res, error.status, error.type, error.message, error.headers);
+        }
+        return;
+      }
+
       // Stats endpoint
       if (url === "/stats" || url === "/v1/stats") {
         const stats = this.proxy.getStats();
@@ -128,14 +249,14 @@ export class HelixServer {
 
       // Models endpoint
       if (url === "/v1/models" && method === "GET") {
+        const tiers = [...this.proxy.getTiers()].reverse();
         res.writeHead(200, { "Content-Type": "application/json" });
         res.end(JSON.stringify({
           object: "list",
           data: [
-            { id: "helix-router/auto", object: "model", owned_by: "helix" },
-            { id: "helix-router/pro", object: "model", owned_by: "helix" },
-            { id: "helix-router/mid", object: "model", owned_by: "helix" },
-            { id: "helix-router/low", object: "model", owned_by: "helix" },
+            // auto can escalate all the way, so it advertises what the top tier offers
+            this.describeModel("helix-router/auto", tiers[0]),
+            ...tiers.map((tier) => this.describeModel(`helix-router/${tier}`, tier)),
           ],
         }));
         return;
@@ -143,7 +264,25 @@ export class HelixServer {
 
       // Chat completions endpoint
       if (url === "/v1/chat/completions" && method === "POST") {
-        await this.handleChatCompletion(req, res);
+        await this.handleChatCompletion(req, res, context);
+        return;
+      }
+
+      // Anthropic Messages endpoint
+      if (url === "/v1/messages" && method === "POST") {
+        await this.handleAnthropicMessages(req, res, context);
+        return;
+      }
+
+      // OpenAI Responses endpoint
+      if (url === "/v1/responses" && method === "POST") {
+        await this.handleResponses(req, res, context);
+        return;
+      }
+
+      // Legacy completions endpoint
+      if (url === "/v1/completions" && method === "POST") {
+        await this.handleLegacyCompletion(req, res, context);
         return;
       }
 
@@ -160,7 +299,11 @@ export class HelixServer {
   /**
    * Handle chat completion request
    */
-  private async handleChatCompletion(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  private async handleChatCompletion(
+    req: IncomingMessage,
+    res: ServerResponse,
+    context: RequestContext
+  ): Promise<void> {
     // Read request body
     const body = await this.readBody(req);
     let request: ChatCompletionRequest;
@@ -178,11 +321,15 @@ export class HelixServer {
     try {
       // Check if streaming
       if (request.stream) {
-        await this.handleStreamCompletion(request, res, requestId);
+        await this.handleStreamCompletion(request, res, requestId, context);
       } else {
-        await this.handleNonStreamCompletion(request, res, requestId);
+        await this.handleNonStreamCompletion(request, res, requestId, context);
       }
     } catch (error) {
+      if (error instanceof HelixRouterError) {
+        this.writeError(res, error.status, error.type, error.message, error.headers);
+        return;
+      }
       this.logger.error(`[Helix Server] Chat completion error: ${error}`);
       res.writeHead(500, { "Content-Type": "application/json" });
       res.end(JSON.stringify({
@@ -200,17 +347,22 @@ export class HelixServer {
   private async handleNonStreamCompletion(
     request: ChatCompletionRequest,
     res: ServerResponse,
-    requestId: string
+    requestId: string,
+    context: RequestContext
   ): Promise<void> {
-    const response = await this.proxy.handleRequest(request, requestId);
-    const data = await response.json();
+    const response = await this.proxy.handleRequest(request, requestId, context);
+    const metadata = this.copyRoutingHeaders(response, res);
+    const data = await response.json() as ChatCompletionResponse;
 
-    // Update model name in response
+    // Report the tier that handled the request
     if (data.model) {
-      data.model = `helix-router/auto`;
+      data.model = metadata ? `helix-router/${metadata.tier}` : "helix-router/auto";
+    }
+    if (metadata) {
+      data.helix = metadata;
     }
 
-    res.writeHead(200, { "Content-Type": "application/json" });
+    res.writeHead(response.status, { "Content-Type": "application/json" });
     res.end(JSON.stringify(data));
   }
 
@@ -220,20 +372,19 @@ export class HelixServer {
   private async handleStreamCompletion(
     request: ChatCompletionRequest,
     res: ServerResponse,
-    requestId: string
+    requestId: string,
+    context: RequestContext
   ): Promise<void> {
-    res.writeHead(200, {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      "Connection": "keep-alive",
-    });
-
     try {
-      for await (const chunk of this.proxy.handleStreamRequest(request, requestId)) {
+      for await (const chunk of this.proxy.handleStreamRequest(request, requestId, context)) {
+        this.beginStream(res, chunk.helix);
         res.write(`data: ${JSON.stringify(chunk)}\n\n`);
       }
+      this.beginStream(res);
       res.write("data: [DONE]\n\n");
     } catch (error) {
+      // Nothing sent yet: let the caller answer with a proper status
+      if (!res.headersSent) throw error;
       const errorChunk = {
         id: requestId,
         object: "error",
@@ -245,6 +396,299 @@ export class HelixServer {
     res.end();
   }
 
+  /**
+   * Handle Anthropic Messages request
+   */
+  private async handleAnthropicMessages(
+    req: IncomingMessage,
+    res: ServerResponse,
+    context: RequestContext
+  ): Promise<void> {
+    const body = await this.readBody(req);
+    let request: AnthropicMessagesRequest;
+    let chatRequest: ChatCompletionRequest;
+
+    try {
+      request = JSON.parse(body) as AnthropicMessagesRequest;
+      if (!Array.isArray(request.messages)) {
+        throw new Error("messages must be an array");
+      }
+      chatRequest = anthropicToChatRequest(request);
+    } catch (error) {
+      this.writeAnthropicError(res, 400, "invalid_request_error", this.describeParseError(error));
+      return;
+    }
+
+    const requestId = `hr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    try {
+      if (request.stream) {
+        await this.handleAnthropicStream(chatRequest, request.model, res, requestId, context);
+        return;
+      }
+
+      const response = await this.proxy.handleRequest(chatRequest, requestId, context);
+      this.copyRoutingHeaders(response, res);
+      if (!response.ok) {
+        const detail = await response.text();
+        this.writeAnthropicError(res, response.status, "api_error", `Upstream error ${response.status}: ${detail}`);
+        return;
+      }
+
+      const data = await response.json() as ChatCompletionResponse;
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(chatResponseToAnthropic(data, request.model)));
+    } catch (error) {
+      if (error instanceof HelixRouterError && !res.headersSent) {
+        this.writeAnthropicError(res, error.status, anthropicErrorType(error.status), error.message, error.headers);
+        return;
+      }
+      this.logger.error(`[Helix Server] Messages error: ${error}`);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      this.writeAnthropicError(res, 500, "api_error", error instanceof Error ? error.message : "Internal error");
+    }
+  }
+
+  /**
+   * Stream a chat completion back as Anthropic SSE events
+   */
+  private async handleAnthropicStream(
+    request: ChatCompletionRequest,
+    model: string,
+    res: ServerResponse,
+    requestId: string,
+    context: RequestContext
+  ): Promise<void> {
+    const translator = new AnthropicStreamTranslator(model, requestId, countRequestTokens(request));
+
+    try {
+      for await (const chunk of this.proxy.handleStreamRequest(request, requestId, context, { includeUsage: true })) {
+        this.beginStream(res, chunk.helix);
+        for (const event of translator.push(chunk)) {
+          res.write(formatAnthropicEvent(event));
+        }
+      }
+      this.beginStream(res);
+      for (const event of translator.finish()) {
+        res.write(formatAnthropicEvent(event));
+      }
+    } catch (error) {
+      if (!res.headersSent) throw error;
+      res.write(`event: error\ndata: ${JSON.stringify({
+        type: "error",
+        error: { type: "api_error", message: error instanceof Error ? error.message : "Stream error" },
+      })}\n\n`);
+    }
+
+    res.end();
+  }
+
+  /**
+   * Write an error in the Anthropic error envelope
+   */
+  private writeAnthropicError(
+    res: ServerResponse,
+    status: number,
+    type: string,
+    message: string,
+    headers: Record<string, string> = {}
+  ): void {
+    res.writeHead(status, { ...headers, "Content-Type": "application/json" });
+    res.end(JSON.stringify({ type: "error", error: { type, message } }));
+  }
+
+  /**
+   * Handle OpenAI Responses request
+   */
+  private async handleResponses(
+    req: IncomingMessage,
+    res: ServerResponse,
+    context: RequestContext
+  ): Promise<void> {
+    const body = await this.readBody(req);
+    let request: ResponsesRequest;
+    let chatRequest: ChatCompletionRequest;
+
+    try {
+      request = JSON.parse(body) as ResponsesRequest;
+      chatRequest = responsesToChatRequest(request);
+    } catch (error) {
+      this.writeError(res, 400, "invalid_request_error", this.describeParseError(error));
+      return;
+    }
+
+    const requestId = `hr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    try {
+      if (request.stream) {
+        const translator = new ResponsesStreamTranslator(request.model, requestId);
+        for await (const chunk of this.proxy.handleStreamRequest(chatRequest, requestId, context, { includeUsage: true })) {
+          this.beginStream(res, chunk.helix);
+          for (const event of translator.push(chunk)) {
+            res.write(formatResponsesEvent(event));
+          }
+        }
+        this.beginStream(res);
+        for (const event of translator.finish()) {
+          res.write(formatResponsesEvent(event));
+        }
+        res.end();
+        return;
+      }
+
+      const response = await this.proxy.handleRequest(chatRequest, requestId, context);
+      this.copyRoutingHeaders(response, res);
+      if (!response.ok) {
+        this.writeError(res, response.status, "upstream_error", `Upstream error ${response.status}: ${await response.text()}`);
+        return;
+      }
+
+      const data = await response.json() as ChatCompletionResponse;
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(chatResponseToResponses(data, request.model)));
+    } catch (error) {
+      this.handleTranslatedError(res, error, "Responses");
+    }
+  }
+
+  /**
+   * Handle legacy completions request
+   */
+  private async handleLegacyCompletion(
+    req: IncomingMessage,
+    res: ServerResponse,
+    context: RequestContext
+  ): Promise<void> {
+    const body = await this.readBody(req);
+    let request: LegacyCompletionRequest;
+    let chatRequest: ChatCompletionRequest;
+
+    try {
+      request = JSON.parse(body) as LegacyCompletionRequest;
+      chatRequest = completionToChatRequest(request);
+    } catch (error) {
+      this.writeError(res, 400, "invalid_request_error", this.describeParseError(error));
+      return;
+    }
+
+    const requestId = `hr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    try {
+      if (request.stream) {
+        let finished = false;
+        for await (const chunk of this.proxy.handleStreamRequest(chatRequest, requestId, context)) {
+          this.beginStream(res, chunk.helix);
+          const completion = chatChunkToCompletion(chunk, request.model);
+          if (!completion || (finished && completion.choices[0].finish_reason)) continue;
+          finished = finished || completion.choices[0].finish_reason !== null;
+          res.write(`data: ${JSON.stringify(completion)}\n\n`);
+        }
+        this.beginStream(res);
+        res.write("data: [DONE]\n\n");
+        res.end();
+        return;
+      }
+
+      const response = await this.proxy.handleRequest(chatRequest, requestId, context);
+      this.copyRoutingHeaders(response, res);
+      if (!response.ok) {
+        this.writeError(res, response.status, "upstream_error", `Upstream error ${response.status}: ${await response.text()}`);
+        return;
+      }
+
+      const data = await response.json() as ChatCompletionResponse;
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(chatResponseToCompletion(data, request.model)));
+    } catch (error) {
+      this.handleTranslatedError(res, error, "Completions");
+    }
+  }
+
+  /**
+   * Send SSE headers once, including routing headers when known. Headers
+   * are deferred until the first chunk so the routing decision is available.
+   */
+  private beginStream(res: ServerResponse, metadata?: RoutingMetadata): void {
+    if (res.headersSent) return;
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      ...(metadata ? routingHeaders(metadata) : {}),
+    });
+  }
+
+  /**
+   * Copy X-Helix-* routing headers from a proxy response
+   */
+  private copyRoutingHeaders(response: Response, res: ServerResponse): RoutingMetadata | null {
+    const metadata = readRoutingMetadata(response.headers);
+    if (metadata) {
+      for (const [name, value] of Object.entries(routingHeaders(metadata))) {
+        res.setHeader(name, value);
+      }
+    }
+    return metadata;
+  }
+
+  /**
+   * Report a failure from a translated endpoint, in-stream if headers are out
+   */
+  private handleTranslatedError(res: ServerResponse, error: unknown, endpoint: string): void {
+    if (error instanceof HelixRouterError && !res.headersSent) {
+      this.writeError(res, error.status, error.type, error.message, error.headers);
+      return;
+    }
+    this.logger.error(`[Helix Server] ${endpoint} error: ${error}`);
+    const message = error instanceof Error ? error.message : "Internal error";
+    if (res.headersSent) {
+      res.write(`data: ${JSON.stringify({ error: { message, type: "internal_error" } })}\n\n`);
+      res.end();
+      return;
+    }
+    this.writeError(res, 500, "internal_error", message);
+  }
+
+  /**
+   * Message for a request body that failed to parse or translate
+   */
+  private describeParseError(error: unknown): string {
+    return error instanceof SyntaxError || !(error instanceof Error) ? "Invalid JSON" : error.message;
+  }
+
+  /**
+   * Write an error in the OpenAI error envelope
+   */
+  private writeError(
+    res: ServerResponse,
+    status: number,
+    type: string,
+    message: string,
+    headers: Record<string, string> = {}
+  ): void {
+    res.writeHead(status, { ...headers, "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: { message, type } }));
+  }
+
+  /**
+   * Model list entry advertising a tier's limits and capabilities
+   */
+  private describeModel(id: string, tier: RouteTier): Record<string, unknown> {
+    const limits = tierLimits(this.tiers, tier);
+    const offered = tierCapabilities(this.tiers, tier);
+    return {
+      id,
+      object: "model",
+      owned_by: "helix",
+      context_window: limits.contextWindow,
+      max_tokens: limits.maxTokens,
+      capabilities: Object.fromEntries(CAPABILITIES.map((capability) => [capability, offered.includes(capability)])),
+    };
+  }
+
   /**
    * Read request body as string
    */
@@ -259,44 +703,30 @@ export class HelixServer {
 }
 
 /**
- * Start server from command line
+ * Start server from command line. Configuration comes from the config file,
+ * HELIX_* environment variables and the given options, in that order.
  */
-export async function startServer(options?: { port?: number }): Promise<HelixServer> {
-  const port = options?.port ?? parseInt(process.env.HELIX_PORT ?? "") || DEFAULT_PORT;
-
+export async function startServer(options?: { port?: number; configFile?: string }): Promise<HelixServer> {
   const logger = {
     info: (msg: string) => console.log(`[INFO] ${msg}`),
     error: (msg: string) => console.error(`[ERROR] ${msg}`),
     warn: (msg: string) => console.warn(`[WARN] ${msg}`),
   };
 
-  // Load config from environment or defaults
-  const config: ProxyConfig = {
-    providers: {
-      pro: {
-        baseUrl: process.env.HELIX_PRO_URL ?? "http://192.168.1.60:8310/v1",
-        apiKey: process.env.HELIX_PRO_KEY ?? "",
-        model: process.env.HELIX_PRO_MODEL ?? "kiro-proxy/pro",
-      },
-      mid: {
-        baseUrl: process.env.HELIX_MID_URL ?? "http://192.168.1.60:8310/v1",
-        apiKey: process.env.HELIX_MID_KEY ?? "",
-        model: process.env.HELIX_MID_MODEL ?? "kiro-proxy/mid",
-      },
-      low: {
-        baseUrl: process.env.HELIX_LOW_URL ?? "http://192.168.1.60:8310/v1",
-        apiKey: process.env.HELIX_LOW_KEY ?? "",
-        model: process.env.HELIX_LOW_MODEL ?? "kiro-proxy/low",
-      },
-    },
-    routing: {
-      proThreshold: parseInt(process.env.HELIX_PRO_THRESHOLD ?? "75"),
-      midThreshold: parseInt(process.env.HELIX_MID_THRESHOLD ?? "35"),
-    },
+  const sources: ConfigSources = {
+    file: options?.configFile,
+    cli: options?.port !== undefined ? { server: { port: options.port } } : undefined,
   };
-
-  const server = new HelixServer({ port, config, logger });
+  const config = loadConfig(sources);
+
+  const server = new HelixServer({
+    port: config.server?.port ?? DEFAULT_PORT,
+    config,
+    logger,
+    clientKeys: config.clientKeys,
+  });
   await server.start();
+  server.watchConfig(sources);
 
   return server;
 }
@@ -0,0 +1,148 @@
+/**
+ * Session Affinity
+ *
+ * Turns of one conversation are evaluated independently, so a coding
+ * session could bounce between tiers from message to message. A session
+ * remembers the highest tier it was routed to and holds later turns at
+ * least there; a harder turn raises the tier at once, while the session only
+ * steps down after `deescalateAfter` simpler turns in a row. Sessions are
+ * keyed by the X-Helix-Session header, the OpenClaw channel or, without
+ * either, a hash of the conversation's opening messages. Sessions are off
+ * unless SessionConfig.enabled is set.
+ */
+
+import type { IncomingHttpHeaders } from "node:http";
+import { createHash } from "node:crypto";
+import type { ChatCompletionRequest, RequestContext, RouteTier, SessionConfig } from "./types.js";
+import { contentText } from "./message-utils.js";
+
+export const SESSION_HEADER = "X-Helix-Session";
+
+// Sent by OpenClaw with the channel a conversation runs in
+export const CHANNEL_HEADER = "X-OpenClaw-Channel-Id";
+
+const DEFAULT_DEESCALATE_AFTER = 3;
+const DEFAULT_SESSION_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 10000;
+
+interface Session {
+  tier: RouteTier;
+  simpleTurns: number; // consecutive turns that scored below `tier`
+  lastSeen: number;
+}
+
+export interface SessionHold {
+  tier: RouteTier; // floor for this turn
+  note?: string; // why the session held or stepped down, for the decision trace
+}
+
+/**
+ * Session key a client sent, from the X-Helix-Session header or else the
+ * OpenClaw channel
+ */
+export function sessionFromHeaders(headers: IncomingHttpHeaders): string | undefined {
+  const session = header(headers, SESSION_HEADER);
+  if (session) return `header:${session}`;
+  const channel = header(headers, CHANNEL_HEADER);
+  return channel ? `channel:${channel}` : undefined;
+}
+
+/**
+ * Key of the session a request belongs to: the one the client sent, or a
+ * hash of the system prompt and first user message, which stay the same for
+ * every turn of a conversation. Keys are scoped to the caller. Undefined
+ * when the request has no user message to anchor a session.
+ */
+export function sessionKey(request: ChatCompletionRequest, caller: RequestContext): string | undefined {
+  const scope = caller.userId ? `${caller.userId}/` : "";
+  if (caller.sessionId) return scope + caller.sessionId;
+
+  const first = request.messages.findIndex((message) => message.role === "user");
+  if (first < 0) return undefined;
+  const prefix = request.messages
+    .slice(0, first + 1)
+    .filter((message) => message.role === "system" || message.role === "user")
+    .map((message) => `${message.role}:${contentText(message.content)}`)
+    .join("\n");
+  return `${scope}prefix:${createHash("sha256").update(prefix).digest("hex").slice(0, 16)}`;
+}
+
+/**
+ * In-memory sticky tiers per session
+ */
+export class SessionTracker {
+  private config: SessionConfig;
+  private sessions = new Map<string, Session>(); // least recently seen first
+
+  constructor(config: SessionConfig = {}) {
+    this.config = config;
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled === true;
+  }
+
+  /**
+   * Record a turn routed to `tier` (cheapest first in `order`) and return the
+   * tier the session holds it at. A turn at or above the session tier
+   * becomes the new session tier; a simpler one is held at the session tier
+   * until `deescalateAfter` of them have passed in a row, and the next one
+   * steps the session down to its own tier.
+   */
+  hold(key: string, tier: RouteTier, order: RouteTier[]): SessionHold {
+    const now = Date.now();
+    this.prune(now);
+
+    const session = this.sessions.get(key);
+    this.sessions.delete(key);
+    const held = session ? order.indexOf(session.tier) : -1;
+    if (!session || held < 0 || order.indexOf(tier) >= held) {
+      this.remember(key, { tier, simpleTurns: 0, lastSeen: now });
+      return { tier };
+    }
+
+    const deescalateAfter = this.config.deescalateAfter ?? DEFAULT_DEESCALATE_AFTER;
+    const simpleTurns = session.simpleTurns + 1;
+    if (simpleTurns > deescalateAfter) {
+      this.remember(key, { tier, simpleTurns: 0, lastSeen: now });
+      return { tier, note: `session steps down from ${session.tier.toUpperCase()} after ${deescalateAfter} simpler turns` };
+    }
+
+    this.remember(key, { tier: session.tier, simpleTurns, lastSeen: now });
+    return {
+      tier: session.tier,
+      note: `session holds ${session.tier.toUpperCase()} (simpler turn ${simpleTurns} of ${deescalateAfter})`,
+    };
+  }
+
+  /**
+   * Number of sessions currently tracked
+   */
+  size(): number {
+    this.prune(Date.now());
+    return this.sessions.size;
+  }
+
+  private remember(key: string, session: Session): void {
+    this.sessions.set(key, session);
+    const maxSessions = this.config.maxSessions ?? DEFAULT_MAX_SESSIONS;
+    for (const oldest of this.sessions.keys()) {
+      if (this.sessions.size <= maxSessions) break;
+      this.sessions.delete(oldest);
+    }
+  }
+
+  // Sessions are kept in order of last use, so expired ones lead the map
+  private prune(now: number): void {
+    const ttlMs = this.config.ttlMs ?? DEFAULT_SESSION_TTL_MS;
+    for (const [key, session] of this.sessions) {
+      if (now - session.lastSeen < ttlMs) break;
+      this.sessions.delete(key);
+    }
+  }
+}
+
+function header(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+}
@@ -0,0 +1,128 @@
+/**
+ * Tier Ladder
+ *
+ * Tiers are named and ordered from cheapest to most capable by
+ * `routing.tiers` (default: low, mid, pro). Each tier takes the complexity
+ * scores from its `minScore` up to the next tier's; PRO and MID fall back to
+ * `routing.proThreshold` and `routing.midThreshold`, so three-tier configs
+ * work unchanged. Tiers beyond the built-in three take MID's defaults for
+ * anything they do not configure.
+ */
+
+import type { RouteTier, RoutingThresholds, TiersConfig } from "./types.js";
+
+export const DEFAULT_TIER_ORDER: RouteTier[] = ["low", "mid", "pro"];
+
+// Where the PRO and MID bands start unless configured
+export const DEFAULT_THRESHOLDS: RoutingThresholds = {
+  proThreshold: 75,
+  midThreshold: 35,
+};
+
+// Model list names of the built-in tiers
+const DEFAULT_TIER_LABELS: Record<RouteTier, string> = {
+  pro: "Helix PRO (High Cognitive)",
+  mid: "Helix MID (Daily Driver)",
+  low: "Helix LOW (Lightweight)",
+};
+
+export interface ScoreBand {
+  tier: RouteTier;
+  minScore: number; // lowest score routed to the tier
+}
+
+/**
+ * The configured tiers, cheapest first
+ */
+export function tierOrder(routing?: { tiers?: RouteTier[] }): RouteTier[] {
+  return routing?.tiers?.length ? routing.tiers : DEFAULT_TIER_ORDER;
+}
+
+/**
+ * Mistakes in a tier ladder, each with the config path to report it at
+ */
+export function findTierErrors(
+  order: RouteTier[],
+  tiers: TiersConfig,
+  thresholds: Partial<RoutingThresholds>
+): Array<{ path: Array<string | number>; message: string }> {
+  const errors: Array<{ path: Array<string | number>; message: string }> = [];
+  const seen = new Set<RouteTier>();
+  order.forEach((tier, index) => {
+    if (typeof tier !== "string" || !tier) {
+      errors.push({ path: ["routing", "tiers", index], message: "expected a tier name" });
+    } else if (seen.has(tier)) {
+      errors.push({ path: ["routing", "tiers", index], message: `duplicate tier "${tier}"` });
+    }
+    seen.add(tier);
+  });
+  if (errors.length > 0) return errors;
+
+  let previous: ScoreBand | undefined;
+  order.forEach((tier, index) => {
+    const minScore = bandStart(tier, index, tiers, thresholds);
+    if (minScore === undefined) {
+      errors.push({ path: ["tiers", tier, "minScore"], message: "is required for a tier above the cheapest" });
+      return;
+    }
+    if (previous && minScore <= previous.minScore) {
+      errors.push({
+        path: ["tiers", tier, "minScore"],
+        message: `must be above ${previous.tier}'s minScore (${previous.minScore})`,
+      });
+    }
+    previous = { tier, minScore };
+  });
+  return errors;
+}
+
+/**
+ * Score band of every tier, cheapest first. Throws on the first mistake in
+ * the ladder.
+ */
+export function scoreBands(
+  order: RouteTier[],
+  tiers: TiersConfig,
+  thresholds: Partial<RoutingThresholds>
+): ScoreBand[] {
+  const [first] = findTierErrors(order, tiers, thresholds);
+  if (first) {
+    throw new Error(`${first.path.join(".")}: ${first.message}`);
+  }
+  return order.map((tier, index) => ({ tier, minScore: bandStart(tier, index, tiers, thresholds)! }));
+}
+
+/**
+ * The band a score falls in; scores below every band go to the cheapest tier
+ */
+export function bandForScore(bands: ScoreBand[], score: number): ScoreBand {
+  return [...bands].reverse().find((band) => score >= band.minScore) ?? bands[0];
+}
+
+/**
+ * Display name of a tier in model lists
+ */
+export function tierLabel(tiers: TiersConfig, tier: RouteTier): string {
+  return tiers[tier]?.label ?? DEFAULT_TIER_LABELS[tier] ?? `Helix ${tier.toUpperCase()}`;
+}
+
+/**
+ * A tier name as used in HELIX_{TIER}_* environment variables
+ */
+export function tierEnvName(tier: RouteTier): string {
+  return tier.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+}
+
+function bandStart(
+  tier: RouteTier,
+  index: number,
+  tiers: TiersConfig,
+  thresholds: Partial<RoutingThresholds>
+): number | undefined {
+  const configured = tiers[tier]?.minScore;
+  if (configured !== undefined) return configured;
+  if (index === 0) return 0;
+  if (tier === "pro") return thresholds.proThreshold ?? DEFAULT_THRESHOLDS.proThreshold;
+  if (tier === "mid") return thresholds.midThreshold ?? DEFAULT_THRESHOLDS.midThreshold;
+  return undefined;
+}
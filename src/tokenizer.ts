@@ -0,0 +1,98 @@
+/**
+ * Token Counting
+ *
+ * Counts tokens locally with BPE encodings from js-tiktoken. The encoding is
+ * picked by model family: o200k for GPT-4o and later OpenAI models, cl100k
+ * for everything else. For non-OpenAI families (Claude, Gemini, Llama, Qwen)
+ * cl100k is an approximation, typically within 10-20% of the real count.
+ */
+
+import { getEncoding, type Tiktoken, type TiktokenEncoding } from "js-tiktoken";
+import type { ChatCompletionRequest, ChatMessage, TokenSize } from "./types.js";
+
+// Chat framing overhead, as documented for OpenAI chat models
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_NAME = 1;
+const TOKENS_FOR_REPLY_PRIMING = 3;
+
+// Typical cost of one image at high detail; the real cost depends on size
+const TOKENS_PER_IMAGE = 765;
+
+const O200K_MODELS = /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o[1-9])/;
+
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+/**
+ * Pick the BPE encoding for a model ID (provider prefixes are ignored)
+ */
+export function encodingForModel(model = ""): TiktokenEncoding {
+  const name = model.toLowerCase().split("/").pop() ?? "";
+  return O200K_MODELS.test(name) ? "o200k_base" : "cl100k_base";
+}
+
+/**
+ * Count the tokens in a piece of text
+ */
+export function countTextTokens(text: string, model?: string): number {
+  if (!text) return 0;
+  // Special-token markers in user text are counted as plain text
+  return getEncoder(encodingForModel(model)).encode(text, [], []).length;
+}
+
+/**
+ * Count the prompt tokens of a list of chat messages, including framing
+ */
+export function countMessageTokens(messages: ChatMessage[], model?: string): number {
+  let total = TOKENS_FOR_REPLY_PRIMING;
+
+  for (const message of messages) {
+    total += TOKENS_PER_MESSAGE + countTextTokens(message.role, model);
+    if (message.name) {
+      total += TOKENS_PER_NAME + countTextTokens(message.name, model);
+    }
+
+    if (typeof message.content === "string") {
+      total += countTextTokens(message.content, model);
+    } else {
+      for (const part of message.content ?? []) {
+        total += part.type === "image_url" ? TOKENS_PER_IMAGE : countTextTokens(part.text ?? "", model);
+      }
+    }
+
+    for (const call of message.tool_calls ?? []) {
+      total += countTextTokens(call.function.name, model) + countTextTokens(call.function.arguments, model);
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Count the prompt tokens of a request: messages plus tool definitions
+ */
+export function countRequestTokens(request: ChatCompletionRequest, model = request.model): number {
+  let total = countMessageTokens(request.messages, model);
+  if (request.tools?.length) {
+    total += countTextTokens(JSON.stringify(request.tools), model);
+  }
+  return total;
+}
+
+/**
+ * Bucket a prompt size the way the complexity prompt defines token sizes
+ */
+export function tokenSizeFor(tokens: number): TokenSize {
+  if (tokens < 500) return "small";
+  if (tokens < 2000) return "medium";
+  if (tokens <= 8000) return "large";
+  return "very_large";
+}
+
+function getEncoder(encoding: TiktokenEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = getEncoding(encoding);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
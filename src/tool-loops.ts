@@ -0,0 +1,127 @@
+/**
+ * Tool Loops
+ *
+ * A request that ends in `tool` messages is a tool-result turn of an agent
+ * loop, not a new user intent. Such turns are routed to the tier chosen for
+ * the user turn that started the loop instead of being evaluated again, and
+ * can move one tier up once the loop runs long or its tool calls keep
+ * failing. Turns are matched to their user turn by a hash of the
+ * conversation up to the latest user message. Tracking is off unless
+ * ToolLoopConfig.enabled is set.
+ */
+
+import { createHash } from "node:crypto";
+import type { ChatMessage, RequestContext, RoutingDecision, ToolLoopConfig } from "./types.js";
+import { contentText } from "./message-utils.js";
+
+// Tool output recognised as a failure, matched case-insensitively
+const DEFAULT_TOOL_ERROR_PATTERNS = [
+  "^(error|exception|traceback|fatal)\\b",
+  "^\\{\\s*\"error\"\\s*:",
+  "\"is_error\"\\s*:\\s*true",
+  "\\b(command failed|non-zero exit|exit (code|status) [1-9])",
+];
+
+// Errors are recognised near the start of a tool result
+const ERROR_WINDOW_CHARS = 500;
+
+const TURN_TTL_MS = 60 * 60 * 1000;
+const MAX_TURNS = 10000;
+
+export interface ToolTurn {
+  key: string; // identifies the user turn the request continues
+  toolResult: boolean; // whether the request ends in tool results
+  iteration: number; // tool-result turns since the user turn, this one included
+  toolErrors: number; // tool results since the user turn that look like failures
+}
+
+// What a user turn was routed with, reused by its tool-result turns
+export type TurnRouting = Pick<RoutingDecision, "tier" | "score" | "taskType" | "confidence">;
+
+/**
+ * Remembers the routing of recent user turns for their tool loops
+ */
+export class ToolLoopTracker {
+  private config: ToolLoopConfig;
+  private turns = new Map<string, TurnRouting & { seenAt: number }>(); // oldest first
+
+  constructor(config: ToolLoopConfig = {}) {
+    this.config = config;
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled === true;
+  }
+
+  /**
+   * The user turn a request belongs to and, for a tool-result turn, how far
+   * its loop has run. Undefined when tracking is off or the request has no
+   * user message.
+   */
+  turnOf(messages: ChatMessage[], caller: RequestContext): ToolTurn | undefined {
+    if (!this.isEnabled()) return undefined;
+    const origin = messages.map((message) => message.role).lastIndexOf("user");
+    if (origin < 0) return undefined;
+
+    const conversation = messages
+      .slice(0, origin + 1)
+      .map((message) => `${message.role}:${contentText(message.content)}`)
+      .join("\n");
+    const key = createHash("sha256").update(`${caller.userId ?? ""}\n${conversation}`).digest("hex").slice(0, 16);
+
+    const loop = messages.slice(origin + 1);
+    const patterns = (this.config.errorPatterns ?? DEFAULT_TOOL_ERROR_PATTERNS).map((pattern) => new RegExp(pattern, "i"));
+    return {
+      key,
+      toolResult: messages[messages.length - 1].role === "tool",
+      iteration: loop.filter((message) => message.role === "assistant" && message.tool_calls?.length).length,
+      toolErrors: loop.filter((message) => {
+        if (message.role !== "tool") return false;
+        const output = contentText(message.content).trim().slice(0, ERROR_WINDOW_CHARS);
+        return patterns.some((pattern) => pattern.test(output));
+      }).length,
+    };
+  }
+
+  /**
+   * Routing of the user turn a tool loop started from, if it was seen
+   */
+  originOf(turn: ToolTurn): TurnRouting | undefined {
+    const routing = this.turns.get(turn.key);
+    if (!routing) return undefined;
+    if (Date.now() - routing.seenAt > TURN_TTL_MS) {
+      this.turns.delete(turn.key);
+      return undefined;
+    }
+    const { seenAt: _seenAt, ...origin } = routing;
+    return origin;
+  }
+
+  /**
+   * Remember how a user turn was routed
+   */
+  remember(turn: ToolTurn, decision: RoutingDecision): void {
+    const { tier, score, taskType, confidence } = decision;
+    this.turns.delete(turn.key);
+    this.turns.set(turn.key, { tier, score, taskType, confidence, seenAt: Date.now() });
+    for (const oldest of this.turns.keys()) {
+      if (this.turns.size <= MAX_TURNS) break;
+      this.turns.delete(oldest);
+    }
+  }
+
+  /**
+   * Why a loop should move one tier up, if it has run past
+   * `escalateAfter` iterations or collected `escalateOnErrors` tool errors
+   */
+  escalationReason(turn: ToolTurn): string | undefined {
+    const { escalateAfter, escalateOnErrors } = this.config;
+    if (escalateAfter !== undefined && turn.iteration > escalateAfter) {
+      return `tool loop past ${escalateAfter} iterations`;
+    }
+    if (escalateOnErrors !== undefined && turn.toolErrors >= escalateOnErrors) {
+      return `${turn.toolErrors} tool errors in the loop`;
+    }
+    return undefined;
+  }
+}
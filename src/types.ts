@@ -4,16 +4,52 @@
 
 // ============= Provider Configuration =============
 
+// Wire protocol spoken by an upstream, mirrors ModelDefinitionConfig.api
+export type ProviderApi =
+  | "openai-completions"
+  | "anthropic-messages"
+  | "google-generative-ai"
+  | "ollama";
+
 export interface ProviderConfig {
   baseUrl: string;
   apiKey: string;
   model: string;
+  name?: string; // label used in logs, defaults to baseUrl#model
+  api?: ProviderApi; // default "openai-completions"
+  streamUsage?: boolean; // request stream_options.include_usage, default true
+}
+
+// A single provider, or an ordered failover chain tried first to last
+export type ProviderChain = ProviderConfig | ProviderConfig[];
+
+// A provider chain per tier; pro, mid and low unless routing.tiers says otherwise
+export type ProvidersConfig = Record<RouteTier, ProviderChain>;
+
+// ============= Provider Health =============
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerOptions {
+  windowSize?: number; // recent outcomes considered, default 20
+  minRequests?: number; // outcomes needed before tripping, default 5
+  failureRateThreshold?: number; // 0-1, default 0.5
+  slowCallMs?: number; // slower calls count as failures, default 30000
+  openDurationMs?: number; // cool-down before half-open, default 30000
+  halfOpenMaxCalls?: number; // concurrent probes while half-open, default 1
+}
+
+export interface ProviderHealthSnapshot {
+  provider: string;
+  model: string;
+  state: CircuitState;
+  failureRate: number;
+  avgLatencyMs: number;
 }
 
-export interface ProvidersConfig {
-  pro: ProviderConfig;
-  mid: ProviderConfig;
-  low: ProviderConfig;
+export interface TierHealth {
+  available: boolean;
+  providers: ProviderHealthSnapshot[];
 }
 
 // ============= Complexity Evaluation =============
@@ -44,9 +80,55 @@ export interface ComplexityEvaluation {
   confidence: number; // 0-1
 }
 
+export interface EvaluatorConfig {
+  strategy?: string; // "llm" (default), "heuristic", "embedding", "ensemble" or a registered name
+  heuristicConfidence?: number; // llm: skip the LOW-model call at or above this confidence
+  inputBudget?: number; // llm: tokens of conversation in the evaluation prompt, default 2000
+  embedding?: EmbeddingEvaluatorConfig;
+  ensemble?: {
+    members: Array<{ strategy: string; weight?: number }>;
+  };
+  learned?: {
+    modelFile?: string; // default: router-model.json next to routing.log
+    minConfidence?: number; // below this the LLM evaluator is asked, default 0.7
+  };
+}
+
+// Embedding nearest-neighbour strategy: labels a prompt from its most
+// similar labelled examples
+export interface EmbeddingEvaluatorConfig {
+  baseUrl: string; // OpenAI-compatible API root serving /embeddings
+  apiKey?: string;
+  model: string;
+  examples?: LabeledExample[];
+  examplesFile?: string; // JSONL, one LabeledExample per line
+  k?: number; // neighbours consulted, default 5
+}
+
+export interface LabeledExample {
+  prompt: string;
+  reasoning_depth: ReasoningDepth;
+  task_type: TaskType;
+  constraint_level: ConstraintLevel;
+  required_accuracy: AccuracyRequirement;
+}
+
+// Where an evaluation came from: the LOW-model call, the local heuristic,
+// embedding neighbours, an ensemble vote, the learned model, the evaluation
+// cache, or the MID fallback after a failed evaluation
+export type EvaluationSource =
+  | "llm"
+  | "heuristic"
+  | "embedding"
+  | "ensemble"
+  | "learned"
+  | "cache"
+  | "default";
+
 // ============= Routing =============
 
-export type RouteTier = "pro" | "mid" | "low";
+// A tier name from routing.tiers; "low", "mid" and "pro" by default
+export type RouteTier = string;
 
 export interface RoutingDecision {
   tier: RouteTier;
@@ -54,22 +136,217 @@ export interface RoutingDecision {
   taskType: TaskType;
   confidence: number;
   reasoning: string;
+  rule: string; // routing rule that picked the tier, or "thresholds"
+  cached: boolean;
+}
+
+// Measured size of a request, checked against tier context windows
+export interface PromptSize {
+  promptTokens: number;
+  maxTokens: number; // requested output tokens, 0 when unset
+}
+
+// Routing decision as reported back to clients (headers, `helix` body field)
+export interface RoutingMetadata {
+  requestId: string;
+  tier: RouteTier;
+  score: number;
+  taskType: TaskType;
+  confidence: number;
+  rule?: string;
   cached: boolean;
 }
 
+// USD per million tokens, same unit as ModelDefinitionConfig.cost
+export interface TierPricing {
+  input: number;
+  output: number;
+}
+
+export interface TierSettings {
+  minScore?: number; // lowest score routed here; PRO and MID default to the thresholds
+  label?: string; // name in model lists
+  cost?: TierPricing;
+  rateLimit?: RateLimitConfig; // shared by every caller
+  contextWindow?: number; // prompt + output tokens the tier's models accept
+  maxTokens?: number; // largest max_tokens the tier's models accept
+  input?: string[]; // input modalities, as in ModelDefinitionConfig ("image" enables vision)
+  reasoning?: boolean; // accepts reasoning_effort
+  tools?: boolean; // function calling
+  jsonSchema?: boolean; // response_format json_schema
+}
+
+export type Capability = "vision" | "tools" | "json_schema" | "reasoning";
+
+export type TiersConfig = Partial<Record<RouteTier, TierSettings>>;
+
+// ============= Client Access =============
+
+export interface RateLimitConfig {
+  rpm?: number; // requests per minute
+  tpm?: number; // tokens (prompt + completion) per minute
+}
+
+export interface ClientPolicy {
+  allowedTiers?: RouteTier[]; // default: every tier
+  maxTier?: RouteTier;
+  rateLimit?: RateLimitConfig; // across all tiers
+  tierRateLimits?: Partial<Record<RouteTier, RateLimitConfig>>;
+  onRateLimit?: "reject" | "demote"; // tier limits only, default "reject"
+}
+
+export interface ClientKeyConfig extends ClientPolicy {
+  key: string;
+  label: string; // recorded as userId in the routing log
+}
+
+// Caller identity resolved by the server for a single request
+export interface RequestContext {
+  userId?: string;
+  policy?: ClientPolicy;
+  model?: string; // model alias the client asked for, matched by routing rules
+  sessionId?: string; // header:<X-Helix-Session> or channel:<OpenClaw channel>, keys the session's sticky tier
+}
+
+// ============= Budgets =============
+
+// Spend limits in USD; periods reset at UTC midnight and month start
+export interface BudgetLimits {
+  daily?: number;
+  monthly?: number;
+}
+
+export interface BudgetsConfig {
+  global?: BudgetLimits;
+  tiers?: Partial<Record<RouteTier, BudgetLimits>>;
+  users?: Record<string, BudgetLimits>;
+  defaultUser?: BudgetLimits; // applies to users not listed in `users`
+  capMidAt?: number; // fraction used before capping at MID, default 0.8
+  capLowAt?: number; // fraction used before capping at LOW, default 0.95
+}
+
+export type BudgetPeriod = "daily" | "monthly";
+
+export interface BudgetUsage {
+  scope: string; // "global", "tier:pro" or "user:<id>"
+  period: BudgetPeriod;
+  spent: number;
+  limit: number;
+  fraction: number;
+}
+
+export interface BudgetStatus {
+  day: string;
+  month: string;
+  maxTier: RouteTier | null; // highest tier the global budget allows, null when exhausted
+  usage: BudgetUsage[];
+}
+
 export interface RoutingThresholds {
   proThreshold: number; // default 75
   midThreshold: number; // default 35
 }
 
+// Numeric bounds; every bound given must hold
+export interface RangeCondition {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+// What a routing rule matches; every field given must match, list fields
+// match any of their entries
+export interface RuleCondition {
+  score?: RangeCondition;
+  confidence?: RangeCondition;
+  taskType?: TaskType[];
+  tokenSize?: TokenSize[];
+  user?: string[]; // caller userId or key label
+  model?: string[]; // model alias the client asked for
+  capabilities?: Capability[]; // request features, all required
+}
+
+export interface RuleAction {
+  tier?: RouteTier; // route here; the first matching rule with a tier decides
+  minTier?: RouteTier; // floor for the final tier
+  maxTier?: RouteTier; // ceiling for the final tier
+  adjustScore?: number; // added to the score later rules and the thresholds see
+}
+
+export interface RoutingRule {
+  name: string; // reported in the decision as the rule that fired
+  when?: RuleCondition; // omitted = always matches
+  then: RuleAction;
+}
+
+// ============= Answer Quality =============
+
+// Checks run on non-streaming answers; when one fails the request is retried
+// once on the next tier up
+export interface QualityConfig {
+  enabled?: boolean; // default false
+  checks?: string[]; // checks to run, default every registered check
+  refusalPatterns?: string[]; // case-insensitive regexes matched at the start of an answer, replacing the built-in phrases
+}
+
+// ============= Sessions =============
+
+// A session keeps the highest tier it has been routed to as a floor for its
+// later turns and only lets go after enough simpler turns in a row
+export interface SessionConfig {
+  enabled?: boolean; // default false
+  deescalateAfter?: number; // simpler turns held at the session tier before it steps down, default 3
+  ttlMs?: number; // idle time after which a session is forgotten, default 30 minutes
+  maxSessions?: number; // sessions kept in memory, least recently used dropped first, default 10000
+}
+
+// ============= Tool Loops =============
+
+// Requests ending in tool results reuse the tier of the user turn that
+// started the loop, optionally moving one tier up as the loop drags on
+export interface ToolLoopConfig {
+  enabled?: boolean; // default false
+  escalateAfter?: number; // tool-result turns after which the loop moves one tier up, default never
+  escalateOnErrors?: number; // tool errors in the loop that move it one tier up, default never
+  errorPatterns?: string[]; // case-insensitive regexes matched at the start of a tool result, replacing the built-in ones
+}
+
+// How a tool-result turn was routed, recorded in routing.log
+export interface ToolLoopTag {
+  iteration: number; // tool-result turns since the user turn, this one included
+  toolErrors: number; // tool results in the loop that look like failures
+  originTier?: RouteTier; // tier of the user turn; unset when that turn was not seen and this one was evaluated
+  escalated?: boolean; // moved up by escalateAfter or escalateOnErrors
+}
+
+// ============= Experiments =============
+
+// shadow: a sample of requests is also sent to a second tier, whose answer
+// is recorded but not returned; split: a sample of callers is routed with a
+// second set of thresholds
+export type ExperimentType = "shadow" | "split";
+
+export interface ExperimentConfig {
+  name: string; // reported in experiments.log and routing.log
+  type: ExperimentType;
+  percent: number; // share of requests (shadow) or callers (split) enrolled, 0-100
+  enabled?: boolean; // default true
+  tier?: RouteTier; // shadow: tier that also answers sampled requests
+  from?: RouteTier[]; // shadow: only requests routed to these tiers (default all others)
+  thresholds?: Partial<RoutingThresholds>; // split: the treatment arm's thresholds
+  minScores?: Partial<Record<RouteTier, number>>; // split: the treatment arm's tiers.<tier>.minScore
+}
+
 // ============= Request/Response =============
 
 export interface ChatMessage {
   role: "system" | "user" | "assistant" | "tool";
-  content: string | Array<{ type: string; text?: string; image_url?: { url: string } }>;
+  content: string | Array<{ type: string; text?: string; image_url?: { url: string } }> | null; // null on tool-call-only assistant turns
   name?: string;
   tool_call_id?: string;
   tool_calls?: ToolCall[];
+  refusal?: string | null; // OpenAI: the model declined to answer
 }
 
 export interface ToolCall {
@@ -81,6 +358,17 @@ export interface ToolCall {
   };
 }
 
+// Partial tool call carried by stream chunks, merged by index
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: "function";
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
 export interface ToolDefinition {
   type: "function";
   function: {
@@ -96,13 +384,16 @@ export interface ChatCompletionRequest {
   temperature?: number;
   max_tokens?: number;
   stream?: boolean;
+  stream_options?: { include_usage?: boolean };
   tools?: ToolDefinition[];
   tool_choice?: string | { type: string; function: { name: string } };
   response_format?: { type: string };
+  reasoning_effort?: string;
   stop?: string[];
   top_p?: number;
   frequency_penalty?: number;
   presence_penalty?: number;
+  user?: string; // end-user ID, used for per-user budgets
 }
 
 export interface ChatCompletionChoice {
@@ -123,6 +414,7 @@ export interface ChatCompletionResponse {
     completion_tokens: number;
     total_tokens: number;
   };
+  helix?: RoutingMetadata;
 }
 
 export interface StreamChunk {
@@ -132,9 +424,215 @@ export interface StreamChunk {
   model: string;
   choices: Array<{
     index: number;
-    delta: Partial<ChatMessage>;
+    delta: Partial<Omit<ChatMessage, "tool_calls">> & { tool_calls?: ToolCallDelta[] };
     finish_reason: string | null;
   }>;
+  usage?: ChatCompletionResponse["usage"];
+  helix?: RoutingMetadata; // set on the first chunk only
+}
+
+// ============= Anthropic Messages API =============
+
+export interface AnthropicTextBlock {
+  type: "text";
+  text: string;
+}
+
+export interface AnthropicImageBlock {
+  type: "image";
+  source:
+    | { type: "base64"; media_type: string; data: string }
+    | { type: "url"; url: string };
+}
+
+export interface AnthropicToolUseBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+export interface AnthropicToolResultBlock {
+  type: "tool_result";
+  tool_use_id: string;
+  content?: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+  is_error?: boolean;
+}
+
+export type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicToolUseBlock
+  | AnthropicToolResultBlock;
+
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, unknown>;
+}
+
+export interface AnthropicMessagesRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  system?: string | AnthropicTextBlock[];
+  max_tokens: number;
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+  tools?: AnthropicTool[];
+  tool_choice?: { type: "auto" | "any" | "tool" | "none"; name?: string };
+  metadata?: { user_id?: string };
+}
+
+export type AnthropicStopReason = "end_turn" | "max_tokens" | "stop_sequence" | "tool_use" | "refusal";
+
+export interface AnthropicMessagesResponse {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: Array<AnthropicTextBlock | AnthropicToolUseBlock>;
+  stop_reason: AnthropicStopReason | null;
+  stop_sequence: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+export type AnthropicStreamEvent =
+  | { type: "message_start"; message: AnthropicMessagesResponse }
+  | {
+      type: "content_block_start";
+      index: number;
+      content_block: AnthropicTextBlock | AnthropicToolUseBlock;
+    }
+  | {
+      type: "content_block_delta";
+      index: number;
+      delta:
+        | { type: "text_delta"; text: string }
+        | { type: "input_json_delta"; partial_json: string }
+        | { type: "thinking_delta"; thinking: string }
+        | { type: "signature_delta"; signature: string };
+    }
+  | { type: "content_block_stop"; index: number }
+  | {
+      type: "message_delta";
+      delta: { stop_reason: AnthropicStopReason | null; stop_sequence: string | null };
+      usage: { input_tokens?: number; output_tokens: number };
+    }
+  | { type: "message_stop" };
+
+// ============= OpenAI Responses API =============
+
+export type ResponsesInputContent =
+  | { type: "input_text"; text: string }
+  | { type: "output_text"; text: string }
+  | { type: "input_image"; image_url?: string; detail?: string };
+
+export type ResponsesInputItem =
+  | {
+      type?: "message";
+      role: "user" | "assistant" | "system" | "developer";
+      content: string | ResponsesInputContent[];
+    }
+  | { type: "function_call"; call_id: string; name: string; arguments: string }
+  | { type: "function_call_output"; call_id: string; output: string };
+
+export interface ResponsesTool {
+  type: "function";
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+}
+
+export interface ResponsesRequest {
+  model: string;
+  input: string | ResponsesInputItem[];
+  instructions?: string;
+  max_output_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stream?: boolean;
+  tools?: ResponsesTool[];
+  tool_choice?: "auto" | "none" | "required" | { type: "function"; name: string };
+  text?: { format?: { type: string } };
+  reasoning?: { effort?: string };
+  user?: string;
+}
+
+export type ResponsesOutputItem =
+  | {
+      type: "message";
+      id: string;
+      status: "in_progress" | "completed";
+      role: "assistant";
+      content: Array<{ type: "output_text"; text: string; annotations: unknown[] }>;
+    }
+  | {
+      type: "function_call";
+      id: string;
+      call_id: string;
+      name: string;
+      arguments: string;
+      status: "in_progress" | "completed";
+    };
+
+export interface ResponsesResponse {
+  id: string;
+  object: "response";
+  created_at: number;
+  status: "in_progress" | "completed" | "incomplete";
+  model: string;
+  output: ResponsesOutputItem[];
+  incomplete_details: { reason: string } | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    total_tokens: number;
+  } | null;
+}
+
+export interface ResponsesStreamEvent {
+  type: string;
+  sequence_number: number;
+  [key: string]: unknown;
+}
+
+// ============= Legacy Completions API =============
+
+export interface LegacyCompletionRequest {
+  model: string;
+  prompt: string | string[];
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stream?: boolean;
+  stop?: string | string[];
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  user?: string;
+}
+
+export interface LegacyCompletionResponse {
+  id: string;
+  object: "text_completion";
+  created: number;
+  model: string;
+  choices: Array<{
+    text: string;
+    index: number;
+    logprobs: null;
+    finish_reason: string | null;
+  }>;
+  usage?: ChatCompletionResponse["usage"];
 }
 
 // ============= Plugin Configuration =============
@@ -143,15 +641,45 @@ export interface HelixRouterConfig {
   providers: ProvidersConfig;
   routing?: RoutingThresholds & {
     defaultRoute?: RouteTier;
+    tiers?: RouteTier[]; // cheapest first, replaces DEFAULT_TIER_ORDER
+    rules?: RoutingRule[]; // replaces DEFAULT_ROUTING_RULES
   };
   cache?: {
     enabled?: boolean;
     ttlMs?: number;
   };
+  circuitBreaker?: CircuitBreakerOptions;
+  tiers?: TiersConfig;
+  budgets?: BudgetsConfig;
+  clientKeys?: ClientKeyConfig[];
+  rateLimit?: RateLimitConfig; // per caller without a key policy limit
+  evaluator?: EvaluatorConfig;
+  logging?: LoggingConfig;
+  quality?: QualityConfig;
+  sessions?: SessionConfig;
+  toolLoops?: ToolLoopConfig;
+  experiments?: ExperimentConfig[];
+  server?: {
+    port?: number; // standalone HTTP server
+  };
+}
+
+export interface LoggingConfig {
+  prompts?: boolean; // record the latest user message in routing.log, for training
 }
 
 // ============= Logging =============
 
+export interface ProviderAttempt {
+  provider: string;
+  model: string;
+  status?: number;
+  error?: string;
+  latencyMs: number;
+  tier?: RouteTier; // set when the request was escalated after a quality check
+  qualityCheck?: string; // check this attempt's answer failed
+}
+
 export interface RoutingLogEntry {
   timestamp: string;
   requestId: string;
@@ -168,6 +696,49 @@ export interface RoutingLogEntry {
   mainLatencyMs: number;
   cached: boolean;
   promptHash: string;
+  prompt?: string; // latest user message, only when logging.prompts is on
+  evaluationStrategy?: string; // configured evaluator that produced the evaluation
+  evaluationSource?: EvaluationSource;
+  attempts?: ProviderAttempt[];
+  cost?: number; // USD at the routed tier's pricing
+  costIfPro?: number; // USD had the most capable tier (PRO by default) served the same usage
+  savings?: number; // costIfPro - cost
+  reasoning?: string; // decision trace, including any escalation or demotion
+  rule?: string; // routing rule that picked the tier
+  qualityCheck?: string; // check the first answer failed, escalating the request
+  escalatedFrom?: RouteTier; // tier whose answer failed the check; tokens and cost cover both answers
+  session?: string; // key of the session the turn belongs to (see sessions.ts)
+  toolLoop?: ToolLoopTag; // set on tool-result turns of an agent loop
+  experiment?: string; // split experiment the caller is enrolled in
+  arm?: ExperimentArm;
+}
+
+// control and treatment arms of a split; primary and shadow answers of a shadow
+export type ExperimentArm = "control" | "treatment" | "primary" | "shadow";
+
+export interface ExperimentArmResult {
+  arm: ExperimentArm;
+  tier: RouteTier;
+  model: string;
+  status?: number;
+  error?: string;
+  latencyMs: number; // upstream time, excluding evaluation
+  tokensIn: number;
+  tokensOut: number;
+  cost: number; // USD
+  response?: string; // answer text, truncated
+}
+
+export interface ExperimentLogEntry {
+  timestamp: string;
+  experiment: string;
+  type: ExperimentType;
+  requestId: string;
+  userId?: string;
+  score: number;
+  taskType: TaskType;
+  prompt?: string; // latest user message, only when logging.prompts is on
+  arms: ExperimentArmResult[];
 }
 
 // ============= OpenClaw Plugin Types =============
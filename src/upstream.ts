@@ -0,0 +1,170 @@
+/**
+ * Upstream Failover
+ *
+ * Sends a request through an ordered chain of providers, moving on to
+ * the next one on connection errors, 5xx and 429 responses. Providers
+ * whose circuit breaker is open are skipped, as are those whose adapter
+ * cannot translate the request; that is the client's fault, not the
+ * provider's, so it is not held against the breaker. Each provider is reached
+ * through the adapter for its `api`, so callers always see OpenAI shapes.
+ */
+
+import type {
+  ChatCompletionRequest,
+  ProviderAttempt,
+  ProviderChain,
+  ProviderConfig,
+} from "./types.js";
+import type { ProviderHealth } from "./circuit-breaker.js";
+import { getAdapter, type UpstreamAdapter, type UpstreamRequest } from "./adapters/index.js";
+import { InvalidRequestError } from "./errors.js";
+
+/**
+ * Normalize a single provider or a provider list into a chain
+ */
+export function toProviderChain(entry: ProviderChain): ProviderConfig[] {
+  return Array.isArray(entry) ? entry : [entry];
+}
+
+/**
+ * Human-readable name for a provider, used in logs
+ */
+export function providerLabel(provider: ProviderConfig): string {
+  return provider.name ?? `${provider.baseUrl}#${provider.model}`;
+}
+
+/**
+ * Whether an upstream status should trigger a failover
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Raised when no provider in the chain produced a response
+ */
+export class FailoverError extends Error {
+  readonly attempts: ProviderAttempt[];
+
+  constructor(message: string, attempts: ProviderAttempt[]) {
+    super(message);
+    this.name = "FailoverError";
+    this.attempts = attempts;
+  }
+}
+
+export interface FailoverResult {
+  response: Response;
+  provider: ProviderConfig;
+  attempts: ProviderAttempt[];
+}
+
+/**
+ * Send a chat completion to each provider in order until one answers with
+ * a non-retryable status. If every provider fails, the last upstream
+ * response is returned; if none responded at all, a FailoverError is thrown,
+ * or an InvalidRequestError when no adapter could translate the request.
+ */
+export async function fetchWithFailover(
+  chain: ProviderConfig[],
+  buildRequest: (provider: ProviderConfig) => ChatCompletionRequest,
+  logger: { warn: (msg: string) => void },
+  health?: ProviderHealth
+): Promise<FailoverResult> {
+  if (chain.length === 0) {
+    throw new Error("No providers configured");
+  }
+
+  const attempts: ProviderAttempt[] = [];
+  let lastError: unknown = null;
+  let invalidRequests = 0;
+
+  for (let i = 0; i < chain.length; i++) {
+    const provider = chain[i];
+    const isLast = i === chain.length - 1;
+    const breaker = health?.get(provider);
+
+    let adapter: UpstreamAdapter;
+    let request: ChatCompletionRequest;
+    let upstream: UpstreamRequest;
+    try {
+      adapter = getAdapter(provider.api);
+      request = buildRequest(provider);
+      upstream = adapter.buildRequest(provider, request);
+    } catch (error) {
+      invalidRequests++;
+      lastError = error;
+      attempts.push({
+        provider: providerLabel(provider),
+        model: provider.model,
+        error: `invalid request: ${error instanceof Error ? error.message : String(error)}`,
+        latencyMs: 0,
+      });
+      continue;
+    }
+
+    if (breaker && !breaker.tryAcquire()) {
+      attempts.push({
+        provider: providerLabel(provider),
+        model: provider.model,
+        error: "circuit open",
+        latencyMs: 0,
+      });
+      lastError = new Error(`circuit open for ${providerLabel(provider)}`);
+      continue;
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const rawResponse = await fetch(upstream.url, {
+        method: "POST",
+        headers: upstream.headers,
+        body: JSON.stringify(upstream.body),
+      });
+      const response = rawResponse.ok
+        ? await adapter.toChatResponse(rawResponse, request)
+        : rawResponse;
+      const latencyMs = Date.now() - startTime;
+
+      attempts.push({
+        provider: providerLabel(provider),
+        model: provider.model,
+        status: response.status,
+        latencyMs,
+      });
+      breaker?.record(!isRetryableStatus(response.status), latencyMs);
+
+      if (!isRetryableStatus(response.status) || isLast) {
+        return { response, provider, attempts };
+      }
+
+      logger.warn(
+        `[Helix] Provider ${providerLabel(provider)} returned ${response.status}, trying next`
+      );
+      await response.body?.cancel();
+    } catch (error) {
+      const latencyMs = Date.now() - startTime;
+      breaker?.record(false, latencyMs);
+      lastError = error;
+      attempts.push({
+        provider: providerLabel(provider),
+        model: provider.model,
+        error: error instanceof Error ? error.message : String(error),
+        latencyMs,
+      });
+
+      if (!isLast) {
+        logger.warn(`[Helix] Provider ${providerLabel(provider)} failed: ${error}, trying next`);
+      }
+    }
+  }
+
+  if (invalidRequests === chain.length) {
+    throw new InvalidRequestError(lastError instanceof Error ? lastError.message : String(lastError));
+  }
+  throw new FailoverError(
+    `All ${chain.length} provider(s) failed: ${lastError instanceof Error ? lastError.message : lastError}`,
+    attempts
+  );
+}
@@ -0,0 +1,106 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  anthropicEventsToChunks,
+  anthropicToChatRequest,
+  chatResponseToAnthropic,
+} from "../src/anthropic-messages.js";
+import type { StreamChunk } from "../src/types.js";
+
+test("an Anthropic tool exchange becomes chat messages with tool calls and results", () => {
+  const request = anthropicToChatRequest({
+    model: "auto",
+    max_tokens: 256,
+    system: [{ type: "text", text: "Be brief." }, { type: "text", text: "Use tools." }],
+    messages: [
+      { role: "user", content: "Weather in Paris?" },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Checking." },
+          { type: "tool_use", id: "toolu_1", name: "weather", input: { city: "Paris" } },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "toolu_1", content: "18°C" },
+          { type: "text", text: "And tomorrow?" },
+        ],
+      },
+    ],
+    tools: [{ name: "weather", input_schema: { type: "object" } }],
+    tool_choice: { type: "any" },
+    stop_sequences: ["END"],
+  });
+
+  assert.deepEqual(request.messages, [
+    { role: "system", content: "Be brief.\nUse tools." },
+    { role: "user", content: "Weather in Paris?" },
+    {
+      role: "assistant",
+      content: "Checking.",
+      tool_calls: [{ id: "toolu_1", type: "function", function: { name: "weather", arguments: "{\"city\":\"Paris\"}" } }],
+    },
+    { role: "tool", tool_call_id: "toolu_1", content: "18°C" },
+    { role: "user", content: "And tomorrow?" },
+  ]);
+  assert.equal(request.max_tokens, 256);
+  assert.equal(request.tool_choice, "required");
+  assert.deepEqual(request.stop, ["END"]);
+  assert.deepEqual(request.tools?.[0].function, { name: "weather", description: "", parameters: { type: "object" } });
+});
+
+test("a chat answer with tool calls becomes tool_use blocks", () => {
+  const message = chatResponseToAnthropic({
+    id: "chatcmpl-1",
+    object: "chat.completion",
+    created: 0,
+    model: "mid-model",
+    choices: [{
+      index: 0,
+      message: {
+        role: "assistant",
+        content: "Checking.",
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "weather", arguments: "{\"city\":\"Paris\"}" } }],
+      },
+      finish_reason: "tool_calls",
+    }],
+    usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+  }, "claude-sonnet");
+
+  assert.equal(message.id, "msg_chatcmpl-1");
+  assert.equal(message.model, "claude-sonnet");
+  assert.deepEqual(message.content, [
+    { type: "text", text: "Checking." },
+    { type: "tool_use", id: "call_1", name: "weather", input: { city: "Paris" } },
+  ]);
+  assert.equal(message.stop_reason, "tool_use");
+  assert.deepEqual(message.usage, { input_tokens: 12, output_tokens: 4 });
+});
+
+async function* sse(events: unknown[]): AsyncGenerator<{ data: string }> {
+  for (const event of events) yield { data: JSON.stringify(event) };
+}
+
+test("thinking and signature deltas are not turned into tool calls", async () => {
+  const chunks: StreamChunk[] = [];
+  for await (const chunk of anthropicEventsToChunks(sse([
+    { type: "message_start", message: { id: "msg_1", model: "claude", usage: { input_tokens: 5, output_tokens: 0 } } },
+    { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "" } },
+    { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "Let me see" } },
+    { type: "content_block_delta", index: 0, delta: { type: "signature_delta", signature: "sig" } },
+    { type: "content_block_start", index: 1, content_block: { type: "tool_use", id: "toolu_1", name: "weather", input: {} } },
+    { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: "{\"city\":\"Paris\"}" } },
+    { type: "message_delta", delta: { stop_reason: "tool_use", stop_sequence: null }, usage: { output_tokens: 7 } },
+  ]), "fallback")) {
+    chunks.push(chunk);
+  }
+
+  const calls = chunks.flatMap((chunk) => chunk.choices[0]?.delta.tool_calls ?? []);
+  assert.deepEqual(calls, [
+    { index: 0, id: "toolu_1", type: "function", function: { name: "weather", arguments: "" } },
+    { index: 0, function: { arguments: "{\"city\":\"Paris\"}" } },
+  ]);
+  assert.ok(chunks.every((chunk) => !chunk.choices[0]?.delta.content));
+});
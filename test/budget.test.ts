@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BudgetTracker } from "../src/budget.js";
+
+function withStateDir(run: (statePath: string, dir: string) => void | Promise<void>): Promise<void> {
+  const dir = mkdtempSync(join(tmpdir(), "helix-budget-"));
+  return Promise.resolve(run(join(dir, "budget.json"), dir)).finally(() => rmSync(dir, { recursive: true, force: true }));
+}
+
+const logger = { warn: (msg: string) => assert.fail(msg) };
+
+test("recorded spend is written in one batch, off the request path", () =>
+  withStateDir(async (statePath, dir) => {
+    const budget = new BudgetTracker({ global: { daily: 10 } }, logger, statePath);
+    budget.record("mid", 0.25, "alice");
+    budget.record("pro", 0.5, "alice");
+    assert.equal(existsSync(statePath), false);
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    const saved = JSON.parse(readFileSync(statePath, "utf-8"));
+    assert.equal(saved.daily.global, 0.75);
+    assert.deepEqual(saved.daily.users, { alice: 0.75 });
+    assert.deepEqual(readdirSync(dir), ["budget.json"]);
+  }));
+
+test("flush writes pending spend and a new tracker picks it up", () =>
+  withStateDir((statePath) => {
+    const budget = new BudgetTracker({ global: { daily: 1 } }, logger, statePath);
+    budget.record("low", 0.4);
+    budget.flush();
+
+    const restarted = new BudgetTracker({ global: { daily: 1 } }, logger, statePath);
+    assert.equal(restarted.getStatus().usage[0].spent, 0.4);
+  }));
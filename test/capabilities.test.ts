@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { requiredCapabilities, tierCapabilities } from "../src/capabilities.js";
+import type { ChatCompletionRequest } from "../src/types.js";
+
+const ask: ChatCompletionRequest = { model: "auto", messages: [{ role: "user", content: "hi" }] };
+
+test("a request's needs are read from its images, tools, schema and reasoning effort", () => {
+  assert.deepEqual(requiredCapabilities(ask), []);
+  assert.deepEqual(requiredCapabilities({
+    ...ask,
+    messages: [{ role: "user", content: [{ type: "image_url", image_url: { url: "https://example.com/a.png" } }] }],
+  }), ["vision"]);
+  assert.deepEqual(requiredCapabilities({
+    ...ask,
+    messages: [...ask.messages, { role: "tool", tool_call_id: "call_1", content: "18°C" }],
+  }), ["tools"]);
+  assert.deepEqual(requiredCapabilities({
+    ...ask,
+    response_format: { type: "json_schema" },
+    reasoning_effort: "high",
+  }), ["json_schema", "reasoning"]);
+});
+
+test("tier settings override the default capabilities", () => {
+  assert.deepEqual(tierCapabilities({}, "low"), ["tools"]);
+  assert.deepEqual(tierCapabilities({ low: { input: ["text", "image"], tools: false } }, "low"), ["vision"]);
+  // Named tiers default to MID's capabilities
+  assert.deepEqual(tierCapabilities({}, "nano"), tierCapabilities({}, "mid"));
+});
@@ -0,0 +1,124 @@
+import { mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { CircuitBreaker, ProviderHealth } from "../src/circuit-breaker.js";
+import { HelixServer } from "../src/server.js";
+import { fetchWithFailover } from "../src/upstream.js";
+import type { ProviderConfig } from "../src/types.js";
+import { chatCompletion, freePort, quietLogger, sendJson, startFakeUpstream } from "./fake-upstream.js";
+
+test("a breaker opens on failures, probes after the cool-down and closes on success", () => {
+  mock.timers.enable({ apis: ["Date"] });
+  try {
+    const breaker = new CircuitBreaker({ minRequests: 4, failureRateThreshold: 0.5, openDurationMs: 1000 });
+    breaker.record(true, 10);
+    breaker.record(true, 10);
+    breaker.record(false, 10);
+    assert.equal(breaker.getState(), "closed");
+    breaker.record(false, 10);
+    assert.equal(breaker.getState(), "open");
+    assert.equal(breaker.tryAcquire(), false);
+
+    mock.timers.tick(1000);
+    assert.equal(breaker.getState(), "half_open");
+    assert.equal(breaker.tryAcquire(), true);
+    // Only one probe at a time
+    assert.equal(breaker.tryAcquire(), false);
+    breaker.record(true, 10);
+    assert.equal(breaker.getState(), "closed");
+    assert.equal(breaker.getFailureRate(), 0);
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test("a failed probe opens the breaker again", () => {
+  mock.timers.enable({ apis: ["Date"] });
+  try {
+    const breaker = new CircuitBreaker({ minRequests: 1, openDurationMs: 1000 });
+    breaker.record(false, 10);
+    mock.timers.tick(1000);
+    assert.equal(breaker.tryAcquire(), true);
+    breaker.record(false, 10);
+    assert.equal(breaker.getState(), "open");
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test("slow successes count as failures", () => {
+  const breaker = new CircuitBreaker({ minRequests: 2, slowCallMs: 100 });
+  breaker.record(true, 500);
+  breaker.record(true, 500);
+  assert.equal(breaker.getState(), "open");
+});
+
+test("failover skips a provider whose breaker is open", async () => {
+  const upstream = await startFakeUpstream(({ body }, res) => sendJson(res, 200, chatCompletion(body.model)));
+  try {
+    const chain: ProviderConfig[] = [
+      { baseUrl: upstream.baseUrl, apiKey: "", model: "tripped" },
+      { baseUrl: upstream.baseUrl, apiKey: "", model: "healthy" },
+    ];
+    const health = new ProviderHealth({ minRequests: 1 });
+    health.get(chain[0]).record(false, 10);
+
+    const { provider, attempts } = await fetchWithFailover(
+      chain,
+      (candidate) => ({ model: candidate.model, messages: [{ role: "user", content: "hi" }] }),
+      quietLogger,
+      health
+    );
+
+    assert.equal(provider.model, "healthy");
+    assert.equal(attempts[0].error, "circuit open");
+    assert.deepEqual(upstream.received.map(({ body }) => body.model), ["healthy"]);
+  } finally {
+    await upstream.close();
+  }
+});
+
+test("/health reports a tripped tier and routing diverts around it", async () => {
+  const upstream = await startFakeUpstream(({ body }, res) => sendJson(res, 200, chatCompletion(body.model)));
+  const port = await freePort();
+  const provider = (model: string, baseUrl = upstream.baseUrl) => ({ baseUrl, apiKey: "", model });
+  const server = new HelixServer({
+    port,
+    config: {
+      providers: {
+        pro: provider("pro-model"),
+        mid: provider("mid-model"),
+        low: provider("low-model", `http://127.0.0.1:${await freePort()}/v1`),
+      },
+      evaluator: { strategy: "heuristic" },
+      cache: { enabled: false },
+      circuitBreaker: { minRequests: 1 },
+    },
+    logger: quietLogger,
+  });
+  await server.start();
+  try {
+    const ask = () => fetch(`http://127.0.0.1:${port}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "auto", messages: [{ role: "user", content: "hi" }] }),
+    });
+
+    // LOW refuses the connection; the request falls back and trips LOW's breaker
+    assert.equal((await ask()).status, 200);
+
+    const health = await fetch(`http://127.0.0.1:${port}/health`);
+    const body = (await health.json()) as any;
+    assert.equal(health.status, 200);
+    assert.equal(body.status, "degraded");
+    assert.equal(body.tiers.low.available, false);
+    assert.equal(body.tiers.low.providers[0].state, "open");
+    assert.equal(body.tiers.mid.available, true);
+
+    const diverted = await ask();
+    assert.equal(diverted.headers.get("x-helix-tier"), "mid");
+    assert.deepEqual(upstream.received.map(({ body }) => body.model), ["mid-model", "mid-model"]);
+  } finally {
+    await server.stop();
+    await upstream.close();
+  }
+});
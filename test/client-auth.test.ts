@@ -0,0 +1,89 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { ClientAuthenticator } from "../src/client-auth.js";
+import { AuthenticationError } from "../src/errors.js";
+import { HelixServer } from "../src/server.js";
+import { chatCompletion, freePort, quietLogger, sendJson, startFakeUpstream, type FakeUpstream } from "./fake-upstream.js";
+
+const keys = [
+  { key: "sk-team", label: "team" },
+  { key: "sk-intern", label: "intern", maxTier: "mid" },
+];
+
+test("a key is read from a Bearer token or x-api-key and resolved to its label and policy", () => {
+  const auth = new ClientAuthenticator(keys);
+
+  assert.deepEqual(auth.authenticate({ authorization: "Bearer sk-team" }), { userId: "team", policy: {} });
+  assert.deepEqual(auth.authenticate({ "x-api-key": "sk-intern" }), { userId: "intern", policy: { maxTier: "mid" } });
+  assert.throws(() => auth.authenticate({}), AuthenticationError);
+  assert.throws(() => auth.authenticate({ authorization: "Bearer sk-unknown" }), AuthenticationError);
+});
+
+test("without keys every request is let through", () => {
+  assert.deepEqual(new ClientAuthenticator().authenticate({}), {});
+});
+
+let upstream: FakeUpstream;
+let server: HelixServer;
+let baseUrl: string;
+
+before(async () => {
+  upstream = await startFakeUpstream(({ body }, res) => sendJson(res, 200, chatCompletion(body.model)));
+  const provider = (model: string) => ({ baseUrl: upstream.baseUrl, apiKey: "", model });
+  const port = await freePort();
+  server = new HelixServer({
+    port,
+    config: {
+      providers: { pro: provider("pro-model"), mid: provider("mid-model"), low: provider("low-model") },
+      evaluator: { strategy: "heuristic" },
+      cache: { enabled: false },
+    },
+    clientKeys: keys,
+    logger: quietLogger,
+  });
+  await server.start();
+  baseUrl = `http://127.0.0.1:${port}`;
+});
+
+after(async () => {
+  await server.stop();
+  await upstream.close();
+});
+
+function post(path: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+const chat = { model: "auto", messages: [{ role: "user", content: "hi" }] };
+
+test("the server rejects requests without a valid key in each API's error shape", async () => {
+  const openai = await post("/v1/chat/completions", chat);
+  assert.equal(openai.status, 401);
+  assert.equal(openai.headers.get("www-authenticate"), "Bearer");
+  assert.equal(((await openai.json()) as any).error.type, "authentication_error");
+
+  const anthropic = await post("/v1/messages", { ...chat, max_tokens: 16 }, { "x-api-key": "sk-wrong" });
+  assert.equal(anthropic.status, 401);
+  const body = (await anthropic.json()) as any;
+  assert.equal(body.type, "error");
+  assert.equal(body.error.type, "authentication_error");
+
+  assert.equal((await fetch(`${baseUrl}/health`)).status, 200);
+  assert.equal(upstream.received.length, 0);
+});
+
+test("a valid key is served and its policy limits explicit tiers", async () => {
+  assert.equal((await post("/v1/chat/completions", chat, { authorization: "Bearer sk-team" })).status, 200);
+
+  const denied = await post(
+    "/v1/chat/completions",
+    { ...chat, model: "helix-router/pro" },
+    { authorization: "Bearer sk-intern" }
+  );
+  assert.equal(denied.status, 403);
+  assert.equal(((await denied.json()) as any).error.type, "permission_error");
+});
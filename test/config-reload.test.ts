@@ -0,0 +1,99 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ConfigWatcher } from "../src/config-watcher.js";
+import { ConfigValidationError, describeChanges, describeErrors, validateConfig } from "../src/config-validation.js";
+import { HelixServer } from "../src/server.js";
+import type { HelixRouterConfig } from "../src/types.js";
+import { chatCompletion, freePort, quietLogger, sendJson, startFakeUpstream } from "./fake-upstream.js";
+
+function configFor(baseUrl: string): HelixRouterConfig {
+  const provider = (model: string) => ({ baseUrl, apiKey: "sk-secret", model });
+  return {
+    providers: { pro: provider("pro-model"), mid: provider("mid-model"), low: provider("low-model") },
+    evaluator: { strategy: "heuristic" },
+    cache: { enabled: false },
+  };
+}
+
+test("every problem in a configuration is reported with its path", () => {
+  const config = configFor("http://localhost/v1");
+  const rejected = {
+    ...config,
+    providers: { ...config.providers, mid: { baseUrl: 42, model: "mid-model" } },
+    routing: { defaultRoute: "ultra" },
+    clientKeys: [{ key: "sk-a", label: "a" }, { key: "sk-a", label: "b" }],
+  };
+
+  const errors = validateConfig(rejected);
+
+  assert.deepEqual(errors.map((error) => error.path.join(".")), [
+    "providers.mid.baseUrl",
+    "routing.defaultRoute",
+    "clientKeys.1.key",
+  ]);
+  assert.deepEqual(describeErrors(errors, config, rejected).slice(0, 2), [
+    "providers.mid.baseUrl: expected a string (running: \"http://localhost/v1\", rejected: 42)",
+    "routing.defaultRoute: expected one of low, mid, pro (running: unset, rejected: \"ultra\")",
+  ]);
+  assert.deepEqual(validateConfig(config), []);
+});
+
+test("config changes are listed leaf by leaf with secrets redacted", () => {
+  const previous = configFor("http://a/v1");
+  const next = configFor("http://a/v1");
+  next.providers.low = { baseUrl: "http://b/v1", apiKey: "sk-rotated", model: "low-model" };
+
+  assert.deepEqual(describeChanges(previous, next), [
+    "providers.low.baseUrl: \"http://a/v1\" -> \"http://b/v1\"",
+    "providers.low.apiKey: changed",
+  ]);
+});
+
+test("a rejected reload keeps the running config and a valid one takes effect", async () => {
+  const upstream = await startFakeUpstream(({ body }, res) => sendJson(res, 200, chatCompletion(body.model)));
+  const port = await freePort();
+  const config = configFor(upstream.baseUrl);
+  const server = new HelixServer({ port, config, clientKeys: [{ key: "sk-old", label: "old" }], logger: quietLogger });
+  await server.start();
+  const ask = (key: string) => fetch(`http://127.0.0.1:${port}/v1/chat/completions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${key}` },
+    body: JSON.stringify({ model: "auto", messages: [{ role: "user", content: "hi" }] }),
+  });
+  try {
+    assert.throws(
+      () => server.reload({ ...config, routing: { proThreshold: 30, midThreshold: 60 } }, [{ key: "sk-new", label: "new" }]),
+      ConfigValidationError
+    );
+    assert.equal((await ask("sk-old")).status, 200);
+    assert.equal((await ask("sk-new")).status, 401);
+
+    server.reload(config, [{ key: "sk-new", label: "new" }]);
+    assert.equal((await ask("sk-old")).status, 401);
+    assert.equal((await ask("sk-new")).status, 200);
+  } finally {
+    await server.stop();
+    await upstream.close();
+  }
+});
+
+test("the watcher calls back once per burst of writes to its file", async () => {
+  const directory = mkdtempSync(join(tmpdir(), "helix-watch-"));
+  const path = join(directory, "config.json");
+  let changes = 0;
+  const watcher = new ConfigWatcher(path, () => changes++, 50);
+  watcher.start();
+  try {
+    writeFileSync(path, "{}");
+    writeFileSync(path, "{\"a\":1}");
+    writeFileSync(join(directory, "other.json"), "{}");
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    assert.equal(changes, 1);
+  } finally {
+    watcher.stop();
+    rmSync(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadConfig, mergeConfig } from "../src/config.js";
+
+function withConfigFile(config: unknown, run: (file: string) => void): void {
+  const dir = mkdtempSync(join(tmpdir(), "helix-config-"));
+  try {
+    const file = join(dir, "config.json");
+    writeFileSync(file, JSON.stringify(config));
+    run(file);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+const providers = {
+  pro: { baseUrl: "https://pro.example/v1", model: "pro-model" },
+  mid: { baseUrl: "https://mid.example/v1", model: "mid-model" },
+};
+
+test("an env key patches the first entry of a failover list from the file", () => {
+  const low = [
+    { baseUrl: "https://primary.example/v1", model: "low-primary" },
+    { baseUrl: "https://backup.example/v1", model: "low-backup", apiKey: "backup-key" },
+  ];
+  withConfigFile({ providers: { ...providers, low } }, (file) => {
+    const config = loadConfig({ file, env: { HELIX_LOW_KEY: "primary-key" } });
+    assert.deepEqual(config.providers.low, [
+      { ...low[0], apiKey: "primary-key" },
+      low[1],
+    ]);
+  });
+});
+
+test("an env key patches a single provider from the file", () => {
+  const low = { baseUrl: "https://low.example/v1", model: "low-model" };
+  withConfigFile({ providers: { ...providers, low } }, (file) => {
+    const config = loadConfig({ file, env: { HELIX_LOW_KEY: "low-key", HELIX_MID_MODEL: "mid-override" } });
+    assert.deepEqual(config.providers.low, { ...low, apiKey: "low-key" });
+    assert.deepEqual(config.providers.mid, { ...providers.mid, apiKey: "", model: "mid-override" });
+  });
+});
+
+test("an empty env key leaves the file's key alone", () => {
+  const pro = { ...providers.pro, apiKey: "file-key" };
+  withConfigFile({ providers: { ...providers, pro } }, (file) => {
+    const config = loadConfig({ file, env: { HELIX_PRO_KEY: " " } });
+    assert.deepEqual(config.providers.pro, pro);
+  });
+});
+
+test("a failover list replaces the whole chain below it", () => {
+  const merged = mergeConfig(
+    { providers: { low: [{ baseUrl: "https://a.example", apiKey: "a", model: "a" }, { baseUrl: "https://b.example", apiKey: "b", model: "b" }] } },
+    { providers: { low: [{ baseUrl: "https://c.example", apiKey: "c", model: "c" }] } }
+  );
+  assert.deepEqual(merged.providers?.low, [{ baseUrl: "https://c.example", apiKey: "c", model: "c" }]);
+});
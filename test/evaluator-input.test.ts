@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ComplexityEvaluator, defaultEvaluation } from "../src/complexity-evaluator.js";
+import { buildEvaluatorInput, formatEvaluatorPrompt } from "../src/evaluator-input.js";
+import { countTextTokens } from "../src/tokenizer.js";
+import type { ChatMessage } from "../src/types.js";
+import { chatCompletion, quietLogger, sendJson, startFakeUpstream } from "./fake-upstream.js";
+
+function conversation(turns: number, words: number): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  for (let turn = 0; turn < turns; turn++) {
+    messages.push({ role: "user", content: `question ${turn} ${"word ".repeat(words)}` });
+    messages.push({ role: "assistant", content: `answer ${turn} ${"word ".repeat(words)}` });
+  }
+  return messages;
+}
+
+test("a long conversation is cut to the budget, keeping the newest context", () => {
+  const messages = [...conversation(50, 100), { role: "user" as const, content: "So which one?" }];
+
+  const input = buildEvaluatorInput(messages, 500);
+  const used = countTextTokens(input.request) + input.context.reduce((sum, line) => sum + countTextTokens(line), 0);
+
+  assert.equal(input.request, "So which one?");
+  assert.ok(used <= 500, `used ${used} tokens`);
+  assert.match(input.context.at(-1)!, /^assistant: answer 49/);
+  assert.ok(input.hints.omittedMessages > 0);
+  assert.equal(input.hints.omittedMessages + input.context.length, 100);
+  assert.equal(input.hints.turns, 101);
+  assert.match(formatEvaluatorPrompt(input), new RegExp(`\\[${input.hints.omittedMessages} earlier messages omitted\\]`));
+});
+
+test("one large earlier message takes at most a quarter of the budget", () => {
+  const messages: ChatMessage[] = [
+    { role: "user", content: "word ".repeat(5000) },
+    { role: "assistant", content: "Done." },
+    { role: "user", content: "Thanks, and now?" },
+  ];
+
+  const input = buildEvaluatorInput(messages, 400);
+
+  assert.equal(input.context.length, 2);
+  assert.ok(input.context[0].endsWith("…"));
+  assert.ok(countTextTokens(input.context[0]) <= 100);
+  assert.equal(input.context[1], "assistant: Done.");
+});
+
+test("the latest user message is kept whole even over budget", () => {
+  const latest = "word ".repeat(1000);
+
+  const input = buildEvaluatorInput([{ role: "assistant", content: "Hello" }, { role: "user", content: latest }], 50);
+
+  assert.equal(input.request, latest);
+  assert.deepEqual(input.context, []);
+  assert.equal(input.hints.omittedMessages, 1);
+});
+
+test("images and tool payloads become placeholders and are counted as hints", () => {
+  const messages: ChatMessage[] = [
+    { role: "user", content: [{ type: "text", text: "What is this?" }, { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } }] },
+    {
+      role: "assistant",
+      content: null,
+      tool_calls: [{ id: "call_1", type: "function", function: { name: "lookup", arguments: "{\"q\":\"x\"}" } }],
+    },
+    { role: "tool", tool_call_id: "call_1", content: "a very long tool result" },
+    { role: "user", content: "And?" },
+  ];
+
+  const input = buildEvaluatorInput(messages);
+
+  assert.deepEqual(input.context, [
+    "user: What is this? [image]",
+    "assistant: [called tool lookup]",
+    "tool: [tool result, 23 chars]",
+  ]);
+  assert.equal(input.hints.attachments, 1);
+  assert.equal(input.hints.toolCalls, 1);
+  assert.equal(input.hints.toolResults, 1);
+  assert.equal(input.hints.omittedMessages, 0);
+});
+
+test("the LOW model is sent only the budgeted excerpt", async () => {
+  const upstream = await startFakeUpstream(({ body }, res) =>
+    sendJson(res, 200, chatCompletion(body.model, JSON.stringify(defaultEvaluation())))
+  );
+  try {
+    const low = { baseUrl: upstream.baseUrl, apiKey: "", model: "low-model" };
+    const messages = [...conversation(50, 100), { role: "user" as const, content: "Compare the trade-offs above." }];
+
+    // Confidence above 0.95 always asks the LOW model
+    await new ComplexityEvaluator(low, quietLogger, undefined, undefined, 1, 300).evaluate(messages);
+
+    const prompt = upstream.received[0].body.messages[1].content as string;
+    assert.match(prompt, /Latest User Request:\nCompare the trade-offs above\./);
+    assert.ok(!prompt.includes("question 0 "));
+    assert.ok(countTextTokens(prompt) < 600, `prompt is ${countTextTokens(prompt)} tokens`);
+  } finally {
+    await upstream.close();
+  }
+});
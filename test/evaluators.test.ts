@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { defaultEvaluation, hashPrompt } from "../src/complexity-evaluator.js";
+import { EnsembleEvaluator } from "../src/evaluators/ensemble.js";
+import { HeuristicEvaluator } from "../src/evaluators/heuristic.js";
+import { createEvaluator, registerEvaluator, type Evaluator, type EvaluatorContext } from "../src/evaluators/index.js";
+import { HelixProxy } from "../src/proxy.js";
+import { chatCompletion, quietLogger, sendJson, startFakeUpstream } from "./fake-upstream.js";
+
+const failing: Evaluator = {
+  name: "failing",
+  evaluate: async () => {
+    throw new Error("evaluator crashed");
+  },
+};
+
+test("an ensemble votes over the members that answered when one throws", async () => {
+  const messages = [{ role: "user" as const, content: "Write a haiku about autumn." }];
+  const ensemble = new EnsembleEvaluator([
+    { evaluator: new HeuristicEvaluator(), weight: 1 },
+    { evaluator: failing, weight: 1 },
+  ]);
+
+  const result = await ensemble.evaluate(messages);
+  const alone = await new HeuristicEvaluator().evaluate(messages);
+
+  assert.equal(result.source, "ensemble");
+  assert.equal(result.evaluation.complexity_score, alone.evaluation.complexity_score);
+});
+
+test("an ensemble whose members all throw returns the default evaluation", async () => {
+  const result = await new EnsembleEvaluator([{ evaluator: failing, weight: 1 }]).evaluate([{ role: "user", content: "hi" }]);
+
+  assert.equal(result.source, "default");
+  assert.equal(result.latencyMs, 0);
+});
+
+const context: EvaluatorContext = {
+  lowProvider: { baseUrl: "http://127.0.0.1:1/v1", apiKey: "", model: "low-model" },
+  logger: quietLogger,
+  cacheTtlMs: 0,
+  config: {},
+};
+
+test("strategies are built by name, the LLM evaluator by default", () => {
+  assert.equal(createEvaluator(undefined, context).name, "llm");
+  assert.equal(createEvaluator("heuristic", context).name, "heuristic");
+  assert.throws(() => createEvaluator("psychic", context), /Unknown evaluator strategy: psychic/);
+  assert.throws(
+    () => createEvaluator("ensemble", { ...context, config: { ensemble: { members: [{ strategy: "ensemble" }] } } }),
+    /cannot contain another ensemble/
+  );
+});
+
+test("a registered strategy routes the proxy's requests", async () => {
+  registerEvaluator("always-pro", () => ({
+    name: "always-pro",
+    evaluate: async (messages) => ({
+      evaluation: { ...defaultEvaluation(), complexity_score: 95, confidence: 1 },
+      latencyMs: 0,
+      cached: false,
+      promptHash: hashPrompt(messages),
+      strategy: "always-pro",
+      source: "heuristic",
+    }),
+  }));
+  const upstream = await startFakeUpstream(({ body }, res) => sendJson(res, 200, chatCompletion(body.model)));
+  try {
+    const provider = (model: string) => ({ baseUrl: upstream.baseUrl, apiKey: "", model });
+    const proxy = new HelixProxy(
+      {
+        providers: { pro: provider("pro-model"), mid: provider("mid-model"), low: provider("low-model") },
+        evaluator: { strategy: "always-pro" },
+        cache: { enabled: false },
+      },
+      quietLogger
+    );
+
+    const response = await proxy.handleRequest({ model: "auto", messages: [{ role: "user", content: "hi" }] });
+
+    assert.equal(response.headers.get("x-helix-tier"), "pro");
+    assert.deepEqual(upstream.received.map(({ body }) => body.model), ["pro-model"]);
+  } finally {
+    await upstream.close();
+  }
+});
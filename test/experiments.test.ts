@@ -0,0 +1,74 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "node:timers/promises";
+import { ExperimentTracker, findExperimentErrors, treatmentRouting } from "../src/experiments.js";
+import { HelixProxy } from "../src/proxy.js";
+import type { TiersConfig } from "../src/types.js";
+import { chatCompletion, quietLogger, sendJson, startFakeUpstream, type FakeUpstream } from "./fake-upstream.js";
+
+function proxyFor(upstream: FakeUpstream, tiers: TiersConfig = {}): HelixProxy {
+  const provider = (model: string) => ({ baseUrl: upstream.baseUrl, apiKey: "", model });
+  return new HelixProxy(
+    {
+      providers: { pro: provider("pro-model"), mid: provider("mid-model"), low: provider("low-model") },
+      evaluator: { strategy: "heuristic" },
+      cache: { enabled: false },
+      tiers,
+      experiments: [{ name: "pro-shadow", type: "shadow", percent: 100, tier: "pro" }],
+    },
+    quietLogger
+  );
+}
+
+async function models(upstream: FakeUpstream, tiers?: TiersConfig): Promise<string[]> {
+  const response = await proxyFor(upstream, tiers).handleRequest({ model: "auto", messages: [{ role: "user", content: "hi" }] });
+  assert.equal(response.status, 200);
+  // The shadow call runs in the background
+  await sleep(200);
+  return upstream.received.map(({ body }) => body.model).sort();
+}
+
+test("a shadow experiment also sends the request to its tier", async () => {
+  const upstream = await startFakeUpstream(({ body }, res) => sendJson(res, 200, chatCompletion(body.model)));
+  try {
+    assert.deepEqual(await models(upstream), ["low-model", "pro-model"]);
+  } finally {
+    await upstream.close();
+  }
+});
+
+test("a shadow tier the request does not fit is skipped", async () => {
+  const upstream = await startFakeUpstream(({ body }, res) => sendJson(res, 200, chatCompletion(body.model)));
+  try {
+    assert.deepEqual(await models(upstream, { pro: { contextWindow: 1 } }), ["low-model"]);
+  } finally {
+    await upstream.close();
+  }
+});
+
+test("a split experiment keeps each caller in one arm and splits callers evenly", () => {
+  const tracker = new ExperimentTracker(
+    [{ name: "cheaper-mid", type: "split", percent: 100, thresholds: { midThreshold: 45 } }],
+    quietLogger
+  );
+
+  const arms = Array.from({ length: 200 }, (_, user) => tracker.assignSplit(`user-${user}`)?.arm);
+  const treated = arms.filter((arm) => arm === "treatment").length;
+
+  assert.ok(arms.every(Boolean));
+  assert.ok(treated > 70 && treated < 130, `${treated} of 200 treated`);
+  assert.equal(tracker.assignSplit("user-7")?.arm, arms[7]);
+});
+
+test("a split's treatment arm moves only the bands it names", () => {
+  const experiment = { name: "cheaper-mid", type: "split" as const, percent: 50, minScores: { mid: 45 } };
+
+  assert.deepEqual(treatmentRouting(experiment, { mid: { minScore: 35, label: "Mid" } }, { proThreshold: 80 }), {
+    tiers: { mid: { minScore: 45, label: "Mid" } },
+    thresholds: { proThreshold: 80 },
+  });
+  assert.deepEqual(
+    findExperimentErrors([{ ...experiment, minScores: { mid: 90 } }], ["low", "mid", "pro"], {}, {}).map((error) => error.message),
+    ["treatment arm: tiers.pro.minScore must be above mid's minScore (90)"]
+  );
+});
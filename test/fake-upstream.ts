@@ -0,0 +1,101 @@
+/**
+ * An OpenAI-compatible upstream on a free local port, recording what it
+ * was sent
+ */
+
+import { createServer, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface ReceivedRequest {
+  path: string;
+  body: any;
+}
+
+export interface FakeUpstream {
+  baseUrl: string;
+  received: ReceivedRequest[];
+  close(): Promise<void>;
+}
+
+export async function startFakeUpstream(
+  respond: (request: ReceivedRequest, res: ServerResponse) => void
+): Promise<FakeUpstream> {
+  const received: ReceivedRequest[] = [];
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const request = { path: req.url ?? "", body: body ? JSON.parse(body) : null };
+      received.push(request);
+      respond(request, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    received,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * A free local port for a server under test
+ */
+export async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * A chat completion answered by `model`
+ */
+export function chatCompletion(model: string, content = `answer from ${model}`) {
+  return {
+    id: "chatcmpl-test",
+    object: "chat.completion",
+    created: 1700000000,
+    model,
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+    usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+  };
+}
+
+export const quietLogger = {
+  info: (_msg: string) => {},
+  warn: (_msg: string) => {},
+  error: (_msg: string) => {},
+};
+
+/**
+ * Stream `parts` as chat completion chunks answered by `model`, ending with
+ * a usage chunk when `include_usage` was asked for
+ */
+export function sendChatStream(res: ServerResponse, model: string, parts: string[], includeUsage = false): void {
+  res.writeHead(200, { "Content-Type": "text/event-stream" });
+  const chunk = (delta: Record<string, unknown>, finishReason: string | null) => ({
+    id: "chatcmpl-test",
+    object: "chat.completion.chunk",
+    created: 1700000000,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+  res.write(`data: ${JSON.stringify(chunk({ role: "assistant", content: "" }, null))}\n\n`);
+  for (const part of parts) {
+    res.write(`data: ${JSON.stringify(chunk({ content: part }, null))}\n\n`);
+  }
+  res.write(`data: ${JSON.stringify(chunk({}, "stop"))}\n\n`);
+  if (includeUsage) {
+    const usage = { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 };
+    res.write(`data: ${JSON.stringify({ ...chunk({}, null), choices: [], usage })}\n\n`);
+  }
+  res.end("data: [DONE]\n\n");
+}
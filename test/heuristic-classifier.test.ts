@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ComplexityEvaluator } from "../src/complexity-evaluator.js";
+import { classifyHeuristically } from "../src/heuristic-classifier.js";
+import type { ChatMessage } from "../src/types.js";
+import { chatCompletion, quietLogger, sendJson, startFakeUpstream } from "./fake-upstream.js";
+
+const ask = (content: string): ChatMessage[] => [{ role: "user", content }];
+
+test("small talk is classified as trivial with high confidence", () => {
+  const guess = classifyHeuristically(ask("thanks!"));
+
+  assert.equal(guess.reasoning_depth, "low");
+  assert.equal(guess.required_accuracy, "low");
+  assert.equal(guess.confidence, 0.95);
+});
+
+test("task keywords and code pick the task type and accuracy", () => {
+  const coding = classifyHeuristically(ask("Fix this bug in my TypeScript function:\n```ts\nfunction add(a, b) { return a - b; }\n```"));
+  assert.equal(coding.task_type, "coding");
+  assert.equal(coding.required_accuracy, "high");
+
+  const design = classifyHeuristically(ask("Design a distributed system architecture for a payments platform and discuss the trade-offs"));
+  assert.equal(design.task_type, "architecture_design");
+  assert.equal(design.reasoning_depth, "high");
+});
+
+test("a confident heuristic skips the LOW-model evaluation call", async () => {
+  const evaluation = {
+    reasoning_depth: "low",
+    task_type: "other",
+    constraint_level: "low",
+    required_accuracy: "low",
+    estimated_token_size: "small",
+    complexity_score: 10,
+    confidence: 0.9,
+  };
+  const upstream = await startFakeUpstream(({ body }, res) =>
+    sendJson(res, 200, chatCompletion(body.model, JSON.stringify(evaluation)))
+  );
+  try {
+    const low = { baseUrl: upstream.baseUrl, apiKey: "", model: "low-model" };
+
+    const skipped = await new ComplexityEvaluator(low, quietLogger).evaluate(ask("hi"));
+    assert.equal(skipped.source, "heuristic");
+    assert.equal(upstream.received.length, 0);
+
+    // Above 0.95 the heuristic is never trusted
+    const asked = await new ComplexityEvaluator(low, quietLogger, undefined, undefined, 1).evaluate(ask("hi"));
+    assert.notEqual(asked.source, "heuristic");
+    assert.equal(upstream.received.length, 1);
+  } finally {
+    await upstream.close();
+  }
+});
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { LearnedEvaluator } from "../src/evaluators/learned.js";
+import { HeuristicEvaluator } from "../src/evaluators/heuristic.js";
+import { readTrainingSamples } from "../src/learned-model.js";
+import { scoreBands } from "../src/tiers.js";
+
+function withLabels(lines: string[], run: (labelsFile: string, logFile: string) => void): void {
+  const dir = mkdtempSync(join(tmpdir(), "helix-labels-"));
+  try {
+    const labelsFile = join(dir, "labels.jsonl");
+    writeFileSync(labelsFile, lines.join("\n"));
+    run(labelsFile, join(dir, "routing.log"));
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test("tier labels score the middle of the tier's band on a custom ladder", () => {
+  const bands = scoreBands(["nano", "small", "large"], { small: { minScore: 30 }, large: { minScore: 70 } }, {});
+  const labels = [
+    JSON.stringify({ prompt: "a", tier: "nano" }),
+    JSON.stringify({ prompt: "b", tier: "small" }),
+    JSON.stringify({ prompt: "c", tier: "large" }),
+    JSON.stringify({ prompt: "d", tier: "ultra" }),
+  ];
+  withLabels(labels, (labelsFile, logFile) => {
+    const scores = readTrainingSamples(logFile, labelsFile, bands).map(({ prompt, score }) => [prompt, score]);
+    assert.deepEqual(scores, [["a", 15], ["b", 50], ["c", 85], ["d", undefined]]);
+  });
+});
+
+test("malformed label lines are skipped", () => {
+  const labels = [
+    JSON.stringify({ prompt: "first", task_type: "coding" }),
+    "{not json",
+    JSON.stringify({ prompt: "second", tier: "pro" }),
+  ];
+  withLabels(labels, (labelsFile, logFile) => {
+    assert.deepEqual(readTrainingSamples(logFile, labelsFile), [
+      { prompt: "first", taskType: "coding", score: undefined },
+      { prompt: "second", taskType: undefined, score: 88 },
+    ]);
+  });
+});
+
+test("an unreadable model file falls back instead of throwing", async () => {
+  const dir = mkdtempSync(join(tmpdir(), "helix-model-"));
+  try {
+    const warnings: string[] = [];
+    const logger = { info: () => {}, warn: (msg: string) => warnings.push(msg) };
+    for (const content of ["{not json", JSON.stringify({ version: -1 })]) {
+      const modelFile = join(dir, "router-model.json");
+      writeFileSync(modelFile, content);
+      warnings.length = 0;
+
+      const evaluator = new LearnedEvaluator({ modelFile }, logger, new HeuristicEvaluator());
+      const result = await evaluator.evaluate([{ role: "user", content: "hi" }]);
+
+      assert.equal(warnings.length, 1);
+      assert.equal(result.source, "heuristic");
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
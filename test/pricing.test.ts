@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { HelixProxy } from "../src/proxy.js";
+import { LOG_FILE } from "../src/logger.js";
+import { computeCost, formatUsd } from "../src/pricing.js";
+import type { RoutingLogEntry } from "../src/types.js";
+import { chatCompletion, quietLogger, sendJson, startFakeUpstream } from "./fake-upstream.js";
+
+const tiers = {
+  pro: { cost: { input: 15, output: 75 } },
+  mid: { cost: { input: 3, output: 15 } },
+  low: { cost: { input: 0.25, output: 1.25 } },
+};
+
+test("cost is priced per tier and savings are measured against the top tier", () => {
+  assert.deepEqual(computeCost(tiers, "mid", 1_000_000, 100_000), { cost: 4.5, costIfPro: 22.5, savings: 18 });
+  assert.deepEqual(computeCost(tiers, "pro", 1000, 0), { cost: 0.015, costIfPro: 0.015, savings: 0 });
+});
+
+test("unpriced tiers cost nothing", () => {
+  assert.deepEqual(computeCost({}, "low", 1000, 1000), { cost: 0, costIfPro: 0, savings: 0 });
+});
+
+test("small amounts keep their precision when formatted", () => {
+  assert.equal(formatUsd(4.5), "$4.5000");
+  assert.equal(formatUsd(0.000123), "$0.000123");
+  assert.equal(formatUsd(0), "$0.0000");
+});
+
+test("each routed request logs its cost from the upstream's usage", async () => {
+  const upstream = await startFakeUpstream(({ body }, res) => sendJson(res, 200, chatCompletion(body.model)));
+  try {
+    const provider = (model: string) => ({ baseUrl: upstream.baseUrl, apiKey: "", model });
+    const proxy = new HelixProxy(
+      {
+        providers: { pro: provider("pro-model"), mid: provider("mid-model"), low: provider("low-model") },
+        evaluator: { strategy: "heuristic" },
+        tiers,
+      },
+      quietLogger
+    );
+
+    const response = await proxy.handleRequest({ model: "auto", messages: [{ role: "user", content: "hi" }] });
+    const tier = response.headers.get("x-helix-tier") ?? "";
+
+    const lines = readFileSync(LOG_FILE, "utf-8").trim().split("\n");
+    const entry = JSON.parse(lines[lines.length - 1]) as RoutingLogEntry;
+    assert.equal(entry.route, tier);
+    // chatCompletion reports 12 prompt and 4 completion tokens
+    assert.deepEqual(
+      { cost: entry.cost, costIfPro: entry.costIfPro, savings: entry.savings },
+      computeCost(tiers, tier, 12, 4)
+    );
+    assert.ok((entry.savings ?? 0) > 0);
+  } finally {
+    await upstream.close();
+  }
+});
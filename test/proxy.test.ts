@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { HelixProxy } from "../src/proxy.js";
+import type { StreamChunk } from "../src/types.js";
+import { chatCompletion, quietLogger, sendChatStream, sendJson, startFakeUpstream } from "./fake-upstream.js";
+
+test("failover sends each provider of an explicit tier its own model", async () => {
+  const upstream = await startFakeUpstream(({ body }, res) => {
+    if (body.model === "mid-primary") sendJson(res, 503, { error: { message: "overloaded" } });
+    else sendJson(res, 200, chatCompletion(body.model));
+  });
+  try {
+    const provider = (model: string) => ({ baseUrl: upstream.baseUrl, apiKey: "", model });
+    const proxy = new HelixProxy(
+      {
+        providers: {
+          pro: provider("pro-model"),
+          mid: [provider("mid-primary"), provider("mid-backup")],
+          low: provider("low-model"),
+        },
+        cache: { enabled: false },
+      },
+      quietLogger
+    );
+
+    const response = await proxy.handleRequest({
+      model: "helix-router/mid",
+      messages: [{ role: "user", content: "Summarize this paragraph." }],
+    });
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(upstream.received.map(({ body }) => body.model), ["mid-primary", "mid-backup"]);
+    assert.equal(((await response.json()) as { model: string }).model, "mid-backup");
+  } finally {
+    await upstream.close();
+  }
+});
+
+test("a stream without upstream usage ends with an estimate when usage is wanted", async () => {
+  const upstream = await startFakeUpstream(({ body }, res) => sendChatStream(res, body.model, ["Hi", " there"]));
+  try {
+    const provider = (model: string) => ({ baseUrl: upstream.baseUrl, apiKey: "", model, streamUsage: false });
+    const proxy = new HelixProxy(
+      {
+        providers: { pro: provider("pro-model"), mid: provider("mid-model"), low: provider("low-model") },
+        evaluator: { strategy: "heuristic" },
+        cache: { enabled: false },
+      },
+      quietLogger
+    );
+
+    const chunks: StreamChunk[] = [];
+    const request = { model: "auto", messages: [{ role: "user" as const, content: "hi" }], stream: true };
+    for await (const chunk of proxy.handleStreamRequest(request, undefined, {}, { includeUsage: true })) {
+      chunks.push(chunk);
+    }
+
+    const usage = chunks[chunks.length - 1].usage;
+    assert.ok(usage && usage.prompt_tokens > 0 && usage.completion_tokens > 0);
+    assert.equal(upstream.received[0].body.stream_options, undefined);
+  } finally {
+    await upstream.close();
+  }
+});
@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { HelixProxy } from "../src/proxy.js";
+import { RateLimiter } from "../src/rate-limiter.js";
+import { RateLimitError } from "../src/errors.js";
+import type { ProxyConfig } from "../src/proxy.js";
+import { chatCompletion, quietLogger, sendJson, startFakeUpstream, type FakeUpstream } from "./fake-upstream.js";
+
+// Every tier answers, LOW cut off at the token limit
+async function truncatingUpstream(): Promise<FakeUpstream> {
+  return startFakeUpstream(({ body }, res) => {
+    const answer = chatCompletion(body.model);
+    if (body.model === "low-model") answer.choices[0].finish_reason = "length";
+    sendJson(res, 200, answer);
+  });
+}
+
+function proxyFor(upstream: FakeUpstream, quality?: ProxyConfig["quality"]): HelixProxy {
+  const provider = (model: string) => ({ baseUrl: upstream.baseUrl, apiKey: "", model });
+  return new HelixProxy(
+    {
+      providers: { pro: provider("pro-model"), mid: provider("mid-model"), low: provider("low-model") },
+      evaluator: { strategy: "heuristic" },
+      cache: { enabled: false },
+      quality,
+    },
+    quietLogger
+  );
+}
+
+const question = { model: "auto", messages: [{ role: "user" as const, content: "hi" }] };
+
+test("quality escalation is off unless enabled", async () => {
+  const upstream = await truncatingUpstream();
+  try {
+    const response = await proxyFor(upstream).handleRequest(question);
+
+    assert.equal(response.headers.get("x-helix-tier"), "low");
+    assert.deepEqual(upstream.received.map(({ body }) => body.model), ["low-model"]);
+  } finally {
+    await upstream.close();
+  }
+});
+
+test("a truncated answer is retried on the next tier up", async () => {
+  const upstream = await truncatingUpstream();
+  try {
+    const response = await proxyFor(upstream, { enabled: true }).handleRequest(question);
+
+    assert.equal(response.headers.get("x-helix-tier"), "mid");
+    assert.deepEqual(upstream.received.map(({ body }) => body.model), ["low-model", "mid-model"]);
+  } finally {
+    await upstream.close();
+  }
+});
+
+test("an answer cut off at the client's own max_tokens is not retried", async () => {
+  const upstream = await truncatingUpstream();
+  try {
+    const response = await proxyFor(upstream, { enabled: true }).handleRequest({ ...question, max_tokens: 5 });
+
+    assert.equal(response.headers.get("x-helix-tier"), "low");
+    assert.deepEqual(upstream.received.map(({ body }) => body.model), ["low-model"]);
+  } finally {
+    await upstream.close();
+  }
+});
+
+test("a retried request charges the caller for both attempts once", () => {
+  const limiter = new RateLimiter({}, { tpm: 1000 });
+  const caller = { userId: "alice" };
+
+  limiter.check(caller, 100);
+  limiter.admit("low", caller, [], 100);
+  limiter.settle("low", caller, 100, 300);
+  limiter.admitRetry("mid", caller, 100);
+  limiter.settle("mid", caller, 100, 300);
+
+  // 600 of 1000 tokens used
+  assert.throws(() => limiter.check(caller, 450), RateLimitError);
+  assert.doesNotThrow(() => limiter.check(caller, 350));
+});
@@ -0,0 +1,137 @@
+import { mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { HelixProxy } from "../src/proxy.js";
+import { RateLimiter } from "../src/rate-limiter.js";
+import { RateLimitError } from "../src/errors.js";
+import { countRequestTokens } from "../src/tokenizer.js";
+import type { ChatCompletionRequest, HelixRouterConfig } from "../src/types.js";
+import { chatCompletion, freePort, quietLogger, sendChatStream, sendJson, startFakeUpstream, type FakeUpstream } from "./fake-upstream.js";
+
+function proxyFor(upstream: FakeUpstream, config: Partial<HelixRouterConfig> = {}, lowUrl = upstream.baseUrl): HelixProxy {
+  const provider = (model: string, baseUrl = upstream.baseUrl) => ({ baseUrl, apiKey: "", model });
+  return new HelixProxy(
+    {
+      providers: { pro: provider("pro-model"), mid: provider("mid-model"), low: provider("low-model", lowUrl) },
+      evaluator: { strategy: "heuristic" },
+      cache: { enabled: false },
+      ...config,
+    },
+    quietLogger
+  );
+}
+
+test("a request that falls back releases the routed tier's reservation", async () => {
+  const upstream = await startFakeUpstream(({ body }, res) => sendJson(res, 200, chatCompletion(body.model)));
+  try {
+    const request: ChatCompletionRequest = { model: "auto", messages: [{ role: "user", content: "hi" }] };
+    const proxy = proxyFor(upstream, {
+      // LOW is unreachable and holds exactly one request's estimate
+      tiers: { low: { rateLimit: { tpm: countRequestTokens(request) } } },
+    }, `http://127.0.0.1:${await freePort()}/v1`);
+
+    for (let i = 0; i < 2; i++) {
+      const response = await proxy.handleRequest(request);
+      assert.equal(response.headers.get("x-helix-tier"), "mid");
+    }
+  } finally {
+    await upstream.close();
+  }
+});
+
+test("a failed stream releases its reservation", async () => {
+  let calls = 0;
+  const upstream = await startFakeUpstream(({ body }, res) => {
+    if (calls++ === 0) sendJson(res, 500, { error: { message: "boom" } });
+    else sendChatStream(res, body.model, ["Hi"]);
+  });
+  try {
+    const request: ChatCompletionRequest = { model: "auto", messages: [{ role: "user", content: "hi" }], stream: true };
+    const proxy = proxyFor(upstream, { tiers: { low: { rateLimit: { tpm: countRequestTokens(request) } } } });
+
+    await assert.rejects(async () => {
+      for await (const _chunk of proxy.handleStreamRequest(request)) {
+        // drain
+      }
+    });
+
+    let text = "";
+    for await (const chunk of proxy.handleStreamRequest(request)) {
+      text += chunk.choices[0]?.delta?.content ?? "";
+    }
+    assert.equal(text, "Hi");
+  } finally {
+    await upstream.close();
+  }
+});
+
+test("buckets of idle callers are dropped once they refill", () => {
+  mock.timers.enable({ apis: ["Date"] });
+  try {
+    const limiter = new RateLimiter({}, { rpm: 10, tpm: 1000 });
+    for (let user = 0; user < 100; user++) {
+      limiter.check({ userId: `user-${user}` }, 10);
+    }
+    assert.equal(limiter.size(), 200);
+
+    mock.timers.tick(30_000);
+    limiter.check({ userId: "user-0" }, 900);
+    assert.equal(limiter.size(), 200);
+
+    // Only user-0's token bucket is still refilling a minute on
+    mock.timers.tick(30_000);
+    assert.equal(limiter.size(), 1);
+    assert.throws(() => limiter.check({ userId: "user-0" }, 700), RateLimitError);
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test("an exhausted caller limit is a 429 with Retry-After and rate-limit headers", () => {
+  const limiter = new RateLimiter({}, { rpm: 2 });
+  const caller = { userId: "alice" };
+  limiter.check(caller, 10);
+  limiter.check(caller, 10);
+
+  assert.throws(() => limiter.check(caller, 10), (error: unknown) => {
+    assert.ok(error instanceof RateLimitError);
+    assert.equal(error.status, 429);
+    assert.equal(error.headers["Retry-After"], "30");
+    assert.equal(error.headers["x-ratelimit-limit-requests"], "2");
+    assert.equal(error.headers["x-ratelimit-remaining-requests"], "0");
+    return true;
+  });
+  // Limits are kept per caller
+  assert.doesNotThrow(() => limiter.check({ userId: "bob" }, 10));
+});
+
+test("a saturated tier rejects unless the caller's policy demotes", () => {
+  const limiter = new RateLimiter({ pro: { rateLimit: { rpm: 1 } } });
+  limiter.admit("pro", {}, ["mid"], 10);
+
+  assert.throws(() => limiter.admit("pro", { userId: "alice" }, ["mid"], 10), RateLimitError);
+  assert.deepEqual(limiter.admit("pro", { userId: "bob", policy: { onRateLimit: "demote" } }, ["mid"], 10), {
+    tier: "mid",
+    reasons: ["tier:pro rate limit reached"],
+  });
+});
+
+test("a key's own tier limit demotes its requests to a cheaper tier", async () => {
+  const upstream = await startFakeUpstream(({ body }, res) => sendJson(res, 200, chatCompletion(body.model)));
+  try {
+    const proxy = proxyFor(upstream);
+    const caller = { userId: "team", policy: { tierRateLimits: { mid: { rpm: 1 } }, onRateLimit: "demote" as const } };
+    // The heuristic routes this to MID
+    const request: ChatCompletionRequest = {
+      model: "auto",
+      messages: [{ role: "user", content: "Summarize this paragraph." }],
+    };
+
+    const first = await proxy.handleRequest(request, undefined, caller);
+    const second = await proxy.handleRequest(request, undefined, caller);
+
+    assert.equal(first.headers.get("x-helix-tier"), "mid");
+    assert.equal(second.headers.get("x-helix-tier"), "low");
+  } finally {
+    await upstream.close();
+  }
+});
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { defaultEvaluation } from "../src/complexity-evaluator.js";
+import { ContextLengthExceededError, UnsupportedCapabilityError } from "../src/errors.js";
+import { RoutingEngine } from "../src/routing-engine.js";
+import type { ComplexityEvaluation, TiersConfig } from "../src/types.js";
+
+const provider = (model: string) => ({ baseUrl: "http://127.0.0.1:1/v1", apiKey: "", model });
+const providers = { pro: provider("pro-model"), mid: provider("mid-model"), low: provider("low-model") };
+const quiet = { info: () => {} };
+
+function engine(tiers: TiersConfig = {}): RoutingEngine {
+  return new RoutingEngine(providers, {}, quiet, undefined, undefined, tiers);
+}
+
+function scored(score: number): ComplexityEvaluation {
+  return { ...defaultEvaluation(), complexity_score: score };
+}
+
+test("a prompt that overflows its tier moves up to the nearest tier it fits", () => {
+  const tiers = { low: { contextWindow: 1000 }, mid: { contextWindow: 8000 } };
+
+  const decision = engine(tiers).decide(scored(10), false, undefined, { promptTokens: 2000, maxTokens: 500 });
+
+  assert.equal(decision.tier, "mid");
+  assert.match(decision.reasoning, /-> MID/);
+});
+
+test("max_tokens above a tier's output limit moves the request up", () => {
+  const decision = engine().decide(scored(10), false, undefined, { promptTokens: 10, maxTokens: 20000 });
+
+  assert.equal(decision.tier, "mid");
+  assert.match(decision.reasoning, /max_tokens 20000 exceeds LOW limit 16000/);
+});
+
+test("a prompt no tier can hold is a context_length_exceeded error", () => {
+  const tiers = { low: { contextWindow: 1000 }, mid: { contextWindow: 1000 }, pro: { contextWindow: 1000 } };
+
+  assert.throws(
+    () => engine(tiers).decide(scored(10), false, undefined, { promptTokens: 5000, maxTokens: 0 }),
+    (error: unknown) => {
+      assert.ok(error instanceof ContextLengthExceededError);
+      assert.equal(error.status, 400);
+      assert.equal(error.type, "context_length_exceeded");
+      return true;
+    }
+  );
+});
+
+test("a request needing a capability its tier lacks moves to the nearest tier that has it", () => {
+  const decision = engine().decide(scored(10), false, undefined, undefined, ["vision"]);
+
+  assert.equal(decision.tier, "mid");
+  assert.match(decision.reasoning, /LOW lacks vision -> MID/);
+  assert.equal(engine({ low: { input: ["text", "image"] } }).decide(scored(10), false, undefined, undefined, ["vision"]).tier, "low");
+  assert.equal(engine().decide(scored(10), false, undefined, undefined, ["reasoning"]).tier, "pro");
+});
+
+test("a capability no permitted tier offers is an unsupported_capability error", () => {
+  const context = { policy: { maxTier: "mid" } };
+
+  assert.throws(
+    () => engine().decide(scored(10), false, context, undefined, ["reasoning"]),
+    (error: unknown) => error instanceof UnsupportedCapabilityError && error.status === 400
+  );
+});
@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { defaultEvaluation } from "../src/complexity-evaluator.js";
+import { RoutingEngine } from "../src/routing-engine.js";
+import { applyRules, findRuleErrors } from "../src/routing-rules.js";
+import type { ComplexityEvaluation, RoutingRule } from "../src/types.js";
+
+function evaluation(overrides: Partial<ComplexityEvaluation> = {}): ComplexityEvaluation {
+  return { ...defaultEvaluation(), confidence: 0.9, ...overrides };
+}
+
+test("the first matching rule with a tier decides", () => {
+  const rules: RoutingRule[] = [
+    { name: "vip", when: { user: ["ceo"] }, then: { tier: "pro" } },
+    { name: "writing", when: { taskType: ["writing"] }, then: { tier: "mid" } },
+    { name: "catch-all", then: { tier: "low" } },
+  ];
+
+  assert.deepEqual(
+    applyRules(rules, { evaluation: evaluation({ task_type: "writing" }), userId: "ceo", capabilities: [] }),
+    { tier: "pro", rule: "vip", score: 50, notes: [] }
+  );
+  assert.equal(applyRules(rules, { evaluation: evaluation({ task_type: "writing" }), capabilities: [] }).rule, "writing");
+  assert.equal(applyRules(rules, { evaluation: evaluation(), capabilities: [] }).rule, "catch-all");
+});
+
+test("score adjustments and tier bounds carry forward to later rules", () => {
+  const rules: RoutingRule[] = [
+    { name: "images-boost", when: { capabilities: ["vision"] }, then: { adjustScore: 30, minTier: "mid" } },
+    { name: "high", when: { score: { gte: 75 } }, then: { tier: "pro" } },
+  ];
+
+  const outcome = applyRules(rules, { evaluation: evaluation(), capabilities: ["vision"] });
+
+  assert.equal(outcome.score, 80);
+  assert.equal(outcome.tier, "pro");
+  assert.equal(outcome.minTier, "mid");
+  assert.deepEqual(outcome.notes, [
+    "rule images-boost adjusts score by 30 to 80",
+    "rule images-boost sets minimum MID",
+  ]);
+});
+
+test("a rule's bound clamps the threshold route and is named as the deciding rule", () => {
+  const router = new RoutingEngine(
+    { pro: { baseUrl: "http://127.0.0.1:1/v1", apiKey: "", model: "pro-model" } },
+    { rules: [{ name: "cheap-model-alias", when: { model: ["cheap"] }, then: { maxTier: "low" } }] },
+    { info: () => {} }
+  );
+
+  const decision = router.decide(evaluation({ complexity_score: 90 }), false, { model: "cheap" });
+
+  assert.equal(decision.tier, "low");
+  assert.equal(decision.rule, "cheap-model-alias");
+});
+
+test("rule mistakes are reported with their index", () => {
+  assert.deepEqual(findRuleErrors([
+    { name: "a", then: { tier: "ultra" } },
+    { name: "a", then: {} },
+    { name: "b", then: { minTier: "pro", maxTier: "low" } },
+  ]), [
+    { index: 0, message: "\"a\": unknown tier \"ultra\"" },
+    { index: 1, message: "duplicate rule name \"a\"" },
+    { index: 1, message: "\"a\" needs a tier, minTier, maxTier or adjustScore action" },
+    { index: 2, message: "\"b\": minTier is above maxTier" },
+  ]);
+});
@@ -0,0 +1,244 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { HelixServer } from "../src/server.js";
+import {
+  chatCompletion,
+  freePort,
+  quietLogger,
+  sendChatStream,
+  sendJson,
+  startFakeUpstream,
+  type FakeUpstream,
+} from "./fake-upstream.js";
+
+let upstream: FakeUpstream;
+let server: HelixServer;
+let baseUrl: string;
+
+before(async () => {
+  upstream = await startFakeUpstream(({ body }, res) => {
+    if (body.stream) sendChatStream(res, body.model, ["Hello", ", world"], body.stream_options?.include_usage === true);
+    else sendJson(res, 200, chatCompletion(body.model, "Hello, world"));
+  });
+  const provider = (model: string) => ({ baseUrl: upstream.baseUrl, apiKey: "", model });
+  const port = await freePort();
+  server = new HelixServer({
+    port,
+    config: {
+      providers: { pro: provider("pro-model"), mid: provider("mid-model"), low: provider("low-model") },
+      evaluator: { strategy: "heuristic" },
+      cache: { enabled: false },
+    },
+    logger: quietLogger,
+  });
+  await server.start();
+  baseUrl = `http://127.0.0.1:${port}`;
+});
+
+after(async () => {
+  await server.stop();
+  await upstream.close();
+});
+
+function post(path: string, body: unknown): Promise<Response> {
+  return fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+// `data:` payloads of an SSE body
+function sseData(body: string): string[] {
+  return body.split("\n").filter((line) => line.startsWith("data: ")).map((line) => line.slice("data: ".length));
+}
+
+test("/v1/responses answers with a Responses object", async () => {
+  upstream.received.length = 0;
+  const response = await post("/v1/responses", {
+    model: "auto",
+    instructions: "Be brief.",
+    input: "Say hello.",
+  });
+
+  assert.equal(response.status, 200);
+  const tier = response.headers.get("x-helix-tier");
+  const body = (await response.json()) as any;
+  assert.equal(body.object, "response");
+  assert.equal(body.status, "completed");
+  assert.equal(body.model, "auto");
+  assert.deepEqual(body.output[0].content, [{ type: "output_text", text: "Hello, world", annotations: [] }]);
+  assert.deepEqual(body.usage, { input_tokens: 12, output_tokens: 4, total_tokens: 16 });
+
+  assert.deepEqual(upstream.received[0].body.messages, [
+    { role: "system", content: "Be brief." },
+    { role: "user", content: "Say hello." },
+  ]);
+  assert.equal(upstream.received[0].body.model, `${tier}-model`);
+});
+
+test("/v1/responses streams Responses events", async () => {
+  const response = await post("/v1/responses", { model: "auto", input: "Say hello.", stream: true });
+
+  assert.equal(response.status, 200);
+  assert.match(response.headers.get("content-type") ?? "", /text\/event-stream/);
+  const events = sseData(await response.text()).map((data) => JSON.parse(data));
+  const types = events.map((event) => event.type);
+  assert.equal(types[0], "response.created");
+  assert.equal(types[types.length - 1], "response.completed");
+  const deltas = events.filter((event) => event.type === "response.output_text.delta").map((event) => event.delta);
+  assert.equal(deltas.join(""), "Hello, world");
+  assert.deepEqual(events[events.length - 1].response.usage, { input_tokens: 12, output_tokens: 4, total_tokens: 16 });
+});
+
+test("/v1/messages answers with an Anthropic message", async () => {
+  upstream.received.length = 0;
+  const response = await post("/v1/messages", {
+    model: "claude-router",
+    max_tokens: 64,
+    system: "Be brief.",
+    messages: [{ role: "user", content: "Say hello." }],
+  });
+
+  assert.equal(response.status, 200);
+  const body = (await response.json()) as any;
+  assert.equal(body.type, "message");
+  assert.equal(body.model, "claude-router");
+  assert.deepEqual(body.content, [{ type: "text", text: "Hello, world" }]);
+  assert.equal(body.stop_reason, "end_turn");
+  assert.deepEqual(body.usage, { input_tokens: 12, output_tokens: 4 });
+  assert.deepEqual(upstream.received[0].body.messages, [
+    { role: "system", content: "Be brief." },
+    { role: "user", content: "Say hello." },
+  ]);
+});
+
+test("/v1/messages streams Anthropic events with token counts", async () => {
+  const response = await post("/v1/messages", {
+    model: "claude-router",
+    max_tokens: 64,
+    stream: true,
+    messages: [{ role: "user", content: "Say hello." }],
+  });
+
+  assert.equal(response.status, 200);
+  const events = sseData(await response.text()).map((data) => JSON.parse(data));
+  assert.equal(events[0].type, "message_start");
+  assert.ok(events[0].message.usage.input_tokens > 0);
+  const text = events
+    .filter((event) => event.type === "content_block_delta")
+    .map((event) => event.delta.text)
+    .join("");
+  assert.equal(text, "Hello, world");
+  const delta = events.find((event) => event.type === "message_delta");
+  assert.deepEqual(delta.usage, { input_tokens: 12, output_tokens: 4 });
+});
+
+test("/v1/chat/completions reports the routing decision in headers and body", async () => {
+  const response = await post("/v1/chat/completions", { model: "auto", messages: [{ role: "user", content: "Say hello." }] });
+
+  assert.equal(response.status, 200);
+  const tier = response.headers.get("x-helix-tier");
+  assert.ok(tier);
+  assert.ok(response.headers.get("x-helix-request-id"));
+  assert.equal(response.headers.get("x-helix-cached"), "false");
+  const body = (await response.json()) as any;
+  assert.equal(body.model, `helix-router/${tier}`);
+  assert.equal(body.helix.tier, tier);
+  assert.equal(body.helix.requestId, response.headers.get("x-helix-request-id"));
+  assert.equal(String(body.helix.score), response.headers.get("x-helix-score"));
+});
+
+test("a streamed chat completion carries the routing decision once", async () => {
+  const response = await post("/v1/chat/completions", {
+    model: "auto",
+    stream: true,
+    messages: [{ role: "user", content: "Say hello." }],
+  });
+
+  const tier = response.headers.get("x-helix-tier");
+  assert.ok(tier);
+  const chunks = sseData(await response.text()).filter((data) => data !== "[DONE]").map((data) => JSON.parse(data));
+  assert.equal(chunks[0].helix.tier, tier);
+  assert.ok(chunks.slice(1).every((chunk) => chunk.helix === undefined));
+  assert.ok(chunks.every((chunk) => chunk.model === `helix-router/${tier}`));
+});
+
+test("/v1/chat/completions passes usage chunks on only when asked", async () => {
+  const stream = (streamOptions?: unknown) =>
+    post("/v1/chat/completions", {
+      model: "auto",
+      stream: true,
+      stream_options: streamOptions,
+      messages: [{ role: "user", content: "Say hello." }],
+    }).then((response) => response.text());
+
+  const usageChunks = (body: string) =>
+    sseData(body).filter((data) => data !== "[DONE]").map((data) => JSON.parse(data)).filter((chunk) => chunk.usage);
+  assert.deepEqual(usageChunks(await stream()), []);
+  assert.deepEqual(usageChunks(await stream({ include_usage: true })).map((chunk) => chunk.usage), [
+    { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+  ]);
+});
+
+test("/v1/responses rejects a request without input", async () => {
+  const response = await post("/v1/responses", { model: "auto" });
+
+  assert.equal(response.status, 400);
+  assert.equal(((await response.json()) as any).error.type, "invalid_request_error");
+});
+
+test("/v1/messages rejects malformed content with an Anthropic error", async () => {
+  for (const body of [
+    { model: "auto", max_tokens: 16, messages: [{ role: "user", content: null }] },
+    { model: "auto", max_tokens: 16, system: 42, messages: [{ role: "user", content: "hi" }] },
+  ]) {
+    const response = await post("/v1/messages", body);
+
+    assert.equal(response.status, 400);
+    const error = (await response.json()) as any;
+    assert.equal(error.type, "error");
+    assert.equal(error.error.type, "invalid_request_error");
+  }
+});
+
+test("/v1/completions answers with a text completion", async () => {
+  upstream.received.length = 0;
+  const response = await post("/v1/completions", {
+    model: "auto",
+    prompt: "Say hello.",
+    max_tokens: 16,
+    stop: "\n",
+  });
+
+  assert.equal(response.status, 200);
+  const body = (await response.json()) as any;
+  assert.equal(body.object, "text_completion");
+  assert.equal(body.model, "auto");
+  assert.equal(body.choices[0].text, "Hello, world");
+  assert.equal(body.choices[0].finish_reason, "stop");
+
+  const sent = upstream.received[0].body;
+  assert.deepEqual(sent.messages, [{ role: "user", content: "Say hello." }]);
+  assert.equal(sent.max_tokens, 16);
+  assert.deepEqual(sent.stop, ["\n"]);
+});
+
+test("/v1/completions streams completion chunks", async () => {
+  const response = await post("/v1/completions", { model: "auto", prompt: "Say hello.", stream: true });
+
+  assert.equal(response.status, 200);
+  const frames = sseData(await response.text());
+  assert.equal(frames[frames.length - 1], "[DONE]");
+  const chunks = frames.slice(0, -1).map((data) => JSON.parse(data));
+  assert.ok(chunks.every((chunk) => chunk.object === "text_completion"));
+  assert.equal(chunks.map((chunk) => chunk.choices[0].text).join(""), "Hello, world");
+  assert.equal(chunks.filter((chunk) => chunk.choices[0].finish_reason === "stop").length, 1);
+});
+
+test("/v1/completions rejects batched prompts", async () => {
+  const response = await post("/v1/completions", { model: "auto", prompt: ["one", "two"] });
+
+  assert.equal(response.status, 400);
+  assert.match(((await response.json()) as any).error.message, /Batched prompts/);
+});
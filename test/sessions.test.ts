@@ -0,0 +1,20 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SessionTracker } from "../src/sessions.js";
+
+const order = ["low", "mid", "pro"];
+
+test("sessions are off unless enabled", () => {
+  assert.equal(new SessionTracker().isEnabled(), false);
+  assert.equal(new SessionTracker({ enabled: false }).isEnabled(), false);
+  assert.equal(new SessionTracker({ enabled: true }).isEnabled(), true);
+});
+
+test("a session holds its tier until enough simpler turns pass", () => {
+  const sessions = new SessionTracker({ enabled: true, deescalateAfter: 2 });
+
+  assert.deepEqual(sessions.hold("s", "pro", order), { tier: "pro" });
+  assert.equal(sessions.hold("s", "low", order).tier, "pro");
+  assert.equal(sessions.hold("s", "low", order).tier, "pro");
+  assert.equal(sessions.hold("s", "low", order).tier, "low");
+});
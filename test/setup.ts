@@ -0,0 +1,12 @@
+/**
+ * Loaded before every test file: the router keeps its logs and state under
+ * ~/.openclaw/helix-router, so tests get a scratch home directory.
+ */
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const home = mkdtempSync(join(tmpdir(), "helix-test-"));
+process.env.HOME = home;
+process.on("exit", () => rmSync(home, { recursive: true, force: true }));
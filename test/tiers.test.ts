@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { defaultEvaluation } from "../src/complexity-evaluator.js";
+import { configFromEnv } from "../src/config.js";
+import { RoutingEngine } from "../src/routing-engine.js";
+import { bandForScore, findTierErrors, scoreBands, tierEnvName } from "../src/tiers.js";
+
+const ladder = ["nano", "low", "mid", "pro", "ultra"];
+const ladderTiers = { low: { minScore: 15 }, ultra: { minScore: 90 } };
+
+test("a named ladder splits scores into bands, with MID and PRO at their thresholds", () => {
+  const bands = scoreBands(ladder, ladderTiers, {});
+
+  assert.deepEqual(bands, [
+    { tier: "nano", minScore: 0 },
+    { tier: "low", minScore: 15 },
+    { tier: "mid", minScore: 35 },
+    { tier: "pro", minScore: 75 },
+    { tier: "ultra", minScore: 90 },
+  ]);
+  assert.equal(bandForScore(bands, 14).tier, "nano");
+  assert.equal(bandForScore(bands, 15).tier, "low");
+  assert.equal(bandForScore(bands, 89).tier, "pro");
+  assert.equal(bandForScore(bands, 100).tier, "ultra");
+});
+
+test("a ladder without a start for an added tier, or out of order, is rejected", () => {
+  assert.deepEqual(findTierErrors(ladder, { low: { minScore: 15 } }, {}), [
+    { path: ["tiers", "ultra", "minScore"], message: "is required for a tier above the cheapest" },
+  ]);
+  assert.deepEqual(findTierErrors(["low", "mid", "pro"], {}, { midThreshold: 80 }), [
+    { path: ["tiers", "pro", "minScore"], message: "must be above mid's minScore (80)" },
+  ]);
+  assert.deepEqual(findTierErrors(["low", "low"], {}, {}), [
+    { path: ["routing", "tiers", 1], message: "duplicate tier \"low\"" },
+  ]);
+  assert.throws(() => scoreBands(ladder, {}, {}), /tiers\.low\.minScore/);
+});
+
+test("the engine routes each score to its tier on a named ladder", () => {
+  const provider = (model: string) => ({ baseUrl: "http://127.0.0.1:1/v1", apiKey: "", model });
+  const providers = Object.fromEntries(ladder.map((tier) => [tier, provider(`${tier}-model`)]));
+  const engine = new RoutingEngine(providers, { tiers: ladder }, { info: () => {} }, undefined, undefined, ladderTiers);
+  const route = (score: number) =>
+    engine.decide({ ...defaultEvaluation(), complexity_score: score, confidence: 0.9 }, false, undefined, undefined, []);
+
+  assert.equal(route(5).tier, "nano");
+  assert.equal(route(20).tier, "low");
+  assert.equal(route(95).tier, "ultra");
+});
+
+test("HELIX_TIERS names the ladder and its tiers' variables", () => {
+  const layer = configFromEnv({
+    HELIX_TIERS: "nano, low,mid,pro,ultra",
+    HELIX_NANO_URL: "http://nano/v1",
+    HELIX_NANO_MODEL: "nano-model",
+  });
+
+  assert.deepEqual(layer.routing?.tiers, ladder);
+  assert.deepEqual(layer.providers?.nano, { baseUrl: "http://nano/v1", model: "nano-model" });
+  assert.equal(tierEnvName("gpt-4o mini"), "GPT_4O_MINI");
+});
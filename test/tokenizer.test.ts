@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  countMessageTokens,
+  countRequestTokens,
+  countTextTokens,
+  encodingForModel,
+  tokenSizeFor,
+} from "../src/tokenizer.js";
+
+test("the encoding follows the model family, ignoring provider prefixes", () => {
+  assert.equal(encodingForModel("gpt-4o-mini"), "o200k_base");
+  assert.equal(encodingForModel("openai/o3"), "o200k_base");
+  assert.equal(encodingForModel("gpt-4-turbo"), "cl100k_base");
+  assert.equal(encodingForModel("anthropic/claude-sonnet-4"), "cl100k_base");
+  assert.equal(encodingForModel(), "cl100k_base");
+});
+
+test("text is counted with BPE, special-token markers included", () => {
+  assert.equal(countTextTokens(""), 0);
+  assert.equal(countTextTokens("hello world"), 2);
+  assert.ok(countTextTokens("<|endoftext|>") > 1);
+});
+
+test("messages are counted with chat framing, images at a flat rate", () => {
+  // 3 for reply priming, 3 per message, then role and content
+  assert.equal(countMessageTokens([{ role: "user", content: "hello world" }]), 3 + 3 + 1 + 2);
+
+  const withImage = countMessageTokens([{
+    role: "user",
+    content: [{ type: "text", text: "hello world" }, { type: "image_url", image_url: { url: "https://example.com/a.png" } }],
+  }]);
+  assert.equal(withImage, 3 + 3 + 1 + 2 + 765);
+});
+
+test("tool definitions count toward the prompt", () => {
+  const request = { model: "auto", messages: [{ role: "user" as const, content: "Weather in Paris?" }] };
+  const withTools = {
+    ...request,
+    tools: [{ type: "function" as const, function: { name: "weather", description: "Current weather", parameters: { type: "object" } } }],
+  };
+  assert.ok(countRequestTokens(withTools) > countRequestTokens(request));
+});
+
+test("token counts are bucketed into the complexity prompt's sizes", () => {
+  assert.equal(tokenSizeFor(499), "small");
+  assert.equal(tokenSizeFor(500), "medium");
+  assert.equal(tokenSizeFor(8000), "large");
+  assert.equal(tokenSizeFor(8001), "very_large");
+});
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ToolLoopTracker } from "../src/tool-loops.js";
+import type { ChatMessage } from "../src/types.js";
+
+const loop: ChatMessage[] = [
+  { role: "user", content: "List the files and fix the failing test." },
+  {
+    role: "assistant",
+    content: null,
+    tool_calls: [{ id: "call_1", type: "function", function: { name: "shell", arguments: "{\"cmd\":\"npm test\"}" } }],
+  },
+  { role: "tool", tool_call_id: "call_1", content: "Error: 1 test failed" },
+];
+
+test("tool loops are not tracked unless enabled", () => {
+  assert.equal(new ToolLoopTracker().turnOf(loop, {}), undefined);
+  assert.equal(new ToolLoopTracker({ enabled: false }).turnOf(loop, {}), undefined);
+});
+
+test("a tool-result turn is matched to its user turn", () => {
+  const tracker = new ToolLoopTracker({ enabled: true, escalateOnErrors: 1 });
+  const turn = tracker.turnOf(loop, {});
+
+  assert.ok(turn);
+  assert.equal(turn.toolResult, true);
+  assert.equal(turn.iteration, 1);
+  assert.equal(turn.toolErrors, 1);
+  assert.equal(turn.key, tracker.turnOf(loop.slice(0, 1), {})?.key);
+  assert.equal(tracker.escalationReason(turn), "1 tool errors in the loop");
+});
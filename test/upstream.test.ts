@@ -0,0 +1,124 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getAdapter } from "../src/adapters/index.js";
+import { ProviderHealth } from "../src/circuit-breaker.js";
+import { InvalidRequestError } from "../src/errors.js";
+import { fetchWithFailover } from "../src/upstream.js";
+import type { ChatCompletionRequest, ProviderConfig } from "../src/types.js";
+import { chatCompletion, freePort, quietLogger, sendJson, startFakeUpstream } from "./fake-upstream.js";
+
+const toolLoop: ChatCompletionRequest = {
+  model: "auto",
+  messages: [
+    { role: "user", content: "What's the weather in Paris?" },
+    {
+      role: "assistant",
+      content: null,
+      tool_calls: [{ id: "call_1", type: "function", function: { name: "weather", arguments: "{\"city\":\"Paris\"}" } }],
+    },
+    { role: "tool", tool_call_id: "call_1", content: "18°C, cloudy" },
+  ],
+};
+
+for (const api of ["openai-completions", "anthropic-messages", "google-generative-ai", "ollama"] as const) {
+  test(`the ${api} adapter translates assistant turns with null content`, () => {
+    const provider: ProviderConfig = { api, baseUrl: "http://127.0.0.1:1", apiKey: "", model: "m" };
+    assert.doesNotThrow(() => getAdapter(api).buildRequest(provider, toolLoop));
+  });
+}
+
+test("a request no adapter can build is a 400 and leaves the breakers alone", async () => {
+  const chain: ProviderConfig[] = [
+    { baseUrl: "http://127.0.0.1:1", apiKey: "", model: "a" },
+    { baseUrl: "http://127.0.0.1:1", apiKey: "", model: "b" },
+  ];
+  const health = new ProviderHealth({ minRequests: 1 });
+  const warnings: string[] = [];
+  const sent = fetchWithFailover(
+    chain,
+    () => {
+      throw new Error("unsupported content part");
+    },
+    { warn: (msg) => warnings.push(msg) },
+    health
+  );
+
+  await assert.rejects(sent, (error: unknown) => {
+    assert.ok(error instanceof InvalidRequestError);
+    assert.equal(error.status, 400);
+    assert.match(error.message, /unsupported content part/);
+    return true;
+  });
+  for (const provider of chain) {
+    assert.equal(health.get(provider).getState(), "closed");
+    assert.equal(health.get(provider).getFailureRate(), 0);
+  }
+});
+
+test("failover moves past refused connections and retryable statuses in order", async () => {
+  const upstream = await startFakeUpstream(({ body }, res) => {
+    if (body.model === "busy") sendJson(res, 503, { error: { message: "overloaded" } });
+    else sendJson(res, 200, chatCompletion(body.model));
+  });
+  try {
+    const chain: ProviderConfig[] = [
+      { baseUrl: `http://127.0.0.1:${await freePort()}/v1`, apiKey: "", model: "down" },
+      { baseUrl: upstream.baseUrl, apiKey: "", model: "busy" },
+      { baseUrl: upstream.baseUrl, apiKey: "", model: "good" },
+    ];
+
+    const { response, provider, attempts } = await fetchWithFailover(
+      chain,
+      (candidate) => ({ ...toolLoop, model: candidate.model }),
+      quietLogger
+    );
+
+    assert.equal(response.status, 200);
+    assert.equal(provider.model, "good");
+    assert.deepEqual(attempts.map(({ model, status }) => [model, status]), [
+      ["down", undefined],
+      ["busy", 503],
+      ["good", 200],
+    ]);
+    assert.ok(attempts[0].error);
+  } finally {
+    await upstream.close();
+  }
+});
+
+test("a client error is returned without trying the next provider", async () => {
+  const upstream = await startFakeUpstream((_request, res) => sendJson(res, 400, { error: { message: "bad" } }));
+  try {
+    const chain: ProviderConfig[] = [
+      { baseUrl: upstream.baseUrl, apiKey: "", model: "a" },
+      { baseUrl: upstream.baseUrl, apiKey: "", model: "b" },
+    ];
+
+    const { response, provider } = await fetchWithFailover(chain, (candidate) => ({ ...toolLoop, model: candidate.model }), quietLogger);
+
+    assert.equal(response.status, 400);
+    assert.equal(provider.model, "a");
+    assert.equal(upstream.received.length, 1);
+  } finally {
+    await upstream.close();
+  }
+});
+
+test("the last provider's error response is returned when every provider fails", async () => {
+  const upstream = await startFakeUpstream(({ body }, res) =>
+    sendJson(res, body.model === "a" ? 503 : 429, { error: { message: "unavailable" } })
+  );
+  try {
+    const chain: ProviderConfig[] = [
+      { baseUrl: upstream.baseUrl, apiKey: "", model: "a" },
+      { baseUrl: upstream.baseUrl, apiKey: "", model: "b" },
+    ];
+
+    const { response, provider } = await fetchWithFailover(chain, (candidate) => ({ ...toolLoop, model: candidate.model }), quietLogger);
+
+    assert.equal(response.status, 429);
+    assert.equal(provider.model, "b");
+  } finally {
+    await upstream.close();
+  }
+});